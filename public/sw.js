@@ -0,0 +1,190 @@
+// AgriGasha service worker: precaches the app shell, the TFLite WASM runtime
+// and the diagnosis model so the app works with no signal at all.
+
+// Replaced at build time by the offline plugin in vite.config.ts
+const PRECACHE_MANIFEST = {"version":"dev","urls":[]};
+
+const CACHE_PREFIX = 'agrigasha-';
+const PRECACHE = `${CACHE_PREFIX}precache-${PRECACHE_MANIFEST.version}`;
+const RUNTIME = `${CACHE_PREFIX}runtime`;
+const RUNTIME_HOSTS = ['fonts.googleapis.com', 'fonts.gstatic.com'];
+const NETWORK_FIRST_PATHS = ['/knowledge-base.json'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(PRECACHE);
+    // Add one by one so a single missing file (e.g. the model) does not abort
+    // the install; it is reported through the status message instead.
+    await Promise.allSettled(PRECACHE_MANIFEST.urls.map(url => cache.add(new Request(url, { cache: 'reload' }))));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(keys
+      .filter(key => key.startsWith(CACHE_PREFIX) && key !== PRECACHE && key !== RUNTIME)
+      .map(key => caches.delete(key)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (url.origin === self.location.origin) {
+    if (url.pathname.startsWith('/api/')) return;
+    // Published data packages can change without a new build: network first
+    if (NETWORK_FIRST_PATHS.includes(url.pathname)) {
+      event.respondWith((async () => {
+        const cache = await caches.open(RUNTIME);
+        try {
+          const response = await fetch(request);
+          if (response.ok) cache.put(url.pathname, response.clone());
+          return response;
+        } catch (error) {
+          return (await cache.match(url.pathname)) || (await caches.match(url.pathname)) || Response.error();
+        }
+      })());
+      return;
+    }
+    event.respondWith((async () => {
+      const cache = await caches.open(PRECACHE);
+      const key = request.mode === 'navigate' ? '/' : url.pathname;
+      const cached = await cache.match(key);
+      if (cached) return cached;
+      return fetch(request);
+    })());
+    return;
+  }
+
+  if (RUNTIME_HOSTS.includes(url.hostname)) {
+    event.respondWith((async () => {
+      const cache = await caches.open(RUNTIME);
+      const cached = await cache.match(request);
+      const network = fetch(request)
+        .then(response => {
+          if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+          return response;
+        })
+        .catch(() => cached);
+      return cached || network;
+    })());
+  }
+});
+
+// Replies to { type: 'status' } with the precache files that are not cached yet
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== 'status' || !event.ports[0]) return;
+  event.waitUntil((async () => {
+    const cache = await caches.open(PRECACHE);
+    const missing = [];
+    for (const url of PRECACHE_MANIFEST.urls) {
+      if (!(await cache.match(url))) missing.push(url);
+    }
+    event.ports[0].postMessage({ version: PRECACHE_MANIFEST.version, missing });
+  })());
+});
+
+function idbRequest(req) {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// Outbreak alerts (server/alerts.ts). Push messages carry no payload; they
+// only wake the worker, which asks the server what is going on nearby. That
+// is the sync server the app subscribed on, which may be on another origin;
+// src/services/alertService.ts saves its address in the settings store.
+const DEFAULT_SERVER_URL = '/api';
+
+async function alertServerUrl() {
+  const db = await idbRequest(indexedDB.open('agrigasha'));
+  try {
+    if (!db.objectStoreNames.contains('settings')) return DEFAULT_SERVER_URL;
+    return (await idbRequest(db.transaction('settings').objectStore('settings').get('alertServerUrl'))) ?? DEFAULT_SERVER_URL;
+  } finally {
+    db.close();
+  }
+}
+
+self.addEventListener('push', (event) => {
+  event.waitUntil((async () => {
+    const subscription = await self.registration.pushManager.getSubscription();
+    if (!subscription) return;
+    let alerts = [];
+    try {
+      const serverUrl = await alertServerUrl();
+      const response = await fetch(`${serverUrl}/alerts?endpoint=${encodeURIComponent(subscription.endpoint)}`);
+      if (response.ok) alerts = (await response.json()).alerts;
+    } catch (error) {
+      // Offline by the time the message arrived; the app checks again when opened
+    }
+    await Promise.all(alerts.map(alert => self.registration.showNotification(alert.title, {
+      body: alert.body,
+      tag: `outbreak-${alert.diseaseId}`,
+      data: { diseaseId: alert.diseaseId }
+    })));
+  })());
+});
+
+// Treatment reminders (src/services/reminderService.ts). The browser wakes
+// the worker now and then; tasks that fell due meanwhile are announced from
+// the app's IndexedDB, so this works offline.
+const REMINDER_SYNC_TAG = 'treatment-reminders';
+
+async function announceDueTasks() {
+  const db = await idbRequest(indexedDB.open('agrigasha'));
+  try {
+    // The app has not created the store yet
+    if (!db.objectStoreNames.contains('plans')) return;
+    const plans = await idbRequest(db.transaction('plans').objectStore('plans').getAll());
+    const now = new Date().toISOString();
+    const announced = [];
+    for (const plan of plans) {
+      const due = plan.tasks.filter(task => !task.doneAt && !task.notifiedAt && task.dueAt <= now && task.dueAt > plan.createdAt);
+      if (due.length === 0) continue;
+      for (const task of due) {
+        await self.registration.showNotification(task.title, {
+          tag: `task-${task.id}`,
+          data: { url: `/?plan=${encodeURIComponent(plan.id)}` }
+        });
+      }
+      announced.push({ ...plan, tasks: plan.tasks.map(task => (due.includes(task) ? { ...task, notifiedAt: now } : task)) });
+    }
+    if (announced.length === 0) return;
+    const tx = db.transaction('plans', 'readwrite');
+    for (const plan of announced) tx.objectStore('plans').put(plan);
+    await new Promise((resolve, reject) => {
+      tx.oncomplete = resolve;
+      tx.onerror = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === REMINDER_SYNC_TAG) event.waitUntil(announceDueTasks());
+});
+
+// Opens what the notification is about: a treatment plan, or a disease with
+// its prevention advice. Reuses an open window.
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const data = event.notification.data ?? {};
+  const url = data.url ?? (data.diseaseId ? `/?disease=${encodeURIComponent(data.diseaseId)}` : '/');
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const open = windows.find(client => new URL(client.url).origin === self.location.origin);
+    if (open) {
+      await open.focus();
+      return open.navigate(url);
+    }
+    return self.clients.openWindow(url);
+  })());
+});
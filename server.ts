@@ -0,0 +1,100 @@
+import dotenv from 'dotenv';
+import express from 'express';
+import path from 'path';
+import { openDatabase } from './server/db';
+import { AdviceCache } from './server/adviceCache';
+import { RateLimiter, trustProxyFromEnv } from './server/rateLimit';
+import { adviceRouter } from './server/advice';
+import { chatRouter } from './server/chat';
+import { secondOpinionRouter } from './server/secondOpinion';
+import { SyncStore } from './server/syncStore';
+import { syncRouter } from './server/sync';
+import { surveillanceRouter } from './server/surveillance';
+import { AlertDispatcher, AlertStore, alertsRouter } from './server/alerts';
+import { vapidConfigFromEnv } from './server/webPush';
+import { weatherProviderFromEnv, weatherRouter } from './server/weather';
+import { PriceStore, pricesRouter, watchFeeds } from './server/prices';
+import { geminiConfigFromEnv } from './server/gemini';
+
+dotenv.config({ path: ['.env.local', '.env'], quiet: true });
+
+const PORT = Number(process.env.PORT) || 3000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function startServer() {
+  const app = express();
+  app.set('trust proxy', trustProxyFromEnv());
+  // Chat and second-opinion requests carry the diagnosed photo
+  app.use(express.json({ limit: '5mb' }));
+
+  const db = openDatabase();
+  const gemini = geminiConfigFromEnv();
+  if (!gemini) console.warn('GEMINI_API_KEY is not set; /api/advice will only serve cached advice; chat and second opinions are disabled.');
+
+  // One budget per IP address across every endpoint that calls Gemini
+  const ipLimiter = new RateLimiter(Number(process.env.GEMINI_IP_RATE_LIMIT) || 300, DAY_MS);
+  app.use('/api', adviceRouter({
+    cache: new AdviceCache(db, (Number(process.env.ADVICE_CACHE_DAYS) || 30) * DAY_MS),
+    limits: { device: new RateLimiter(Number(process.env.ADVICE_RATE_LIMIT) || 20, DAY_MS), ip: ipLimiter },
+    gemini
+  }));
+  app.use('/api', chatRouter({
+    limits: { device: new RateLimiter(Number(process.env.CHAT_RATE_LIMIT) || 50, DAY_MS), ip: ipLimiter },
+    gemini
+  }));
+  app.use('/api', secondOpinionRouter({
+    limits: { device: new RateLimiter(Number(process.env.SECOND_OPINION_RATE_LIMIT) || 20, DAY_MS), ip: ipLimiter },
+    gemini
+  }));
+  app.use('/api', weatherRouter({
+    provider: weatherProviderFromEnv(),
+    cacheMs: (Number(process.env.WEATHER_CACHE_MINUTES) || 60) * 60 * 1000
+  }));
+  const syncToken = process.env.SYNC_TOKEN || null;
+  if (!syncToken) console.warn('SYNC_TOKEN is not set; /api/sync is disabled.');
+  const syncStore = new SyncStore(db);
+  const alertStore = new AlertStore(db);
+  const alertThresholds = {
+    minCases: Number(process.env.ALERT_MIN_CASES) || 3,
+    windowDays: Number(process.env.ALERT_WINDOW_DAYS) || 14,
+    cooldownDays: Number(process.env.ALERT_COOLDOWN_DAYS) || 7
+  };
+  const vapid = vapidConfigFromEnv();
+  if (!vapid) console.warn('VAPID keys are not set; outbreak alerts are in-app only.');
+  const dispatcher = new AlertDispatcher(alertStore, syncStore, alertThresholds, vapid);
+  app.use('/api', syncRouter({
+    store: syncStore,
+    token: syncToken,
+    enabled: syncToken !== null,
+    onChange: () => dispatcher.schedule()
+  }));
+  app.use('/api', alertsRouter({ alerts: alertStore, sync: syncStore, dispatcher, thresholds: alertThresholds, vapid }));
+  app.use('/api', surveillanceRouter({
+    store: syncStore,
+    thresholds: {
+      minCases: Number(process.env.OUTBREAK_MIN_CASES) || 5,
+      growth: Number(process.env.OUTBREAK_GROWTH) || 2,
+      baselineWeeks: Number(process.env.OUTBREAK_BASELINE_WEEKS) || 4
+    }
+  }));
+  const priceStore = new PriceStore(db);
+  const pricesToken = process.env.PRICES_TOKEN || null;
+  app.use('/api', pricesRouter({ store: priceStore, token: pricesToken, uploads: pricesToken !== null }));
+  const feeds = (process.env.MARKET_FEED_URLS || '').split(',').map(url => url.trim()).filter(Boolean);
+  if (feeds.length > 0) watchFeeds(priceStore, feeds, (Number(process.env.MARKET_FEED_HOURS) || 6) * 60 * 60 * 1000);
+  app.use('/api', (_req, res) => { res.status(404).json({ error: 'not-found' }); });
+
+  if (process.env.NODE_ENV !== 'production') {
+    const { createServer: createViteServer } = await import('vite');
+    const vite = await createViteServer({ server: { middlewareMode: true }, appType: 'spa' });
+    app.use(vite.middlewares);
+  } else {
+    const distPath = path.join(process.cwd(), 'dist');
+    app.use(express.static(distPath));
+    app.get('*', (_req, res) => { res.sendFile(path.join(distPath, 'index.html')); });
+  }
+
+  app.listen(PORT, '0.0.0.0', () => console.log(`Server running on http://localhost:${PORT}`));
+}
+
+startServer();
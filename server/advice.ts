@@ -0,0 +1,94 @@
+import express from 'express';
+import { GoogleGenAI } from '@google/genai';
+import { ExpertAdvice } from '../src/constants';
+import { KnowledgeBase } from '../src/services/knowledgeBase';
+import { isLanguage } from '../src/services/i18n';
+import { AdviceCache } from './adviceCache';
+import { RequestLimits, takeRequest } from './rateLimit';
+import { ADVICE_SCHEMA, GeminiConfig, advicePrompt, createGeminiClient, parseAdvice } from './gemini';
+
+export interface AdviceRouterOptions {
+  cache: AdviceCache;
+  limits: RequestLimits;
+  /** Null when no API key is configured; cached advice is still served. */
+  gemini: GeminiConfig | null;
+}
+
+/** One line of the newline-delimited JSON stream returned by /api/advice. */
+export type AdviceStreamEvent =
+  | { type: 'chunk', text: string }
+  | { type: 'done', advice: ExpertAdvice, cached: boolean }
+  | { type: 'error', error: string };
+
+/**
+ * POST /api/advice { diseaseId, lang } -> stream of `AdviceStreamEvent` lines
+ *
+ * Gemini's JSON is forwarded as `chunk` events while it is generated, then
+ * validated and sent whole in a `done` event. Cached advice is a single
+ * `done` event. Errors found before streaming starts are plain JSON with an
+ * HTTP status.
+ *
+ * Only cache misses call Gemini, so only they count against the device's
+ * rate limit. Requests without a device ID are limited by IP address.
+ */
+export function adviceRouter({ cache, limits, gemini }: AdviceRouterOptions): express.Router {
+  const router = express.Router();
+  const ai: GoogleGenAI | null = gemini ? createGeminiClient(gemini) : null;
+
+  router.post('/advice', async (req, res) => {
+    const { diseaseId, lang } = req.body ?? {};
+    const disease = typeof diseaseId === 'string' ? KnowledgeBase.find(diseaseId) : undefined;
+    if (!disease) return res.status(400).json({ error: 'unknown-disease' });
+    if (!isLanguage(lang)) return res.status(400).json({ error: 'unsupported-language' });
+
+    const send = (event: AdviceStreamEvent) => res.write(JSON.stringify(event) + '\n');
+    const startStream = () => {
+      res.status(200).set({ 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-store' });
+      res.flushHeaders();
+    };
+
+    const hit = cache.get(disease.id, lang);
+    if (hit) {
+      startStream();
+      send({ type: 'done', advice: hit.advice, cached: true });
+      return res.end();
+    }
+
+    if (!ai || !gemini) return res.status(503).json({ error: 'not-configured' });
+
+    const limit = takeRequest(limits, req);
+    if (!limit.allowed) {
+      res.set('Retry-After', String(limit.retryAfter));
+      return res.status(429).json({ error: 'rate-limited', retryAfter: limit.retryAfter });
+    }
+
+    // Stop generating (and paying for) tokens nobody will read
+    const abort = new AbortController();
+    res.on('close', () => abort.abort());
+
+    startStream();
+    try {
+      const stream = await ai.models.generateContentStream({
+        model: gemini.model,
+        contents: advicePrompt(disease, lang),
+        config: { responseMimeType: 'application/json', responseSchema: ADVICE_SCHEMA, abortSignal: abort.signal }
+      });
+      let text = '';
+      for await (const chunk of stream) {
+        if (!chunk.text) continue;
+        text += chunk.text;
+        send({ type: 'chunk', text: chunk.text });
+      }
+      const advice = parseAdvice(text);
+      cache.put(disease.id, lang, gemini.model, advice);
+      send({ type: 'done', advice, cached: false });
+    } catch (error) {
+      if (abort.signal.aborted) return;
+      console.error('Gemini request failed:', error);
+      send({ type: 'error', error: 'upstream' });
+    }
+    res.end();
+  });
+
+  return router;
+}
@@ -0,0 +1,31 @@
+import Database from 'better-sqlite3';
+import { ExpertAdvice, Language } from '../src/constants';
+
+export interface CachedAdvice {
+  advice: ExpertAdvice;
+  model: string;
+  createdAt: number;
+}
+
+/**
+ * Gemini answers stored by disease and language, so repeated requests for
+ * the same disease are served without another API call.
+ */
+export class AdviceCache {
+  constructor(private readonly db: Database.Database, private readonly maxAgeMs: number) {}
+
+  /** The stored advice, or undefined when there is none or it has expired. */
+  get(diseaseId: string, lang: Language): CachedAdvice | undefined {
+    const row = this.db
+      .prepare('SELECT advice, model, created_at AS createdAt FROM advice_cache WHERE disease_id = ? AND lang = ?')
+      .get(diseaseId, lang) as { advice: string, model: string, createdAt: number } | undefined;
+    if (!row || Date.now() - row.createdAt > this.maxAgeMs) return undefined;
+    return { ...row, advice: JSON.parse(row.advice) };
+  }
+
+  put(diseaseId: string, lang: Language, model: string, advice: ExpertAdvice): void {
+    this.db
+      .prepare('INSERT OR REPLACE INTO advice_cache (disease_id, lang, model, advice, created_at) VALUES (?, ?, ?, ?, ?)')
+      .run(diseaseId, lang, model, JSON.stringify(advice), Date.now());
+  }
+}
@@ -0,0 +1,331 @@
+import Database from 'better-sqlite3';
+import express from 'express';
+import { Language } from '../src/constants';
+import { KnowledgeBase } from '../src/services/knowledgeBase';
+import { I18n, format, isLanguage, localize } from '../src/services/i18n';
+import { AlertSubscription, NearbyAlert } from '../src/services/alertService';
+import { LocatedDiagnosis, SyncStore } from './syncStore';
+import { PushError, PushSubscriptionJson, VapidConfig, isPushEndpoint, sendPush } from './webPush';
+
+export interface AlertThresholds {
+  /** Cases of a disease within a subscriber's radius that make an alert. */
+  minCases: number;
+  /** How far back cases count. */
+  windowDays: number;
+  /** Least time between two pushes about the same disease to the same subscriber. */
+  cooldownDays: number;
+}
+
+export interface StoredSubscription extends AlertSubscription {
+  push?: PushSubscriptionJson;
+}
+
+interface SubscriptionRow {
+  id: string;
+  crops: string;
+  latitude: number;
+  longitude: number;
+  radiusKm: number;
+  lang: Language;
+  push: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SUBSCRIPTION_ID = /^[\w-]{8,64}$/;
+const MAX_RADIUS_KM = 100;
+// Stored positions are rounded to about a kilometer; that is all an alert needs
+const POSITION_DECIMALS = 2;
+/**
+ * Anyone can subscribe anywhere, so answers must not locate single scans:
+ * distances are given in steps of this many kilometers, and only to where
+ * at least `MIN_REPORTED_CASES` cases lie, whatever `minCases` is set to.
+ */
+const DISTANCE_STEP_KM = 5;
+const MIN_REPORTED_CASES = 3;
+
+function toSubscription(row: SubscriptionRow): StoredSubscription {
+  return {
+    id: row.id,
+    crops: JSON.parse(row.crops),
+    latitude: row.latitude,
+    longitude: row.longitude,
+    radiusKm: row.radiusKm,
+    lang: row.lang,
+    push: row.push ? JSON.parse(row.push) : undefined
+  };
+}
+
+/** Great-circle distance in kilometers. */
+export function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const rad = Math.PI / 180;
+  const a = Math.sin((lat2 - lat1) * rad / 2) ** 2
+    + Math.cos(lat1 * rad) * Math.cos(lat2 * rad) * Math.sin((lon2 - lon1) * rad / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Alert subscriptions and a record of which alerts were pushed, so each
+ * subscriber hears about a disease once per cooldown.
+ */
+export class AlertStore {
+  constructor(private readonly db: Database.Database) {}
+
+  put(subscription: StoredSubscription): void {
+    const round = (n: number) => Number(n.toFixed(POSITION_DECIMALS));
+    this.db.prepare(`INSERT OR REPLACE INTO alert_subscriptions
+      (id, crops, latitude, longitude, radius_km, lang, push, push_endpoint, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`)
+      .run(subscription.id, JSON.stringify(subscription.crops), round(subscription.latitude), round(subscription.longitude),
+        subscription.radiusKm, subscription.lang, subscription.push ? JSON.stringify(subscription.push) : null,
+        subscription.push?.endpoint ?? null, Date.now());
+  }
+
+  get(id: string): StoredSubscription | undefined {
+    const row = this.select('WHERE id = ?').get(id) as SubscriptionRow | undefined;
+    return row && toSubscription(row);
+  }
+
+  byEndpoint(endpoint: string): StoredSubscription | undefined {
+    const row = this.select('WHERE push_endpoint = ?').get(endpoint) as SubscriptionRow | undefined;
+    return row && toSubscription(row);
+  }
+
+  withPush(): StoredSubscription[] {
+    return (this.select('WHERE push IS NOT NULL').all() as SubscriptionRow[]).map(toSubscription);
+  }
+
+  delete(id: string): boolean {
+    this.db.prepare('DELETE FROM alert_deliveries WHERE subscription_id = ?').run(id);
+    return this.db.prepare('DELETE FROM alert_subscriptions WHERE id = ?').run(id).changes > 0;
+  }
+
+  /** Forgets a push subscription the browser has dropped; in-app alerts keep working. */
+  dropPush(id: string): void {
+    this.db.prepare('UPDATE alert_subscriptions SET push = NULL, push_endpoint = NULL WHERE id = ?').run(id);
+  }
+
+  lastDelivery(subscriptionId: string, diseaseId: string): number | undefined {
+    const row = this.db.prepare('SELECT sent_at AS sentAt FROM alert_deliveries WHERE subscription_id = ? AND disease_id = ?')
+      .get(subscriptionId, diseaseId) as { sentAt: number } | undefined;
+    return row?.sentAt;
+  }
+
+  recordDelivery(subscriptionId: string, diseaseId: string, at: number = Date.now()): void {
+    this.db.prepare('INSERT OR REPLACE INTO alert_deliveries (subscription_id, disease_id, sent_at) VALUES (?, ?, ?)')
+      .run(subscriptionId, diseaseId, at);
+  }
+
+  private select(where: string) {
+    return this.db.prepare(`SELECT id, crops, latitude, longitude, radius_km AS radiusKm, lang, push FROM alert_subscriptions ${where}`);
+  }
+}
+
+/**
+ * Diseases of the subscriber's crops with at least `minCases` diagnoses
+ * within the radius, most cases first. The texts are in the subscription's
+ * language. Distances and dates are coarse, see `DISTANCE_STEP_KM`.
+ */
+export async function nearbyAlerts(
+  subscription: AlertSubscription,
+  diagnoses: LocatedDiagnosis[],
+  thresholds: AlertThresholds
+): Promise<NearbyAlert[]> {
+  const minCases = Math.max(thresholds.minCases, MIN_REPORTED_CASES);
+  const byDisease = new Map<string, { distances: number[], lastSeen: string }>();
+  for (const d of diagnoses) {
+    const disease = KnowledgeBase.find(d.diseaseId);
+    if (!disease || !disease.crops.some(c => subscription.crops.includes(c))) continue;
+    const km = distanceKm(subscription.latitude, subscription.longitude, d.latitude, d.longitude);
+    if (km > subscription.radiusKm) continue;
+    const entry = byDisease.get(d.diseaseId) ?? { distances: [], lastSeen: '' };
+    entry.distances.push(km);
+    if (d.capturedAt > entry.lastSeen) entry.lastSeen = d.capturedAt;
+    byDisease.set(d.diseaseId, entry);
+  }
+
+  const t = await I18n.load(subscription.lang);
+  return [...byDisease.entries()]
+    .filter(([, entry]) => entry.distances.length >= minCases)
+    .sort((a, b) => b[1].distances.length - a[1].distances.length)
+    .map(([diseaseId, entry]) => {
+      const name = localize(KnowledgeBase.find(diseaseId)!.name, subscription.lang);
+      const cases = entry.distances.length;
+      // The closest step that holds `minCases` cases, not the closest case
+      const within = entry.distances.sort((a, b) => a - b)[minCases - 1];
+      const nearestKm = Math.max(1, Math.ceil(within / DISTANCE_STEP_KM)) * DISTANCE_STEP_KM;
+      return {
+        diseaseId,
+        cases,
+        nearestKm,
+        lastSeen: entry.lastSeen.slice(0, 10),
+        title: format(t.alertTitle, { disease: name }),
+        body: format(t.alertBody, { count: cases, distance: nearestKm, days: thresholds.windowDays })
+      };
+    });
+}
+
+/**
+ * Pushes new alerts to subscribers with Web Push. Runs after synced scans
+ * arrive; runs requested while one is in progress are merged into one more.
+ */
+export class AlertDispatcher {
+  private running: Promise<void> | null = null;
+  private again = false;
+
+  constructor(
+    private readonly alerts: AlertStore,
+    private readonly sync: SyncStore,
+    private readonly thresholds: AlertThresholds,
+    private readonly vapid: VapidConfig | null,
+    private readonly testPushOrigins: string[] = []
+  ) {}
+
+  /** Resolves the number of subscribers pushed to. */
+  async dispatch(now: number = Date.now()): Promise<number> {
+    if (!this.vapid) return 0;
+    const since = new Date(now - this.thresholds.windowDays * DAY_MS).toISOString();
+    const diagnoses = this.sync.locatedDiagnoses(since);
+    let pushed = 0;
+
+    for (const subscription of this.alerts.withPush()) {
+      // Subscriptions stored before endpoints were checked are never pushed to
+      if (!isPushEndpoint(subscription.push!.endpoint, this.testPushOrigins)) continue;
+      const fresh = (await nearbyAlerts(subscription, diagnoses, this.thresholds)).filter(alert => {
+        const last = this.alerts.lastDelivery(subscription.id, alert.diseaseId);
+        return last === undefined || now - last >= this.thresholds.cooldownDays * DAY_MS;
+      });
+      if (fresh.length === 0) continue;
+      try {
+        // One message wakes the service worker, which fetches every current alert
+        await sendPush(this.vapid, subscription.push!);
+        fresh.forEach(alert => this.alerts.recordDelivery(subscription.id, alert.diseaseId, now));
+        pushed++;
+      } catch (error) {
+        if (error instanceof PushError && error.gone) this.alerts.dropPush(subscription.id);
+        else console.error('Alert push failed:', error);
+      }
+    }
+    return pushed;
+  }
+
+  /** Starts a dispatch in the background. */
+  schedule(): void {
+    if (this.running) {
+      this.again = true;
+      return;
+    }
+    this.running = this.dispatch()
+      .then(() => {})
+      .catch(error => console.error('Alert dispatch failed:', error))
+      .finally(() => {
+        this.running = null;
+        if (this.again) {
+          this.again = false;
+          this.schedule();
+        }
+      });
+  }
+}
+
+export interface AlertsRouterOptions {
+  alerts: AlertStore;
+  sync: SyncStore;
+  dispatcher: AlertDispatcher;
+  thresholds: AlertThresholds;
+  vapid: VapidConfig | null;
+  /** Push endpoint origins accepted besides the browsers' push services, e.g. the mock push service. */
+  testPushOrigins?: string[];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/** A browser's `PushSubscription.toJSON()`, keeping only what sending needs. */
+function parsePush(value: unknown, testPushOrigins: string[]): PushSubscriptionJson | null {
+  if (!isObject(value) || typeof value.endpoint !== 'string' || !isPushEndpoint(value.endpoint, testPushOrigins)) return null;
+  const { keys } = value;
+  if (keys === undefined) return { endpoint: value.endpoint };
+  if (!isObject(keys) || typeof keys.p256dh !== 'string' || typeof keys.auth !== 'string') return null;
+  return { endpoint: value.endpoint, keys: { p256dh: keys.p256dh, auth: keys.auth } };
+}
+
+function parseSubscription(id: string, body: unknown, testPushOrigins: string[]): StoredSubscription | null {
+  if (!isObject(body)) return null;
+  const cropIds = KnowledgeBase.crops().map(c => c.id);
+  const { crops, latitude, longitude, radiusKm, lang } = body;
+  if (!Array.isArray(crops) || crops.length === 0 || !crops.every((c): c is string => typeof c === 'string' && cropIds.includes(c))) return null;
+  if (typeof latitude !== 'number' || Math.abs(latitude) > 90 || typeof longitude !== 'number' || Math.abs(longitude) > 180) return null;
+  if (typeof radiusKm !== 'number' || radiusKm <= 0 || radiusKm > MAX_RADIUS_KM || !isLanguage(lang)) return null;
+  const push = body.push === undefined ? undefined : parsePush(body.push, testPushOrigins);
+  if (push === null) return null;
+  return { id, crops, latitude, longitude, radiusKm, lang, push };
+}
+
+/**
+ * GET    /api/alerts/vapid-key -> { publicKey }
+ * PUT    /api/alerts/subscriptions/:id { crops, latitude, longitude, radiusKm, lang, push? } -> 204
+ * DELETE /api/alerts/subscriptions/:id -> 204
+ * GET    /api/alerts/subscriptions/:id/alerts -> { alerts }
+ * GET    /api/alerts?endpoint=<push endpoint> -> { alerts }
+ *
+ * The last form is for the service worker, which knows its push endpoint but
+ * not the app's subscription id. Both ids are random and act as the key, so
+ * as with sync the endpoints allow cross-origin calls from devices installed
+ * from another origin than the server.
+ */
+export function alertsRouter({ alerts, sync, dispatcher, thresholds, vapid, testPushOrigins = [] }: AlertsRouterOptions): express.Router {
+  const router = express.Router();
+
+  router.use('/alerts', (req, res, next) => {
+    res.set({
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, PUT, DELETE',
+      'Access-Control-Allow-Headers': 'Content-Type'
+    });
+    if (req.method === 'OPTIONS') return res.sendStatus(204);
+    next();
+  });
+
+  const current = async (subscription: StoredSubscription) => {
+    const since = new Date(Date.now() - thresholds.windowDays * DAY_MS).toISOString();
+    return nearbyAlerts(subscription, sync.locatedDiagnoses(since), thresholds);
+  };
+
+  router.get('/alerts/vapid-key', (_req, res) => {
+    if (!vapid) return res.status(503).json({ error: 'not-configured' });
+    res.json({ publicKey: vapid.publicKey });
+  });
+
+  router.put('/alerts/subscriptions/:id', (req, res) => {
+    if (!SUBSCRIPTION_ID.test(req.params.id)) return res.status(400).json({ error: 'invalid-id' });
+    const subscription = parseSubscription(req.params.id, req.body, testPushOrigins);
+    if (!subscription) return res.status(400).json({ error: 'invalid-subscription' });
+    alerts.put(subscription);
+    dispatcher.schedule();
+    res.sendStatus(204);
+  });
+
+  router.delete('/alerts/subscriptions/:id', (req, res) => {
+    if (!alerts.delete(req.params.id)) return res.status(404).json({ error: 'not-found' });
+    res.sendStatus(204);
+  });
+
+  const respond = async (subscription: StoredSubscription | undefined, res: express.Response) => {
+    if (!subscription) return res.status(404).json({ error: 'not-found' });
+    try {
+      const list = await current(subscription);
+      res.set('Cache-Control', 'no-store');
+      res.json({ alerts: list });
+    } catch (error) {
+      console.error('Alert lookup failed:', error);
+      res.status(500).json({ error: 'internal' });
+    }
+  };
+
+  router.get('/alerts/subscriptions/:id/alerts', (req, res) => respond(alerts.get(req.params.id), res));
+
+  router.get('/alerts', (req, res) =>
+    respond(typeof req.query.endpoint === 'string' ? alerts.byEndpoint(req.query.endpoint) : undefined, res));
+
+  return router;
+}
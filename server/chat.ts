@@ -0,0 +1,73 @@
+import express from 'express';
+import { Content, GoogleGenAI } from '@google/genai';
+import { KnowledgeBase } from '../src/services/knowledgeBase';
+import { isLanguage } from '../src/services/i18n';
+import { RequestLimits, takeRequest } from './rateLimit';
+import { GeminiConfig, chatSystemInstruction, createGeminiClient } from './gemini';
+
+export interface ChatRouterOptions {
+  limits: RequestLimits;
+  gemini: GeminiConfig | null;
+}
+
+interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+const MAX_TURNS = 40;
+const MAX_TEXT = 2000;
+
+function isTurns(value: unknown): value is ChatTurn[] {
+  return Array.isArray(value) && value.length > 0 && value.length <= MAX_TURNS && value.every(turn =>
+    (turn?.role === 'user' || turn?.role === 'model') && typeof turn.text === 'string' && turn.text.length <= MAX_TEXT);
+}
+
+/**
+ * POST /api/chat { diseaseId, lang, image?, messages } -> { reply }
+ *
+ * `messages` is the conversation so far, ending with the farmer's question.
+ * `image` is the base64 JPEG of the diagnosed photo; it is attached to the
+ * first question so Gemini can look at the leaf. Every call counts against
+ * the device's rate limit.
+ */
+export function chatRouter({ limits, gemini }: ChatRouterOptions): express.Router {
+  const router = express.Router();
+  const ai: GoogleGenAI | null = gemini ? createGeminiClient(gemini) : null;
+
+  router.post('/chat', async (req, res) => {
+    const { diseaseId, lang, image, messages } = req.body ?? {};
+    const disease = typeof diseaseId === 'string' ? KnowledgeBase.find(diseaseId) : undefined;
+    if (!disease) return res.status(400).json({ error: 'unknown-disease' });
+    if (!isLanguage(lang)) return res.status(400).json({ error: 'unsupported-language' });
+    if (!isTurns(messages) || messages[messages.length - 1].role !== 'user') return res.status(400).json({ error: 'invalid-messages' });
+    if (image !== undefined && typeof image !== 'string') return res.status(400).json({ error: 'invalid-image' });
+
+    if (!ai || !gemini) return res.status(503).json({ error: 'not-configured' });
+
+    const limit = takeRequest(limits, req);
+    if (!limit.allowed) {
+      res.set('Retry-After', String(limit.retryAfter));
+      return res.status(429).json({ error: 'rate-limited', retryAfter: limit.retryAfter });
+    }
+
+    const contents: Content[] = messages.map((turn, i) => ({
+      role: turn.role,
+      parts: i === 0 && image ? [{ inlineData: { mimeType: 'image/jpeg', data: image } }, { text: turn.text }] : [{ text: turn.text }]
+    }));
+
+    try {
+      const response = await ai.models.generateContent({
+        model: gemini.model,
+        contents,
+        config: { systemInstruction: chatSystemInstruction(disease, lang) }
+      });
+      res.json({ reply: response.text || '' });
+    } catch (error) {
+      console.error('Gemini request failed:', error);
+      res.status(502).json({ error: 'upstream' });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,78 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Schema changes in order. A database records how many it has applied in
+ * `PRAGMA user_version`, so only new entries run on start.
+ */
+const MIGRATIONS: string[] = [
+  `CREATE TABLE advice_cache (
+    disease_id TEXT NOT NULL,
+    lang TEXT NOT NULL,
+    model TEXT NOT NULL,
+    advice TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    PRIMARY KEY (disease_id, lang)
+  )`,
+  // Advice became structured JSON; free-text answers can no longer be served
+  `DELETE FROM advice_cache`,
+  `CREATE TABLE sync_records (
+    kind TEXT NOT NULL,
+    id TEXT NOT NULL,
+    seq INTEGER NOT NULL,
+    updated_at TEXT NOT NULL,
+    device_id TEXT NOT NULL,
+    deleted INTEGER NOT NULL DEFAULT 0,
+    data TEXT,
+    PRIMARY KEY (kind, id)
+  );
+  CREATE INDEX sync_records_seq ON sync_records (seq);
+  CREATE TABLE sync_images (
+    id TEXT PRIMARY KEY,
+    mime_type TEXT NOT NULL,
+    data BLOB NOT NULL
+  )`,
+  `CREATE TABLE alert_subscriptions (
+    id TEXT PRIMARY KEY,
+    crops TEXT NOT NULL,
+    latitude REAL NOT NULL,
+    longitude REAL NOT NULL,
+    radius_km REAL NOT NULL,
+    lang TEXT NOT NULL,
+    push TEXT,
+    push_endpoint TEXT UNIQUE,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE TABLE alert_deliveries (
+    subscription_id TEXT NOT NULL,
+    disease_id TEXT NOT NULL,
+    sent_at INTEGER NOT NULL,
+    PRIMARY KEY (subscription_id, disease_id)
+  )`,
+  `CREATE TABLE market_prices (
+    crop TEXT NOT NULL,
+    market TEXT NOT NULL,
+    date TEXT NOT NULL,
+    unit TEXT NOT NULL,
+    price REAL NOT NULL,
+    imported_at INTEGER NOT NULL,
+    PRIMARY KEY (crop, market, date, unit)
+  )`
+];
+
+export const DEFAULT_DATABASE_PATH = 'data/agrigasha.db';
+
+/** Opens (creating if needed) the server database and brings its schema up to date. */
+export function openDatabase(file: string = process.env.DATABASE_PATH || DEFAULT_DATABASE_PATH): Database.Database {
+  if (file !== ':memory:') fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+
+  const applied = db.pragma('user_version', { simple: true }) as number;
+  db.transaction(() => {
+    for (let i = applied; i < MIGRATIONS.length; i++) db.exec(MIGRATIONS[i]);
+    db.pragma(`user_version = ${MIGRATIONS.length}`);
+  })();
+  return db;
+}
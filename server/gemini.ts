@@ -0,0 +1,126 @@
+import { GoogleGenAI, Schema, Type } from '@google/genai';
+import { Disease, ExpertAdvice, Language } from '../src/constants';
+import { KnowledgeBase } from '../src/services/knowledgeBase';
+import { localeInfo } from '../src/services/i18n';
+import { HEALTHY_LABEL } from '../src/services/modelManifest';
+import { SecondOpinion, UNKNOWN_LABEL } from '../src/services/secondOpinionService';
+
+export const DEFAULT_MODEL = 'gemini-1.5-flash-latest';
+
+export interface GeminiConfig {
+  apiKey: string;
+  model: string;
+  /** Overrides the Gemini API host, e.g. to point at server/mockGemini.ts. */
+  baseUrl?: string;
+}
+
+export function geminiConfigFromEnv(): GeminiConfig | null {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) return null;
+  return {
+    apiKey,
+    model: process.env.GEMINI_MODEL || DEFAULT_MODEL,
+    baseUrl: process.env.GEMINI_BASE_URL || undefined
+  };
+}
+
+export function createGeminiClient(config: GeminiConfig): GoogleGenAI {
+  return new GoogleGenAI({
+    apiKey: config.apiKey,
+    httpOptions: config.baseUrl ? { baseUrl: config.baseUrl } : undefined
+  });
+}
+
+/** Gemini response schema for `ExpertAdvice`; the ordering keeps streamed JSON in reading order. */
+export const ADVICE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    treatmentSteps: { type: Type.ARRAY, items: { type: Type.STRING } },
+    organicOptions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { name: { type: Type.STRING }, instructions: { type: Type.STRING } },
+        required: ['name', 'instructions']
+      }
+    },
+    chemicalOptions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { name: { type: Type.STRING }, dosage: { type: Type.STRING }, safetyWarning: { type: Type.STRING } },
+        required: ['name', 'dosage', 'safetyWarning'],
+        propertyOrdering: ['name', 'dosage', 'safetyWarning']
+      }
+    },
+    whenToCallAgent: { type: Type.STRING }
+  },
+  required: ['summary', 'treatmentSteps', 'organicOptions', 'chemicalOptions', 'whenToCallAgent'],
+  propertyOrdering: ['summary', 'treatmentSteps', 'organicOptions', 'chemicalOptions', 'whenToCallAgent']
+};
+
+export function advicePrompt(disease: Disease, lang: Language): string {
+  const language = localeInfo(lang).englishName;
+  return `As an agricultural expert for Ethiopian farmers, give treatment and prevention advice for ${disease.name.en}${disease.pathogen ? ` (${disease.pathogen})` : ''} in ${KnowledgeBase.cropName(disease.crops[0], 'en')}. Write every field in ${language} only, in simple language a smallholder farmer understands. Focus on low-cost and organic solutions. Only list chemicals approved for use in Ethiopia, each with its dosage and a safety warning. Say when the farmer should call an agricultural extension agent.`;
+}
+
+/** Parses Gemini's JSON answer, rejecting anything that does not match `ExpertAdvice`. */
+export function parseAdvice(text: string): ExpertAdvice {
+  const value = JSON.parse(text);
+  const strings = (list: unknown) => Array.isArray(list) && list.every(item => typeof item === 'string');
+  const objects = (list: unknown, keys: string[]) => Array.isArray(list)
+    && list.every(item => typeof item === 'object' && item !== null && keys.every(k => typeof item[k] === 'string'));
+  if (typeof value?.summary !== 'string' || typeof value.whenToCallAgent !== 'string'
+    || !strings(value.treatmentSteps)
+    || !objects(value.organicOptions, ['name', 'instructions'])
+    || !objects(value.chemicalOptions, ['name', 'dosage', 'safetyWarning'])) {
+    throw new Error('Gemini advice does not match the expected schema');
+  }
+  return value;
+}
+
+/** Frames a follow-up conversation about one diagnosis; the photo is sent with the first question. */
+export function chatSystemInstruction(disease: Disease, lang: Language): string {
+  const language = localeInfo(lang).englishName;
+  return `You are an agronomy assistant helping an Ethiopian smallholder farmer. The farmer's photo of their ${KnowledgeBase.cropName(disease.crops[0], 'en')} was diagnosed on the phone as ${disease.name.en}${disease.pathogen ? ` (${disease.pathogen})` : ''}. Answer the farmer's follow-up questions about this diagnosis briefly and practically, in ${language} only, using simple words. Prefer low-cost solutions with materials a farmer has at hand. If the photo does not match the diagnosis, say so. For anything that risks health or the harvest, advise calling an agricultural extension agent.`;
+}
+
+/** Labels Gemini may answer with: every known disease plus `healthy` and `unknown`. */
+export function secondOpinionLabels(): string[] {
+  return [...KnowledgeBase.all().map(d => d.id), HEALTHY_LABEL, UNKNOWN_LABEL];
+}
+
+export function secondOpinionSchema(): Schema {
+  return {
+    type: Type.OBJECT,
+    properties: {
+      label: { type: Type.STRING, format: 'enum', enum: secondOpinionLabels() },
+      confidence: { type: Type.NUMBER },
+      reasoning: { type: Type.STRING }
+    },
+    required: ['label', 'confidence', 'reasoning'],
+    propertyOrdering: ['label', 'confidence', 'reasoning']
+  };
+}
+
+export function secondOpinionPrompt(lang: Language): string {
+  const catalogue = KnowledgeBase.all()
+    .map(d => `- ${d.id}: ${d.name.en} on ${d.crops.map(c => KnowledgeBase.cropName(c, 'en')).join(', ')}`)
+    .join('\n');
+  return `You are a plant pathologist checking a diagnosis for an Ethiopian smallholder farmer. Look at this leaf photo and choose exactly one label:
+${catalogue}
+- ${HEALTHY_LABEL}: no disease visible
+- ${UNKNOWN_LABEL}: not a leaf of these crops, a disease not listed, or the photo is too unclear
+
+Give your confidence from 0 to 100 and a one or two sentence reason describing what you see on the leaf, written in ${localeInfo(lang).englishName} only.`;
+}
+
+/** Parses Gemini's JSON answer, rejecting labels outside the catalogue. */
+export function parseSecondOpinion(text: string): SecondOpinion {
+  const value = JSON.parse(text);
+  if (!secondOpinionLabels().includes(value?.label) || typeof value.confidence !== 'number' || typeof value.reasoning !== 'string') {
+    throw new Error('Gemini second opinion does not match the expected schema');
+  }
+  return { label: value.label, confidence: Math.round(Math.min(100, Math.max(0, value.confidence))), reasoning: value.reasoning };
+}
@@ -0,0 +1,81 @@
+import express from 'express';
+
+/**
+ * Stand-in for the Gemini REST API for local development and manual testing.
+ * Answers `generateContent` and `streamGenerateContent` with canned output,
+ * so the API server can run without a real key:
+ *
+ *   npm run mock:gemini
+ *   GEMINI_API_KEY=mock GEMINI_BASE_URL=http://localhost:8787 npm run dev
+ *
+ * Requests for JSON get a canned object matching the request's schema;
+ * anything else gets text echoing the prompt.
+ */
+export function createMockGemini(): express.Express {
+  const app = express();
+  app.use(express.json({ limit: '10mb' }));
+
+  let requests = 0;
+  app.get('/requests', (_req, res) => { res.json({ requests }); });
+
+  app.post(/^\/v1beta\/models\/([^/:]+):generateContent$/, (req, res) => {
+    requests++;
+    res.json(candidate(cannedText(req.params[0], req.body)));
+  });
+
+  // Server-sent events, split into small chunks like the real API
+  app.post(/^\/v1beta\/models\/([^/:]+):streamGenerateContent$/, async (req, res) => {
+    requests++;
+    const text = cannedText(req.params[0], req.body);
+    res.set({ 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+    res.flushHeaders();
+    for (let i = 0; i < text.length; i += 40) {
+      res.write(`data: ${JSON.stringify(candidate(text.slice(i, i + 40)))}\r\n\r\n`);
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+    res.end();
+  });
+
+  return app;
+}
+
+function candidate(text: string) {
+  return {
+    candidates: [{ content: { role: 'model', parts: [{ text }] }, finishReason: 'STOP' }]
+  };
+}
+
+function cannedText(model: string, body: any): string {
+  const prompt = (body?.contents ?? [])
+    .flatMap((c: any) => c.parts ?? [])
+    .map((p: any) => p.text ?? '')
+    .join('\n');
+  const config = body?.generationConfig ?? {};
+  if (config.responseMimeType !== 'application/json') {
+    const images = (body?.contents ?? []).flatMap((c: any) => c.parts ?? []).filter((p: any) => p.inlineData).length;
+    const question = body?.contents?.at(-1)?.parts?.map((p: any) => p.text ?? '').join('') ?? '';
+    return `Mock reply from ${model} (${images} image${images === 1 ? '' : 's'}, ${body?.contents?.length ?? 0} turns) to: ${question}`;
+  }
+
+  const language = /in (\w+(?: \w+)?) only/.exec(prompt)?.[1] ?? 'English';
+  const properties = config.responseSchema?.properties ?? {};
+  if ('treatmentSteps' in properties) {
+    return JSON.stringify({
+      summary: `Mock advice from ${model}, requested in ${language}.`,
+      treatmentSteps: ['Remove and burn badly infected leaves.', 'Spray the remaining plants early in the morning.'],
+      organicOptions: [{ name: 'Neem extract', instructions: 'Soak crushed neem leaves overnight and spray weekly.' }],
+      chemicalOptions: [{ name: 'Copper hydroxide', dosage: '2 g per litre of water', safetyWarning: 'Wear gloves and a mask. Keep away from children.' }],
+      whenToCallAgent: 'Call an extension agent if more than half of the plants show symptoms.'
+    });
+  }
+  if ('label' in properties) {
+    const labels: string[] = properties.label.enum ?? ['unknown'];
+    return JSON.stringify({ label: labels[0], confidence: 72, reasoning: `Mock second opinion from ${model}, written in ${language}.` });
+  }
+  return JSON.stringify({});
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const port = Number(process.env.MOCK_GEMINI_PORT) || 8787;
+  createMockGemini().listen(port, () => console.log(`Mock Gemini listening on http://localhost:${port}`));
+}
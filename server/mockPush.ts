@@ -0,0 +1,65 @@
+import crypto from 'crypto';
+import express from 'express';
+
+export interface ReceivedPush {
+  subscription: string;
+  ttl: number;
+  /** True when the VAPID token was signed by the key it names and is for this origin. */
+  verified: boolean;
+  receivedAt: string;
+}
+
+function verifyVapid(header: string | undefined, origin: string): boolean {
+  const match = /^vapid t=([\w-]+\.[\w-]+\.[\w-]+), k=([\w-]+)$/.exec(header ?? '');
+  if (!match) return false;
+  const [header64, claims64, signature] = match[1].split('.');
+  const unsigned = `${header64}.${claims64}`;
+  const raw = Buffer.from(match[2], 'base64url');
+  try {
+    const key = crypto.createPublicKey({
+      format: 'jwk',
+      key: { kty: 'EC', crv: 'P-256', x: raw.subarray(1, 33).toString('base64url'), y: raw.subarray(33, 65).toString('base64url') }
+    });
+    const claims = JSON.parse(Buffer.from(claims64, 'base64url').toString());
+    return claims.aud === origin && claims.exp * 1000 > Date.now()
+      && crypto.verify('sha256', Buffer.from(unsigned), { key, dsaEncoding: 'ieee-p1363' }, Buffer.from(signature, 'base64url'));
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * Stand-in for a browser push service, for testing outbreak alerts without
+ * a browser:
+ *
+ *   npm run mock:push
+ *
+ * Register an alert subscription whose push endpoint is
+ * http://localhost:8789/push/<any-id>. The stand-in checks each message's
+ * VAPID signature and lists what it received at GET /messages. Endpoints
+ * under /push/gone/ answer 410 like an expired subscription.
+ */
+export function createMockPush(): express.Express {
+  const app = express();
+  const received: ReceivedPush[] = [];
+
+  app.post('/push/:id', (req, res) => {
+    const origin = `${req.protocol}://${req.get('host')}`;
+    received.push({
+      subscription: req.params.id,
+      ttl: Number(req.get('TTL')),
+      verified: verifyVapid(req.get('Authorization'), origin),
+      receivedAt: new Date().toISOString()
+    });
+    res.sendStatus(201);
+  });
+  app.post('/push/gone/:id', (_req, res) => { res.sendStatus(410); });
+  app.get('/messages', (_req, res) => { res.json(received); });
+
+  return app;
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const port = Number(process.env.MOCK_PUSH_PORT) || 8789;
+  createMockPush().listen(port, () => console.log(`Mock push service listening on http://localhost:${port}`));
+}
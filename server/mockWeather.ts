@@ -0,0 +1,64 @@
+import express from 'express';
+
+/**
+ * Stand-in for the Open-Meteo forecast API for local development and manual
+ * testing:
+ *
+ *   npm run mock:weather
+ *   WEATHER_BASE_URL=http://localhost:8790 npm run dev
+ *
+ * Every place gets the same made-up highland rainy season: mild days, humid
+ * nights and afternoon showers, which is the weather coffee leaf rust likes.
+ */
+export function createMockWeather(): express.Express {
+  const app = express();
+
+  let requests = 0;
+  app.get('/requests', (_req, res) => { res.json({ requests }); });
+
+  app.get('/v1/forecast', (req, res) => {
+    requests++;
+    const pastDays = Number(req.query.past_days) || 0;
+    const forecastDays = Number(req.query.forecast_days) || 7;
+    const start = new Date();
+    start.setUTCHours(0, 0, 0, 0);
+    start.setUTCDate(start.getUTCDate() - pastDays);
+
+    const time: string[] = [];
+    const temperature: number[] = [];
+    const humidity: number[] = [];
+    const precipitation: number[] = [];
+    for (let h = 0; h < (pastDays + forecastDays) * 24; h++) {
+      const at = new Date(start.getTime() + h * 60 * 60 * 1000);
+      const hour = at.getUTCHours();
+      // Warmest at 14:00, coolest at 02:00
+      const daily = Math.cos(((hour - 14) / 24) * 2 * Math.PI);
+      time.push(at.toISOString().slice(0, 16));
+      temperature.push(Math.round((21 + 5 * daily) * 10) / 10);
+      humidity.push(Math.round(80 - 15 * daily));
+      precipitation.push(hour >= 15 && hour <= 17 ? 1.2 : 0);
+    }
+
+    const now = new Date().toISOString().slice(0, 13) + ':00';
+    const index = Math.max(0, time.indexOf(now));
+    res.json({
+      latitude: Number(req.query.latitude),
+      longitude: Number(req.query.longitude),
+      timezone: 'GMT',
+      current: {
+        time: now,
+        temperature_2m: temperature[index],
+        relative_humidity_2m: humidity[index],
+        weather_code: precipitation[index] > 0 ? 61 : 2
+      },
+      hourly: { time, temperature_2m: temperature, relative_humidity_2m: humidity, precipitation }
+    });
+  });
+
+  return app;
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const port = Number(process.env.MOCK_WEATHER_PORT) || 8790;
+  createMockWeather().listen(port, () => console.log(`Mock weather listening on http://localhost:${port}`));
+}
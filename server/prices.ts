@@ -0,0 +1,120 @@
+import Database from 'better-sqlite3';
+import express from 'express';
+import { PriceFeed, PriceFeedError, PricePoint, parsePriceCsv, parsePriceJson } from '../src/services/marketFeed';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_FEED_BYTES = 5 * 1024 * 1024;
+/** Days of history sent to the app. */
+const MAX_HISTORY_DAYS = 365;
+
+/** Market prices imported from cooperative feeds. A newer import of the same day replaces the older. */
+export class PriceStore {
+  constructor(private readonly db: Database.Database) {}
+
+  put(prices: PricePoint[], at: number = Date.now()): void {
+    const insert = this.db.prepare(`INSERT OR REPLACE INTO market_prices (crop, market, date, unit, price, imported_at)
+      VALUES (?, ?, ?, ?, ?, ?)`);
+    this.db.transaction(() => {
+      for (const p of prices) insert.run(p.crop, p.market, p.date, p.unit, p.price, at);
+    })();
+  }
+
+  /** Prices from `since` (YYYY-MM-DD) on. */
+  since(since: string): PricePoint[] {
+    return this.db.prepare(`SELECT crop, market, date, price, unit FROM market_prices
+      WHERE date >= ? ORDER BY crop, market, date`).all(since) as PricePoint[];
+  }
+
+  updatedAt(): string | null {
+    const row = this.db.prepare('SELECT MAX(imported_at) AS at FROM market_prices').get() as { at: number | null };
+    return row.at === null ? null : new Date(row.at).toISOString();
+  }
+}
+
+/** Parses a feed as CSV or JSON, going by its content type and, failing that, its first character. */
+export function parsePriceFeed(text: string, contentType: string = ''): PricePoint[] {
+  if (contentType.includes('json') || (!contentType.includes('csv') && /^\s*[[{]/.test(text))) {
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch (e) {
+      throw new PriceFeedError(['feed is not valid JSON']);
+    }
+    return parsePriceJson(value);
+  }
+  return parsePriceCsv(text);
+}
+
+/** Downloads a published feed and stores its prices. Resolves how many were imported. */
+export async function importFeed(store: PriceStore, url: string): Promise<number> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(30000) });
+  if (!response.ok) throw new Error(`Price feed ${url} failed: ${response.status}`);
+  const prices = parsePriceFeed(await response.text(), response.headers.get('Content-Type') ?? '');
+  store.put(prices);
+  return prices.length;
+}
+
+/**
+ * Imports every feed now and then every `intervalMs`. Returns a function that
+ * stops the imports. A broken feed is logged and keeps the prices already
+ * stored.
+ */
+export function watchFeeds(store: PriceStore, urls: string[], intervalMs: number): () => void {
+  const run = () => {
+    for (const url of urls) {
+      importFeed(store, url)
+        .then(count => console.log(`Imported ${count} prices from ${url}`))
+        .catch(error => console.error(error instanceof PriceFeedError ? `${url}: ${error.message}` : error));
+    }
+  };
+  run();
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
+
+export interface PricesRouterOptions {
+  store: PriceStore;
+  /**
+   * Secret a cooperative sends as `Authorization: Bearer <token>` to upload
+   * prices. Null leaves uploads open, which only the local stand-in server does.
+   */
+  token: string | null;
+  /** False disables uploads; feeds configured on the server still work. */
+  uploads?: boolean;
+}
+
+/**
+ * GET  /api/prices -> PriceFeed
+ * POST /api/prices (CSV or JSON feed) -> { imported } | 400 { error, problems }
+ *
+ * A rejected upload stores nothing, so a feed with a typo never leaves half
+ * a day's prices behind.
+ */
+export function pricesRouter({ store, token, uploads = true }: PricesRouterOptions): express.Router {
+  const router = express.Router();
+
+  router.get('/prices', (_req, res) => {
+    const since = new Date(Date.now() - MAX_HISTORY_DAYS * DAY_MS).toISOString().slice(0, 10);
+    const feed: PriceFeed = { updatedAt: store.updatedAt(), prices: store.since(since) };
+    // Devices may be installed from another origin, as with sync
+    res.set({ 'Cache-Control': 'no-store', 'Access-Control-Allow-Origin': '*' });
+    res.json(feed);
+  });
+
+  router.post('/prices', express.text({ type: ['text/csv', 'text/plain'], limit: MAX_FEED_BYTES }), (req, res) => {
+    if (!uploads) return res.status(503).json({ error: 'not-configured' });
+    if (token && req.get('Authorization') !== `Bearer ${token}`) return res.status(401).json({ error: 'unauthorized' });
+    try {
+      // express.json has already parsed JSON bodies
+      const prices = typeof req.body === 'string' ? parsePriceCsv(req.body) : parsePriceJson(req.body);
+      store.put(prices);
+      res.json({ imported: prices.length });
+    } catch (error) {
+      if (!(error instanceof PriceFeedError)) throw error;
+      res.status(400).json({ error: 'invalid-feed', problems: error.problems });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,85 @@
+import express from 'express';
+
+/** The header the app sends with its per-install random ID. */
+export const DEVICE_ID_HEADER = 'X-Device-Id';
+const DEVICE_ID = /^[\w-]{8,64}$/;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Seconds until the caller may try again; 0 when allowed. */
+  retryAfter: number;
+}
+
+/**
+ * Sliding-window limiter kept in memory. Each key (a device ID) may make
+ * `max` calls in any `windowMs` period.
+ */
+export class RateLimiter {
+  private readonly calls = new Map<string, number[]>();
+
+  constructor(private readonly max: number, private readonly windowMs: number) {}
+
+  /** Records a call for `key` if it is within the limit. */
+  take(key: string, now: number = Date.now()): RateLimitResult {
+    const result = this.check(key, now);
+    if (result.allowed) {
+      this.calls.get(key)!.push(now);
+      this.prune(now);
+    }
+    return result;
+  }
+
+  /** Whether `key` may make a call now, without recording one. */
+  check(key: string, now: number = Date.now()): RateLimitResult {
+    const recent = (this.calls.get(key) ?? []).filter(t => now - t < this.windowMs);
+    this.calls.set(key, recent);
+    if (recent.length >= this.max) return { allowed: false, retryAfter: Math.ceil((recent[0] + this.windowMs - now) / 1000) };
+    return { allowed: true, retryAfter: 0 };
+  }
+
+  // Drops devices with no calls in the window so the map does not grow forever
+  private prune(now: number) {
+    if (this.calls.size < 1000) return;
+    for (const [key, times] of this.calls) {
+      if (times.every(t => now - t >= this.windowMs)) this.calls.delete(key);
+    }
+  }
+}
+
+/** Rate-limit key for a request: its device ID, or its IP address when it sent none. */
+export function deviceKey(req: express.Request): string {
+  const header = req.get(DEVICE_ID_HEADER);
+  return header && DEVICE_ID.test(header) ? header : `ip:${req.ip}`;
+}
+
+/** Limits for one endpoint that calls a paid API. */
+export interface RequestLimits {
+  /** Per device ID. */
+  device: RateLimiter;
+  /**
+   * Per IP address, looser since a cooperative's phones may share one.
+   * Device IDs are made up by the client, so this is what caps a caller
+   * sending a new one with every request. May be shared by endpoints.
+   */
+  ip: RateLimiter;
+}
+
+/** Records a call when both the device and its IP address are within their limits. */
+export function takeRequest(limits: RequestLimits, req: express.Request, now: number = Date.now()): RateLimitResult {
+  const ipKey = `ip:${req.ip}`;
+  const refused = [limits.ip.check(ipKey, now), limits.device.check(deviceKey(req), now)].filter(r => !r.allowed);
+  if (refused.length > 0) return { allowed: false, retryAfter: Math.max(...refused.map(r => r.retryAfter)) };
+  limits.ip.take(ipKey, now);
+  return limits.device.take(deviceKey(req), now);
+}
+
+/**
+ * Express's `trust proxy` setting from `TRUST_PROXY`: a number of proxy hops
+ * or a comma-separated list of proxy addresses and subnets. Unset, no proxy
+ * is trusted, so clients cannot pick their own IP with X-Forwarded-For.
+ */
+export function trustProxyFromEnv(env: NodeJS.ProcessEnv = process.env): number | string | false {
+  const value = env.TRUST_PROXY?.trim();
+  if (!value) return false;
+  return /^\d+$/.test(value) ? Number(value) : value;
+}
@@ -0,0 +1,49 @@
+import express from 'express';
+import { GoogleGenAI } from '@google/genai';
+import { isLanguage } from '../src/services/i18n';
+import { RequestLimits, takeRequest } from './rateLimit';
+import { GeminiConfig, createGeminiClient, parseSecondOpinion, secondOpinionPrompt, secondOpinionSchema } from './gemini';
+
+export interface SecondOpinionRouterOptions {
+  limits: RequestLimits;
+  gemini: GeminiConfig | null;
+}
+
+/**
+ * POST /api/second-opinion { image, lang } -> { opinion }
+ *
+ * `image` is a base64 JPEG of the leaf. Gemini must answer with a known
+ * `Disease.id`, `healthy` or `unknown`, so both opinions can be compared.
+ */
+export function secondOpinionRouter({ limits, gemini }: SecondOpinionRouterOptions): express.Router {
+  const router = express.Router();
+  const ai: GoogleGenAI | null = gemini ? createGeminiClient(gemini) : null;
+
+  router.post('/second-opinion', async (req, res) => {
+    const { image, lang } = req.body ?? {};
+    if (typeof image !== 'string' || image.length === 0) return res.status(400).json({ error: 'invalid-image' });
+    if (!isLanguage(lang)) return res.status(400).json({ error: 'unsupported-language' });
+
+    if (!ai || !gemini) return res.status(503).json({ error: 'not-configured' });
+
+    const limit = takeRequest(limits, req);
+    if (!limit.allowed) {
+      res.set('Retry-After', String(limit.retryAfter));
+      return res.status(429).json({ error: 'rate-limited', retryAfter: limit.retryAfter });
+    }
+
+    try {
+      const response = await ai.models.generateContent({
+        model: gemini.model,
+        contents: [{ role: 'user', parts: [{ inlineData: { mimeType: 'image/jpeg', data: image } }, { text: secondOpinionPrompt(lang) }] }],
+        config: { responseMimeType: 'application/json', responseSchema: secondOpinionSchema() }
+      });
+      res.json({ opinion: parseSecondOpinion(response.text || '') });
+    } catch (error) {
+      console.error('Gemini request failed:', error);
+      res.status(502).json({ error: 'upstream' });
+    }
+  });
+
+  return router;
+}
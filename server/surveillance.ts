@@ -0,0 +1,114 @@
+import express from 'express';
+import { AreaCollection, BOUNDARIES, areasAt } from '../src/services/geo';
+import { AreaCases, Outbreak, OutbreakThresholds, SurveillanceReport } from '../src/services/surveillanceService';
+import { LocatedDiagnosis, SyncStore } from './syncStore';
+
+export interface SurveillanceRouterOptions {
+  store: SyncStore;
+  thresholds: OutbreakThresholds;
+  boundaries?: AreaCollection;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_WEEKS = 12;
+const MAX_WEEKS = 52;
+
+/** Monday (UTC) of the week containing `date`, as YYYY-MM-DD. */
+export function weekStart(date: Date): string {
+  const day = (date.getUTCDay() + 6) % 7;
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - day)).toISOString().slice(0, 10);
+}
+
+function lastWeeks(count: number, now: Date): string[] {
+  const current = Date.parse(weekStart(now));
+  return Array.from({ length: count }, (_, i) => new Date(current - (count - 1 - i) * 7 * DAY_MS).toISOString().slice(0, 10));
+}
+
+/**
+ * Flags weeks in which an area's cases of a disease reach both
+ * `minCases` and `growth` times the average of the preceding weeks.
+ */
+export function detectOutbreaks(areas: AreaCases[], weeks: string[], thresholds: OutbreakThresholds): Outbreak[] {
+  const outbreaks: Outbreak[] = [];
+  for (const area of areas) {
+    for (const [diseaseId, counts] of Object.entries(area.cases)) {
+      for (let i = thresholds.baselineWeeks; i < counts.length; i++) {
+        const before = counts.slice(i - thresholds.baselineWeeks, i);
+        const baseline = before.reduce((sum, n) => sum + n, 0) / before.length;
+        if (counts[i] >= thresholds.minCases && counts[i] >= thresholds.growth * baseline) {
+          outbreaks.push({ areaId: area.areaId, diseaseId, week: weeks[i], cases: counts[i], baseline: Math.round(baseline * 10) / 10 });
+        }
+      }
+    }
+  }
+  return outbreaks;
+}
+
+/**
+ * Counts diagnoses per area and week. Extra weeks before the reported ones
+ * are counted only to give the first reported weeks an outbreak baseline.
+ */
+export function buildReport(
+  diagnoses: LocatedDiagnosis[],
+  weekCount: number,
+  thresholds: OutbreakThresholds,
+  boundaries: AreaCollection = BOUNDARIES,
+  now: Date = new Date()
+): SurveillanceReport {
+  const weeks = lastWeeks(weekCount + thresholds.baselineWeeks, now);
+  const byArea = new Map<string, AreaCases>();
+  let unmapped = 0;
+
+  for (const diagnosis of diagnoses) {
+    const index = weeks.indexOf(weekStart(new Date(diagnosis.capturedAt)));
+    if (index < 0) continue;
+    const areas = areasAt(diagnosis.latitude, diagnosis.longitude, boundaries);
+    if (areas.length === 0) unmapped++;
+    for (const { properties } of areas) {
+      const area = byArea.get(properties.id) ?? { areaId: properties.id, cases: {} };
+      const counts = area.cases[diagnosis.diseaseId] ??= new Array(weeks.length).fill(0);
+      counts[index]++;
+      byArea.set(properties.id, area);
+    }
+  }
+
+  const all = [...byArea.values()];
+  const reported = weeks.slice(thresholds.baselineWeeks);
+  return {
+    generatedAt: now.toISOString(),
+    weeks: reported,
+    areas: all.map(area => ({
+      areaId: area.areaId,
+      cases: Object.fromEntries(Object.entries(area.cases).map(([id, counts]) => [id, counts.slice(thresholds.baselineWeeks)]))
+    })),
+    outbreaks: detectOutbreaks(all, weeks, thresholds).filter(o => reported.includes(o.week)),
+    thresholds,
+    unmapped
+  };
+}
+
+/**
+ * GET /api/surveillance?weeks=12 -> `SurveillanceReport`
+ *
+ * Aggregates the synced scans that carry a GPS fix. Only counts per area and
+ * week leave the server, so agricultural offices can watch outbreaks
+ * without seeing any farmer's scans. Areas come from the boundaries bundled
+ * with the app. Cross-origin reads are allowed, since the report holds no
+ * farmer's data.
+ */
+export function surveillanceRouter({ store, thresholds, boundaries = BOUNDARIES }: SurveillanceRouterOptions): express.Router {
+  const router = express.Router();
+
+  router.get('/surveillance', (req, res) => {
+    const weeks = req.query.weeks === undefined ? DEFAULT_WEEKS : Number(req.query.weeks);
+    if (!Number.isInteger(weeks) || weeks < 1 || weeks > MAX_WEEKS) return res.status(400).json({ error: 'invalid-weeks' });
+
+    const now = new Date();
+    const since = new Date(Date.parse(weekStart(now)) - (weeks + thresholds.baselineWeeks - 1) * 7 * DAY_MS).toISOString();
+    // The dashboard may be installed from another origin, as with sync
+    res.set({ 'Cache-Control': 'no-store', 'Access-Control-Allow-Origin': '*' });
+    res.json(buildReport(store.locatedDiagnoses(since), weeks, thresholds, boundaries, now));
+  });
+
+  return router;
+}
@@ -0,0 +1,85 @@
+import express from 'express';
+import { SyncRequest, SyncResponse, isSyncRecord } from '../src/services/syncProtocol';
+import { DEVICE_ID_HEADER } from './rateLimit';
+import { SyncStore } from './syncStore';
+
+export interface SyncRouterOptions {
+  store: SyncStore;
+  /**
+   * Shared secret devices send as `Authorization: Bearer <token>`. Null
+   * leaves sync open, which only the local stand-in server does.
+   */
+  token: string | null;
+  /** False disables the endpoints, e.g. when no token is configured. */
+  enabled?: boolean;
+  /** Called after a device uploaded changes. */
+  onChange?: () => void;
+}
+
+const MAX_CHANGES = 500;
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const IMAGE_ID = /^[\w-]{1,100}$/;
+
+/**
+ * POST /api/sync { cursor, changes } -> { cursor, changes, more, missingImages }
+ * PUT  /api/sync/images/:id (raw JPEG) -> 204
+ * GET  /api/sync/images/:id -> JPEG
+ *
+ * Uploaded changes are merged first, so the reply already contains the
+ * merged version of anything that conflicted. Records without the shape of
+ * their kind (see `isSyncRecord`) are skipped. Devices may be installed from
+ * another origin than the server, so the endpoints allow cross-origin calls;
+ * the token, not the origin, is what grants access.
+ */
+export function syncRouter({ store, token, enabled = true, onChange }: SyncRouterOptions): express.Router {
+  const router = express.Router();
+
+  router.use('/sync', (req, res, next) => {
+    res.set({
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, PUT',
+      'Access-Control-Allow-Headers': `Authorization, Content-Type, ${DEVICE_ID_HEADER}`
+    });
+    if (req.method === 'OPTIONS') return res.sendStatus(204);
+    if (!enabled) return res.status(503).json({ error: 'not-configured' });
+    if (token && req.get('Authorization') !== `Bearer ${token}`) return res.status(401).json({ error: 'unauthorized' });
+    next();
+  });
+
+  router.post('/sync', (req, res) => {
+    const { cursor, changes } = (req.body ?? {}) as Partial<SyncRequest>;
+    if (!Number.isInteger(cursor) || cursor! < 0) return res.status(400).json({ error: 'invalid-cursor' });
+    if (!Array.isArray(changes) || changes.length > MAX_CHANGES) return res.status(400).json({ error: 'invalid-changes' });
+
+    // A malformed record is left out rather than failing the batch, which the device would resend forever
+    const valid = changes.filter(isSyncRecord);
+    if (valid.length < changes.length) console.error(`Malformed sync records skipped: ${changes.length - valid.length}`);
+    store.apply(valid);
+    if (valid.length > 0) onChange?.();
+    const uploaded = valid.filter(r => r.kind === 'history' && !r.deleted).map(r => r.id);
+    const page = store.changesSince(cursor!, MAX_CHANGES);
+    const response: SyncResponse = {
+      cursor: page.cursor,
+      changes: page.records,
+      more: page.cursor < store.cursor(),
+      missingImages: store.missingImages(uploaded)
+    };
+    res.json(response);
+  });
+
+  router.put('/sync/images/:id', express.raw({ type: 'image/*', limit: MAX_IMAGE_BYTES }), (req, res) => {
+    if (!IMAGE_ID.test(req.params.id)) return res.status(400).json({ error: 'invalid-id' });
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) return res.status(400).json({ error: 'invalid-image' });
+    store.putImage(req.params.id, { mimeType: req.get('Content-Type') || 'image/jpeg', data: req.body });
+    res.sendStatus(204);
+  });
+
+  router.get('/sync/images/:id', (req, res) => {
+    const image = store.getImage(req.params.id);
+    if (!image) return res.status(404).json({ error: 'not-found' });
+    res.set({ 'Content-Type': image.mimeType, 'Cache-Control': 'private, max-age=31536000, immutable' });
+    res.send(image.data);
+  });
+
+  return router;
+}
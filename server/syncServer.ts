@@ -0,0 +1,43 @@
+import express from 'express';
+import { openDatabase } from './db';
+import { SyncStore } from './syncStore';
+import { syncRouter } from './sync';
+import { surveillanceRouter } from './surveillance';
+import { AlertDispatcher, AlertStore, alertsRouter } from './alerts';
+import { vapidConfigFromEnv } from './webPush';
+import { PriceStore, pricesRouter } from './prices';
+
+/**
+ * Stand-in cooperative sync server for local development and manual
+ * testing. It serves only the sync, surveillance, alert and price endpoints,
+ * keeps its data in memory unless SYNC_DATABASE_PATH is set and accepts any
+ * device unless SYNC_TOKEN is set; price uploads are open unless PRICES_TOKEN is:
+ *
+ *   npm run sync:server
+ *
+ * Then enter http://localhost:8788/api as the sync server in the app's settings.
+ */
+export function createSyncServer(file: string = process.env.SYNC_DATABASE_PATH || ':memory:'): express.Express {
+  const app = express();
+  // A first sync can upload every scan at once
+  app.use(express.json({ limit: '5mb' }));
+  const db = openDatabase(file);
+  const store = new SyncStore(db);
+  const alerts = new AlertStore(db);
+  const thresholds = { minCases: 2, windowDays: 14, cooldownDays: 7 };
+  const vapid = vapidConfigFromEnv();
+  // The stand-in push service of server/mockPush.ts, which real servers never post to
+  const testPushOrigins = [`http://localhost:${Number(process.env.MOCK_PUSH_PORT) || 8789}`];
+  const dispatcher = new AlertDispatcher(alerts, store, thresholds, vapid, testPushOrigins);
+  app.use('/api', syncRouter({ store, token: process.env.SYNC_TOKEN || null, onChange: () => dispatcher.schedule() }));
+  app.use('/api', alertsRouter({ alerts, sync: store, dispatcher, thresholds, vapid, testPushOrigins }));
+  app.use('/api', pricesRouter({ store: new PriceStore(db), token: process.env.PRICES_TOKEN || null }));
+  // Low thresholds so a handful of test scans raise a flag
+  app.use('/api', surveillanceRouter({ store, thresholds: { minCases: 2, growth: 2, baselineWeeks: 4 } }));
+  return app;
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const port = Number(process.env.SYNC_SERVER_PORT) || 8788;
+  createSyncServer().listen(port, () => console.log(`Sync server listening on http://localhost:${port}/api`));
+}
@@ -0,0 +1,103 @@
+import Database from 'better-sqlite3';
+import { SyncKind, SyncRecord, mergeRecords } from '../src/services/syncProtocol';
+import { HEALTHY_LABEL } from '../src/services/modelManifest';
+
+interface RecordRow {
+  kind: SyncKind;
+  id: string;
+  seq: number;
+  updatedAt: string;
+  deviceId: string;
+  deleted: number;
+  data: string | null;
+}
+
+/** The parts of a synced scan the surveillance report uses. */
+export interface LocatedDiagnosis {
+  diseaseId: string;
+  latitude: number;
+  longitude: number;
+  capturedAt: string;
+}
+
+export interface SyncImage {
+  mimeType: string;
+  data: Buffer;
+}
+
+function toRecord(row: RecordRow): SyncRecord {
+  const record: SyncRecord = { kind: row.kind, id: row.id, updatedAt: row.updatedAt, deviceId: row.deviceId };
+  if (row.deleted) record.deleted = true;
+  else if (row.data) record.data = JSON.parse(row.data);
+  return record;
+}
+
+/**
+ * The cooperative's copy of every device's history and fields. Each stored
+ * change gets the next sequence number, so a device asks only for changes
+ * after the last number it saw. Deleted items are kept as tombstones.
+ */
+export class SyncStore {
+  constructor(private readonly db: Database.Database) {}
+
+  /** Last sequence number handed out; 0 for an empty store. */
+  cursor(): number {
+    const row = this.db.prepare('SELECT MAX(seq) AS seq FROM sync_records').get() as { seq: number | null };
+    return row.seq ?? 0;
+  }
+
+  /** Merges uploaded records into the stored ones; unchanged records keep their sequence number. */
+  apply(records: SyncRecord[]): void {
+    const get = this.db.prepare(`SELECT kind, id, seq, updated_at AS updatedAt, device_id AS deviceId, deleted, data
+      FROM sync_records WHERE kind = ? AND id = ?`);
+    const put = this.db.prepare(`INSERT OR REPLACE INTO sync_records (kind, id, seq, updated_at, device_id, deleted, data)
+      VALUES (?, ?, ?, ?, ?, ?, ?)`);
+
+    this.db.transaction(() => {
+      let seq = this.cursor();
+      for (const incoming of records) {
+        const row = get.get(incoming.kind, incoming.id) as RecordRow | undefined;
+        const current = row && toRecord(row);
+        const merged = current ? mergeRecords(current, incoming) : incoming;
+        if (current && JSON.stringify(merged) === JSON.stringify(current)) continue;
+        put.run(merged.kind, merged.id, ++seq, merged.updatedAt, merged.deviceId, merged.deleted ? 1 : 0,
+          merged.deleted ? null : JSON.stringify(merged.data));
+      }
+    })();
+  }
+
+  /** Up to `limit` records changed after `cursor`, oldest change first. */
+  changesSince(cursor: number, limit: number): { records: SyncRecord[], cursor: number } {
+    const rows = this.db.prepare(`SELECT kind, id, seq, updated_at AS updatedAt, device_id AS deviceId, deleted, data
+      FROM sync_records WHERE seq > ? ORDER BY seq LIMIT ?`).all(cursor, limit) as RecordRow[];
+    return { records: rows.map(toRecord), cursor: rows.length > 0 ? rows[rows.length - 1].seq : cursor };
+  }
+
+  /** Confident diagnoses of a disease with a GPS fix taken at or after `since`. */
+  locatedDiagnoses(since: string): LocatedDiagnosis[] {
+    return this.db.prepare(`SELECT diseaseId, latitude, longitude, capturedAt FROM (
+        SELECT json_extract(data, '$.diseaseId') AS diseaseId,
+          json_extract(data, '$.location.latitude') AS latitude,
+          json_extract(data, '$.location.longitude') AS longitude,
+          json_extract(data, '$.location.capturedAt') AS capturedAt
+        FROM sync_records
+        WHERE kind = 'history' AND deleted = 0 AND json_extract(data, '$.status') = 'success'
+      )
+      WHERE diseaseId IS NOT NULL AND diseaseId != ? AND latitude IS NOT NULL AND longitude IS NOT NULL AND capturedAt >= ?`)
+      .all(HEALTHY_LABEL, since) as LocatedDiagnosis[];
+  }
+
+  /** Ids among `ids` that have no stored photo. */
+  missingImages(ids: string[]): string[] {
+    const has = this.db.prepare('SELECT 1 FROM sync_images WHERE id = ?');
+    return ids.filter(id => !has.get(id));
+  }
+
+  getImage(id: string): SyncImage | undefined {
+    return this.db.prepare('SELECT mime_type AS mimeType, data FROM sync_images WHERE id = ?').get(id) as SyncImage | undefined;
+  }
+
+  putImage(id: string, image: SyncImage): void {
+    this.db.prepare('INSERT OR REPLACE INTO sync_images (id, mime_type, data) VALUES (?, ?, ?)').run(id, image.mimeType, image.data);
+  }
+}
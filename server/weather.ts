@@ -0,0 +1,171 @@
+import express from 'express';
+import { DailyWeather, Forecast, WeatherCondition } from '../src/services/weatherService';
+
+/** A weather backend. Each one turns its own API's answer into a `Forecast`. */
+export interface WeatherProvider {
+  readonly name: string;
+  forecast(latitude: number, longitude: number): Promise<Forecast>;
+}
+
+export const OPEN_METEO_URL = 'https://api.open-meteo.com';
+
+const WET_HUMIDITY = 90;
+
+/** An hour of Open-Meteo's hourly series; values are null where it has no data. */
+interface HourlyWeather {
+  time: string;
+  temperature: number | null;
+  humidity: number | null;
+  rainMm: number | null;
+}
+
+/** The parts of an Open-Meteo forecast answer that are read. */
+interface OpenMeteoAnswer {
+  current: { time: string, temperature_2m: number, relative_humidity_2m: number, weather_code: number };
+  hourly: { time: string[], temperature_2m: (number | null)[], relative_humidity_2m: (number | null)[], precipitation: (number | null)[] };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isOpenMeteoAnswer(value: unknown): value is OpenMeteoAnswer {
+  if (!isObject(value) || !isObject(value.current) || !isObject(value.hourly)) return false;
+  const { current, hourly } = value;
+  const times = hourly.time;
+  if (!Array.isArray(times) || !times.every(time => typeof time === 'string')) return false;
+  const series = (list: unknown) => Array.isArray(list) && list.length === times.length && list.every(n => n === null || typeof n === 'number');
+  return typeof current.time === 'string' && typeof current.temperature_2m === 'number'
+    && typeof current.relative_humidity_2m === 'number' && typeof current.weather_code === 'number'
+    && series(hourly.temperature_2m) && series(hourly.relative_humidity_2m) && series(hourly.precipitation);
+}
+
+/** WMO weather interpretation codes, as used by Open-Meteo. */
+function wmoCondition(code: number): WeatherCondition {
+  if (code === 0) return 'clear';
+  if (code <= 2) return 'partly-cloudy';
+  if (code === 3) return 'cloudy';
+  if (code === 45 || code === 48) return 'fog';
+  if (code >= 95) return 'storm';
+  return 'rain';
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/** Groups hourly values by local date into `DailyWeather`. */
+export function dailyWeather(hours: HourlyWeather[]): DailyWeather[] {
+  const byDate = new Map<string, (HourlyWeather & { temperature: number, humidity: number })[]>();
+  for (const hour of hours) {
+    const { temperature, humidity } = hour;
+    if (temperature === null || humidity === null) continue;
+    const date = hour.time.slice(0, 10);
+    byDate.set(date, [...(byDate.get(date) ?? []), { ...hour, temperature, humidity }]);
+  }
+  return [...byDate.entries()].map(([date, day]) => {
+    const temperatures = day.map(h => h.temperature);
+    return {
+      date,
+      tempMin: round1(Math.min(...temperatures)),
+      tempMax: round1(Math.max(...temperatures)),
+      tempMean: round1(temperatures.reduce((sum, t) => sum + t, 0) / day.length),
+      humidityMean: Math.round(day.reduce((sum, h) => sum + h.humidity, 0) / day.length),
+      rainMm: round1(day.reduce((sum, h) => sum + (h.rainMm ?? 0), 0)),
+      wetHours: day.filter(h => h.humidity >= WET_HUMIDITY || (h.rainMm ?? 0) > 0).length
+    };
+  });
+}
+
+/**
+ * Open-Meteo (https://open-meteo.com), which needs no API key. `baseUrl` can
+ * point at server/mockWeather.ts instead.
+ */
+export function openMeteoProvider(baseUrl: string = OPEN_METEO_URL): WeatherProvider {
+  return {
+    name: 'open-meteo',
+    async forecast(latitude, longitude) {
+      const params = new URLSearchParams({
+        latitude: String(latitude),
+        longitude: String(longitude),
+        current: 'temperature_2m,relative_humidity_2m,weather_code',
+        hourly: 'temperature_2m,relative_humidity_2m,precipitation',
+        past_days: '7',
+        forecast_days: '7',
+        timezone: 'auto'
+      });
+      const response = await fetch(`${baseUrl}/v1/forecast?${params}`, { signal: AbortSignal.timeout(15000) });
+      if (!response.ok) throw new Error(`Open-Meteo request failed: ${response.status}`);
+      const body: unknown = await response.json();
+      if (!isOpenMeteoAnswer(body)) throw new Error('Open-Meteo answer has no forecast');
+      const hourly = body.hourly;
+
+      return {
+        latitude,
+        longitude,
+        provider: this.name,
+        fetchedAt: new Date().toISOString(),
+        current: {
+          temperature: Math.round(body.current.temperature_2m),
+          humidity: Math.round(body.current.relative_humidity_2m),
+          condition: wmoCondition(body.current.weather_code)
+        },
+        today: String(body.current.time).slice(0, 10),
+        days: dailyWeather(hourly.time.map((time, i) => ({
+          time,
+          temperature: hourly.temperature_2m[i],
+          humidity: hourly.relative_humidity_2m[i],
+          rainMm: hourly.precipitation[i]
+        })))
+      };
+    }
+  };
+}
+
+export function weatherProviderFromEnv(): WeatherProvider {
+  return openMeteoProvider(process.env.WEATHER_BASE_URL || OPEN_METEO_URL);
+}
+
+export interface WeatherRouterOptions {
+  provider: WeatherProvider;
+  /** How long a forecast is reused for requests from about the same place. */
+  cacheMs: number;
+}
+
+/**
+ * GET /api/weather?lat=<latitude>&lon=<longitude> -> Forecast
+ *
+ * Positions are rounded to a tenth of a degree (about 11 km) before asking
+ * the provider, so farmers in one area share a cached forecast.
+ */
+export function weatherRouter({ provider, cacheMs }: WeatherRouterOptions): express.Router {
+  const router = express.Router();
+  const cache = new Map<string, { forecast: Forecast, expires: number }>();
+
+  router.get('/weather', async (req, res) => {
+    const latitude = Number(req.query.lat);
+    const longitude = Number(req.query.lon);
+    if (!Number.isFinite(latitude) || Math.abs(latitude) > 90 || !Number.isFinite(longitude) || Math.abs(longitude) > 180) {
+      return res.status(400).json({ error: 'invalid-location' });
+    }
+
+    const lat = Math.round(latitude * 10) / 10;
+    const lon = Math.round(longitude * 10) / 10;
+    const key = `${lat},${lon}`;
+    const now = Date.now();
+    for (const [k, entry] of cache) if (entry.expires <= now) cache.delete(k);
+
+    let entry = cache.get(key);
+    if (!entry) {
+      try {
+        entry = { forecast: await provider.forecast(lat, lon), expires: now + cacheMs };
+        cache.set(key, entry);
+      } catch (error) {
+        console.error('Weather provider failed:', error);
+        return res.status(502).json({ error: 'unavailable' });
+      }
+    }
+    res.set('Cache-Control', 'no-store');
+    res.json(entry.forecast);
+  });
+
+  return router;
+}
@@ -0,0 +1,118 @@
+import crypto from 'crypto';
+
+export interface VapidConfig {
+  /** Uncompressed P-256 public key, base64url; also given to browsers when subscribing. */
+  publicKey: string;
+  /** P-256 private key scalar, base64url. */
+  privateKey: string;
+  /** Contact for the push service operator, a mailto: or https: URL. */
+  subject: string;
+}
+
+/** What a browser's `PushSubscription.toJSON()` returns. */
+export interface PushSubscriptionJson {
+  endpoint: string;
+  keys?: { p256dh: string, auth: string };
+}
+
+export class PushError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'PushError';
+  }
+
+  /** The browser unsubscribed; the subscription should be forgotten. */
+  get gone(): boolean {
+    return this.status === 404 || this.status === 410;
+  }
+}
+
+const TOKEN_LIFETIME_S = 12 * 60 * 60;
+
+/**
+ * Push services of the browsers farmers use: Chrome and Android (FCM),
+ * Firefox, Safari and Edge. The server posts to subscription endpoints, so
+ * any other host would let a client make it call addresses of its choosing.
+ */
+const PUSH_SERVICE_HOSTS = ['fcm.googleapis.com', 'updates.push.services.mozilla.com', '.push.apple.com', '.notify.windows.com'];
+const IP_ADDRESS = /^[\d.]+$|^\[.*\]$/;
+
+export function vapidConfigFromEnv(env: NodeJS.ProcessEnv = process.env): VapidConfig | null {
+  const { VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY } = env;
+  if (!VAPID_PUBLIC_KEY || !VAPID_PRIVATE_KEY) return null;
+  return { publicKey: VAPID_PUBLIC_KEY, privateKey: VAPID_PRIVATE_KEY, subject: env.VAPID_SUBJECT || 'mailto:admin@localhost' };
+}
+
+export function generateVapidKeys(): Pick<VapidConfig, 'publicKey' | 'privateKey'> {
+  const { privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const jwk = privateKey.export({ format: 'jwk' });
+  const raw = Buffer.concat([Buffer.from([4]), Buffer.from(jwk.x!, 'base64url'), Buffer.from(jwk.y!, 'base64url')]);
+  return { publicKey: raw.toString('base64url'), privateKey: jwk.d! };
+}
+
+/** Signed VAPID token for a push service origin (RFC 8292). */
+export function vapidToken(config: VapidConfig, audience: string, now: number = Date.now()): string {
+  const raw = Buffer.from(config.publicKey, 'base64url');
+  const key = crypto.createPrivateKey({
+    format: 'jwk',
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: config.privateKey,
+      x: raw.subarray(1, 33).toString('base64url'),
+      y: raw.subarray(33, 65).toString('base64url')
+    }
+  });
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const unsigned = `${encode({ typ: 'JWT', alg: 'ES256' })}.${encode({
+    aud: audience,
+    exp: Math.floor(now / 1000) + TOKEN_LIFETIME_S,
+    sub: config.subject
+  })}`;
+  const signature = crypto.sign('sha256', Buffer.from(unsigned), { key, dsaEncoding: 'ieee-p1363' });
+  return `${unsigned}.${signature.toString('base64url')}`;
+}
+
+/**
+ * Whether the server may post to `endpoint`: https on a known push service,
+ * never an IP address or localhost. `testOrigins` are let through as they
+ * are, for the stand-in push service of server/mockPush.ts.
+ */
+export function isPushEndpoint(endpoint: string, testOrigins: string[] = []): boolean {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch (e) {
+    return false;
+  }
+  if (testOrigins.includes(url.origin)) return true;
+  const host = url.hostname.toLowerCase();
+  if (url.protocol !== 'https:' || url.username || url.password || (url.port && url.port !== '443')) return false;
+  if (IP_ADDRESS.test(host) || host === 'localhost' || host.endsWith('.localhost')) return false;
+  return PUSH_SERVICE_HOSTS.some(allowed => (allowed.startsWith('.') ? host.endsWith(allowed) : host === allowed));
+}
+
+/**
+ * Sends a push message without a payload. Such messages need no payload
+ * encryption; the service worker wakes up and fetches what to show from the
+ * server. Throws `PushError` when the push service refuses the message.
+ */
+export async function sendPush(config: VapidConfig, subscription: PushSubscriptionJson, ttlSeconds = 24 * 60 * 60): Promise<void> {
+  const audience = new URL(subscription.endpoint).origin;
+  const response = await fetch(subscription.endpoint, {
+    method: 'POST',
+    // A push service answers itself; following a redirect would leave the allowed hosts
+    redirect: 'error',
+    headers: {
+      TTL: String(ttlSeconds),
+      Urgency: 'normal',
+      Authorization: `vapid t=${vapidToken(config, audience)}, k=${config.publicKey}`
+    }
+  });
+  if (!response.ok) throw new PushError(`Push service refused the message: ${response.status}`, response.status);
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const keys = generateVapidKeys();
+  console.log(`VAPID_PUBLIC_KEY="${keys.publicKey}"\nVAPID_PRIVATE_KEY="${keys.privateKey}"`);
+}
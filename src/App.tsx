@@ -1,51 +1,156 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Camera, Upload, History, Settings, Info, Languages, ChevronLeft, ShieldCheck, Sprout, AlertTriangle, CheckCircle2, BrainCircuit, Trash2, Calendar, ExternalLink, Volume2, CloudSun, TrendingUp } from 'lucide-react';
-import { translations, Language, mockDiseases, Disease } from './constants';
-import { MLService } from './services/mlService';
-import { GoogleGenAI } from "@google/genai";
+import { Camera, Upload, History, Settings, Info, Languages, ChevronLeft, ShieldCheck, Sprout, AlertTriangle, CheckCircle2, BrainCircuit, Trash2, Calendar, ExternalLink, Volume2, CloudSun, TrendingUp, HardDriveDownload, Layers, Leaf, FlaskConical, BookOpen, Search, MapPin, Phone, MessageCircle, Send, Clock, Tractor, Navigation, Plus, RefreshCw, CloudOff, Activity, Bell, Sun, Cloud, CloudFog, CloudRain, CloudLightning, TrendingDown, Store, Pause, Mic, ListChecks, CameraOff, ClipboardList, Circle, Printer, FileSpreadsheet, FileJson, Archive } from 'lucide-react';
+import { translations, Language, Translation, Disease, ExpertAdvice, SymptomOption, ChemicalOption } from './constants';
 import ReactMarkdown from 'react-markdown';
+import { AdviceService, AdviceError, AdviceErrorReason } from './services/adviceService';
+import { ChatService } from './services/chatService';
+import { SecondOpinionService, SecondOpinion, needsSecondOpinion, opinionsDisagree, UNKNOWN_LABEL, SECOND_OPINION_THRESHOLD } from './services/secondOpinionService';
+import { I18n, LOCALES, DEFAULT_LANGUAGE, isLanguage, localize, localeInfo, fallbackChain, format } from './services/i18n';
+import { MLService, Prediction, DiagnosisStatus, LesionAnalysis, LesionHeatmap } from './services/mlService';
+import { HEALTHY_LABEL } from './services/modelManifest';
+import { OfflineService } from './services/offlineService';
+import { KnowledgeBase } from './services/knowledgeBase';
+import { searchDiseases } from './services/search';
+import { QualityIssue, loadOrientedImage, guideRegion, crop } from './services/imagePreprocessor';
+import { HistoryStore, HistoryItem, HistorySaveError, StorageUsage, ChatMessage, dataUrlToBlob, blobToDataUrl } from './services/historyStore';
+import { FieldStore, Fields, GrowthStage, GROWTH_STAGES, plotPath } from './services/fieldStore';
+import { newId } from './services/database';
+import { SyncService, SyncSettings, SyncStatus } from './services/syncService';
+import { SurveillanceService, CachedReport, SurveillanceReport, AreaCases, activeOutbreaks } from './services/surveillanceService';
+import { BOUNDARIES, AreaLevel, AreaFeature, areaPath, boundingBox, viewHeight } from './services/geo';
+import { LocationService, GeoFix, formatFix } from './services/locationService';
+import { WeatherService, WeatherLocation, WeatherCondition, CachedForecast } from './services/weatherService';
+import { assessRisks, RiskLevel } from './services/diseaseRisk';
+import { MarketService, CachedPrices } from './services/marketService';
+import { AudioService, AudioSegment, PlayerState } from './services/audioService';
+import { MarketPrice, PricePoint, latestPrices, priceHistory } from './services/marketFeed';
+import { AlertService, AlertSubscription, AlertDelivery, NearbyAlert, ALERT_RADII_KM } from './services/alertService';
+import { SymptomAnswers, QUESTIONNAIRE_CONFIDENCE, questionsFor, rankCandidates, nextQuestion, optionsByLikelihood } from './services/questionnaire';
+import { SpeechInput } from './services/speechInput';
+import { TreatmentPlan, TreatmentPlanStore, PlanTask, createPlan, nextTask } from './services/treatmentPlan';
+import { ReminderService } from './services/reminderService';
+import { ScanCase, OutcomeResult, OUTCOME_RESULTS, groupCases, openCaseFor, caseIdOf, scanDate, scanTime, casesToCsv } from './services/cases';
+import { HistoryImportError, historyToCsv, historyToJson, historyToZip, readHistoryFile } from './services/historyExport';
 
 // --- Types ---
-type Screen = 'splash' | 'home' | 'camera' | 'result' | 'history' | 'about' | 'settings';
+type Screen = 'splash' | 'home' | 'camera' | 'result' | 'history' | 'about' | 'settings' | 'library' | 'disease' | 'fields' | 'dashboard' | 'market' | 'questionnaire';
 
-interface HistoryItem {
-  id: string;
-  date: string;
-  diseaseId: string;
-  image: string;
-  crop: string;
-  confidence?: number;
+/** Screens with their own URL, so agricultural offices can bookmark them. */
+const SCREEN_PATHS: Partial<Record<Screen, string>> = { dashboard: '/dashboard' };
+
+/** What read-aloud mode says on each screen; the result and disease screens read the disease instead. */
+const SCREEN_SPEECH: Partial<Record<Screen, (keyof Translation)[]>> = {
+  home: ['tagline', 'takePhoto', 'uploadImage'],
+  library: ['library'],
+  history: ['history'],
+  settings: ['settings'],
+  about: ['about', 'aboutContent'],
+  fields: ['fields'],
+  dashboard: ['dashboard', 'dashboardHint'],
+  market: ['marketPrices', 'marketPricesHint']
+};
+
+/** Where the next scans are taken; kept until the agent moves to another plot. */
+interface ScanContext {
+  plotId?: string;
+  variety?: string;
+  growthStage?: GrowthStage;
+}
+
+/** A questionnaire in progress: refining a saved scan, or a diagnosis without a photo when `itemId` is null. */
+interface QuestionnaireContext {
+  crop?: string;
+  /** The scan's predictions, which the answers re-rank. */
+  prior: Prediction[];
+  itemId: string | null;
+}
+
+interface HistoryFilter {
+  farmerId?: string;
+  farmId?: string;
+  plotId?: string;
+  growthStage?: GrowthStage;
 }
 
 // --- App Component ---
 export default function App() {
-  const [screen, setScreen] = useState<Screen>('splash');
+  const [screen, setScreen] = useState<Screen>(() =>
+    (Object.keys(SCREEN_PATHS) as Screen[]).find(s => SCREEN_PATHS[s] === window.location.pathname) ?? 'splash');
   const [lang, setLang] = useState<Language>(() => {
     try {
       const saved = localStorage.getItem('agrigasha_lang');
-      return (saved as Language) || 'am';
+      return isLanguage(saved) ? saved : DEFAULT_LANGUAGE;
     } catch (e) {
       console.error("Local storage access failed", e);
-      return 'am';
+      return DEFAULT_LANGUAGE;
     }
   });
+  const [t, setT] = useState<Translation>(() => I18n.resolve(lang));
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
   const [diagnosis, setDiagnosis] = useState<Disease | null>(null);
   const [confidence, setConfidence] = useState<number>(0);
+  const [candidates, setCandidates] = useState<Prediction[]>([]);
+  const [diagnosisStatus, setDiagnosisStatus] = useState<DiagnosisStatus | null>(null);
+  const [qualityIssue, setQualityIssue] = useState<QualityIssue | null>(null);
+  const [lesions, setLesions] = useState<LesionAnalysis | null>(null);
+  const [showHeatmap, setShowHeatmap] = useState(false);
   const [isDiagnosing, setIsDiagnosing] = useState(false);
-  const [expertAdvice, setExpertAdvice] = useState<string>('');
+  const [expertAdvice, setExpertAdvice] = useState<Partial<ExpertAdvice> | null>(null);
+  const [adviceLoading, setAdviceLoading] = useState(false);
+  const [adviceError, setAdviceError] = useState<AdviceErrorReason | null>(null);
   const [isOnline, setIsOnline] = useState(navigator.onLine);
-  const [history, setHistory] = useState<HistoryItem[]>(() => {
+  const [offlineReady, setOfflineReady] = useState(false);
+  const [, setKnowledgeBaseVersion] = useState(KnowledgeBase.version);
+  const [libraryQuery, setLibraryQuery] = useState('');
+  const [libraryDisease, setLibraryDisease] = useState<Disease | null>(null);
+  const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [currentItemId, setCurrentItemId] = useState<string | null>(null);
+  const [chatError, setChatError] = useState<AdviceErrorReason | null>(null);
+  const [secondOpinion, setSecondOpinion] = useState<SecondOpinion | null>(null);
+  const [secondOpinionLoading, setSecondOpinionLoading] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  /** Outcome of the last history import, shown under the import button. */
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const [transferBusy, setTransferBusy] = useState(false);
+  const [fields, setFields] = useState<Fields>({ farmers: [], farms: [], plots: [] });
+  const [scanContext, setScanContext] = useState<ScanContext>(() => {
     try {
-      const saved = localStorage.getItem('agrigasha_history');
-      return saved ? JSON.parse(saved) : [];
+      return JSON.parse(localStorage.getItem('agrigasha_scan_context') || '{}');
     } catch (e) {
-      console.error("Local storage access failed", e);
-      return [];
+      return {};
     }
   });
-
-  const t = translations[lang];
+  const [historyFilter, setHistoryFilter] = useState<HistoryFilter>({});
+  const [historyView, setHistoryView] = useState<'scans' | 'cases'>('scans');
+  /** Case the next scan follows up, chosen from a case or a treatment plan; otherwise the plot decides. */
+  const [followUpCaseId, setFollowUpCaseId] = useState<string | null>(null);
+  const [gpsEnabled, setGpsEnabled] = useState(() => LocationService.isEnabled());
+  const [readAloud, setReadAloud] = useState(() => AudioService.readAloud());
+  const [syncSettings, setSyncSettings] = useState<SyncSettings>(() => SyncService.settings());
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+  const [surveillance, setSurveillance] = useState<CachedReport | null>(() => {
+    const cached = SurveillanceService.cached();
+    return cached && { report: cached, stale: true };
+  });
+  const [dashboardWeeks, setDashboardWeeks] = useState(12);
+  const [dashboardLevel, setDashboardLevel] = useState<AreaLevel>('woreda');
+  const [dashboardDisease, setDashboardDisease] = useState('');
+  const [dashboardArea, setDashboardArea] = useState<string | null>(null);
+  const [alertSubscription, setAlertSubscription] = useState<AlertSubscription | null>(() => AlertService.subscription());
+  const [alerts, setAlerts] = useState<NearbyAlert[]>(() => AlertService.cached());
+  const [prices, setPrices] = useState<CachedPrices | null>(() => MarketService.cached());
+  const [marketCrop, setMarketCrop] = useState(() => KnowledgeBase.crops()[0]?.id ?? '');
+  const [marketSelection, setMarketSelection] = useState<MarketPrice | null>(null);
+  const [questionnaire, setQuestionnaire] = useState<QuestionnaireContext | null>(null);
+  const [plans, setPlans] = useState<TreatmentPlan[]>([]);
+  const [remindersOn, setRemindersOn] = useState(() => typeof Notification !== 'undefined' && Notification.permission === 'granted');
+  const [linkedPlanId, setLinkedPlanId] = useState(() => new URLSearchParams(window.location.search).get('plan'));
+  const [weatherLocation, setWeatherLocation] = useState<WeatherLocation | null>(() => WeatherService.location());
+  const [weather, setWeather] = useState<CachedForecast | null>(() => {
+    const cached = WeatherService.cached();
+    return cached && { forecast: cached, stale: true };
+  });
 
   // Handle Online/Offline Status
   useEffect(() => {
@@ -60,7 +165,7 @@ export default function App() {
     window.addEventListener('offline', handleStatus);
     
     // Splash timeout
-    const timer = setTimeout(() => setScreen('home'), 2500);
+    const timer = setTimeout(() => setScreen(current => (current === 'splash' ? 'home' : current)), 2500);
     return () => {
       window.removeEventListener('online', handleStatus);
       window.removeEventListener('offline', handleStatus);
@@ -68,109 +173,548 @@ export default function App() {
     };
   }, []);
 
-  // Persist History & Language with error handling
+  // Keep the address bar in step with screens that have their own URL
+  useEffect(() => {
+    const path = SCREEN_PATHS[screen] ?? '/';
+    if (screen !== 'splash' && window.location.pathname !== path) window.history.replaceState(null, '', path);
+  }, [screen]);
+
+  // Opened from an outbreak notification: /?disease=<id>
+  useEffect(() => {
+    const disease = KnowledgeBase.find(new URLSearchParams(window.location.search).get('disease') ?? undefined);
+    if (!disease) return;
+    window.history.replaceState(null, '', '/');
+    setLibraryDisease(disease);
+    setScreen('disease');
+  }, []);
+
+  // Opened from a treatment reminder: /?plan=<id>, shown once the plan's scan has loaded
+  useEffect(() => {
+    const plan = plans.find(p => p.id === linkedPlanId);
+    const item = plan && history.find(i => i.id === plan.historyId);
+    if (!item) return;
+    window.history.replaceState(null, '', '/');
+    setLinkedPlanId(null);
+    viewHistoryItem(item);
+  }, [linkedPlanId, plans, history]);
+
+  useEffect(() => {
+    if (screen !== 'dashboard') return;
+    let cancelled = false;
+    SurveillanceService.fetch(dashboardWeeks)
+      .then(result => { if (!cancelled) setSurveillance(result); })
+      .catch(e => console.error("Surveillance load failed", e));
+    return () => { cancelled = true; };
+  }, [screen, dashboardWeeks, isOnline]);
+
+  // Stop reading when the screen changes; in read-aloud mode, read the new one
+  useEffect(() => {
+    // The questionnaire speaks its own questions
+    if (screen === 'questionnaire') return;
+    AudioService.stop();
+    if (!readAloud) return;
+    const disease = screen === 'result' ? diagnosis : screen === 'disease' ? libraryDisease : null;
+    const keys = SCREEN_SPEECH[screen];
+    const track = disease
+      ? AudioService.diseaseTrack(disease, lang, t, screen === 'result' ? ['name', 'treatment'] : undefined)
+      : keys ? AudioService.textTrack(keys, lang, t) : null;
+    let cancelled = false;
+    track?.then(segments => { if (!cancelled) AudioService.play(`screen-${screen}`, segments); });
+    return () => { cancelled = true; };
+  }, [screen, readAloud, diagnosis, libraryDisease, t, lang]);
+
+  // Track whether the app shell and model are cached for offline use
+  useEffect(() => OfflineService.watch(status => setOfflineReady(status.ready)), []);
+
+  // Pick up a newer published knowledge base, if any
+  useEffect(() => {
+    KnowledgeBase.refresh()
+      .then(changed => { if (changed) setKnowledgeBaseVersion(KnowledgeBase.version); })
+      .catch(e => console.error("Knowledge base update failed", e));
+  }, []);
+
+  // Load History from IndexedDB, moving any old localStorage entries over first
+  useEffect(() => {
+    HistoryStore.migrateFromLocalStorage()
+      .catch(e => console.error("History migration failed", e))
+      .then(() => HistoryStore.getAll())
+      .then(setHistory)
+      .catch(e => console.error("History load failed", e));
+  }, []);
+
+  useEffect(() => {
+    FieldStore.getAll().then(setFields).catch(e => console.error("Fields load failed", e));
+  }, []);
+
+  // Announce treatment tasks that fall due while the app is open; the service worker covers the rest
+  useEffect(() => {
+    const check = () => ReminderService.check()
+      .then(shown => shown ? TreatmentPlanStore.getAll() : null)
+      .then(updated => { if (updated) setPlans(updated); })
+      .catch(e => console.error("Reminder check failed", e));
+    TreatmentPlanStore.getAll()
+      .then(setPlans)
+      .then(check)
+      .catch(e => console.error("Treatment plans load failed", e));
+    const timer = setInterval(check, 60 * 1000);
+    document.addEventListener('visibilitychange', check);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', check);
+    };
+  }, []);
+
+  // Sync with the cooperative server in the background, if turned on
+  useEffect(() => SyncService.start(() => {
+    HistoryStore.getAll().then(setHistory).catch(e => console.error("History load failed", e));
+    FieldStore.getAll().then(setFields).catch(e => console.error("Fields load failed", e));
+    TreatmentPlanStore.getAll().then(setPlans).catch(e => console.error("Treatment plans load failed", e));
+  }), []);
+
+  useEffect(() => SyncService.watch(setSyncStatus), []);
+
+  // Upload local changes shortly after they are made
+  useEffect(() => SyncService.schedule(), [history, fields, plans]);
+
   useEffect(() => {
     try {
-      localStorage.setItem('agrigasha_history', JSON.stringify(history));
+      localStorage.setItem('agrigasha_scan_context', JSON.stringify(scanContext));
     } catch (e) {
-      console.error("History save failed", e);
+      console.error("Scan context save failed", e);
     }
-  }, [history]);
+  }, [scanContext]);
+
+  useEffect(() => {
+    if (screen !== 'settings') return;
+    HistoryStore.estimateUsage().then(setStorageUsage).catch(e => console.error("Storage estimate failed", e));
+  }, [screen, history]);
 
+  // Persist Language with error handling
   useEffect(() => {
     try {
       localStorage.setItem('agrigasha_lang', lang);
     } catch (e) {
       console.error("Lang save failed", e);
     }
+    document.documentElement.lang = lang;
+  }, [lang]);
+
+  // Load the locale bundle; until it arrives the fallback languages are shown
+  useEffect(() => {
+    let cancelled = false;
+    setT(I18n.resolve(lang));
+    I18n.load(lang)
+      .then(translation => { if (!cancelled) setT(translation); })
+      .catch(e => console.error("Locale load failed", e));
+    return () => { cancelled = true; };
   }, [lang]);
 
+  // Missing-key report for translators
+  useEffect(() => {
+    if (!import.meta.env.DEV) return;
+    I18n.report()
+      .then(reports => reports
+        .filter(r => r.missing.length > 0)
+        .forEach(r => console.warn(`[i18n] ${r.lang}: ${r.missing.length} missing keys`, r.missing)))
+      .catch(e => console.error("Locale report failed", e));
+  }, []);
+
+  // Stream Gemini advice for the diagnosis in the current language; changing
+  // language or coming back online fetches it again
+  useEffect(() => {
+    setExpertAdvice(null);
+    setAdviceError(null);
+    if (!diagnosis || !isOnline) return;
+    const controller = new AbortController();
+    setAdviceLoading(true);
+    AdviceService.stream(diagnosis.id, lang, setExpertAdvice, controller.signal)
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        console.error("Advice Error:", error);
+        setAdviceError(error instanceof AdviceError ? error.reason : 'unavailable');
+      })
+      .finally(() => { if (!controller.signal.aborted) setAdviceLoading(false); });
+    return () => controller.abort();
+  }, [diagnosis, lang, isOnline]);
+
+  // Answer follow-up questions asked while offline
+  useEffect(() => {
+    if (!isOnline) return;
+    HistoryStore.getAll()
+      .then(items => items.filter(item => ChatService.hasQueued(item)).forEach(sendQueuedChat))
+      .catch(e => console.error("Chat queue load failed", e));
+  }, [isOnline]);
+
+  useEffect(() => {
+    if (!weatherLocation || !isOnline) return;
+    let cancelled = false;
+    WeatherService.fetch(weatherLocation)
+      .then(result => { if (!cancelled) setWeather(result); })
+      .catch(e => console.error("Weather load failed", e));
+    return () => { cancelled = true; };
+  }, [weatherLocation, isOnline]);
+
+  // Prices show on the home tile and the market screen
+  useEffect(() => {
+    if (!isOnline || (screen !== 'home' && screen !== 'market')) return;
+    let cancelled = false;
+    MarketService.fetch()
+      .then(result => { if (!cancelled) setPrices(result); })
+      .catch(e => console.error("Price load failed", e));
+    return () => { cancelled = true; };
+  }, [screen, isOnline]);
+
+  // Check for outbreaks nearby whenever the app is online
+  useEffect(() => {
+    if (!alertSubscription || !isOnline) return;
+    AlertService.refresh().then(setAlerts).catch(e => console.error("Alert check failed", e));
+  }, [alertSubscription, isOnline]);
+
+  // Alert texts are written on the server, so it needs the current language
+  useEffect(() => {
+    if (!alertSubscription || alertSubscription.lang === lang || !isOnline) return;
+    const next = { ...alertSubscription, lang };
+    AlertService.subscribe(next)
+      .then(() => setAlertSubscription(next))
+      .catch(e => console.error("Alert language update failed", e));
+  }, [lang, isOnline, alertSubscription]);
+
   // --- Actions ---
-  const handleCapture = async (image: string) => {
+  const locateWeather = () => {
+    LocationService.current()
+      .then(fix => {
+        WeatherService.setLocation(fix);
+        setWeatherLocation(WeatherService.location());
+      })
+      .catch(e => console.error("Weather location failed", e));
+  };
+
+  const replaceHistoryItem = (item: HistoryItem) => {
+    setHistory(prev => prev.map(i => (i.id === item.id ? item : i)));
+  };
+
+  const sendQueuedChat = (item: HistoryItem) => {
+    setChatError(null);
+    ChatService.sendQueued(item, replaceHistoryItem).catch(error => {
+      console.error("Chat Error:", error);
+      setChatError(error instanceof AdviceError ? error.reason : 'unavailable');
+    });
+  };
+
+  const askQuestion = async (text: string) => {
+    const item = history.find(i => i.id === currentItemId);
+    if (!item) return;
+    try {
+      const queued = await ChatService.enqueue(item, text, lang);
+      replaceHistoryItem(queued);
+      if (navigator.onLine) sendQueuedChat(queued);
+    } catch (error) {
+      console.error("Chat save failed", error);
+      setChatError('unavailable');
+    }
+  };
+
+  const saveField = async (save: () => Promise<void>) => {
+    try {
+      await save();
+      setFields(await FieldStore.getAll());
+    } catch (error) {
+      console.error("Field save failed", error);
+    }
+  };
+
+  const handleCapture = async (image: string, location?: GeoFix) => {
     setCapturedImage(image);
     setIsDiagnosing(true);
     setScreen('result');
-    setExpertAdvice('');
+    setCurrentItemId(null);
+    setChatError(null);
+    setDiagnosis(null);
+    setCandidates([]);
+    setDiagnosisStatus(null);
+    setSaveError(null);
+    setLesions(null);
+    setShowHeatmap(false);
+    setSecondOpinion(null);
+    
+    // Run Real TFLite Inference
+    const result = await MLService.classifyImage(image);
+    if (result.status === 'model-unavailable' || result.status === 'image-invalid') {
+      console.error("Diagnosis Error:", result.error);
+    }
+    const predictions = 'predictions' in result ? result.predictions : [];
+    // Only a confident result names a disease; labels are Disease.id values (see modelManifest.ts)
+    const top = result.status === 'success' ? predictions[0] : undefined;
+    const disease = top && KnowledgeBase.find(top.label);
+
+    setDiagnosisStatus(result.status);
+    setQualityIssue(result.status === 'image-invalid' ? result.issue ?? null : null);
+    setCandidates(predictions);
+    setDiagnosis(disease ?? null);
+    setConfidence(top?.confidence ?? 0);
+    setIsDiagnosing(false);
     
+    // A photo rejected by the quality check is a retake prompt, not a diagnosis
+    if (result.status === 'image-invalid' && result.issue) return;
+
+    // Ask Gemini to look at the photo too when the phone is unsure
+    let secondOpinionRequest: Promise<SecondOpinion | null> = Promise.resolve(null);
+    if (needsSecondOpinion(result) && navigator.onLine) {
+      setSecondOpinionLoading(true);
+      secondOpinionRequest = dataUrlToBlob(image)
+        .then(blob => SecondOpinionService.request(blob, lang))
+        .then(opinion => {
+          setSecondOpinion(opinion);
+          return opinion;
+        })
+        .catch(error => {
+          console.error("Second opinion failed:", error);
+          return null;
+        })
+        .finally(() => setSecondOpinionLoading(false));
+    }
+
+    // Map where on the leaf the disease shows, for the overlay and severity
+    let analysis: LesionAnalysis | null = null;
+    if (disease && top) {
+      try {
+        analysis = await MLService.mapLesions(image, top.label);
+        setLesions(analysis);
+      } catch (error) {
+        console.error("Lesion mapping failed:", error);
+      }
+    }
+
+    // Save to History, failures included
+    const plot = fields.plots.find(p => p.id === scanContext.plotId);
+    const caseId = followUpCaseId ?? openCaseFor(history, plot?.id);
+    setFollowUpCaseId(null);
+    let savedId: string | null = null;
     try {
-      // Run Real TFLite Inference
-      const result = await MLService.classifyImage(image);
-      
-      // Map result to our mock disease database for UI display
-      // In a real app, the model output would directly correspond to IDs.
-      let disease = mockDiseases.find(d => d.name.en.toLowerCase().includes(result.label.toLowerCase()));
-      
-      // Fallback if model output doesn't match mock data exactly
-      if (!disease) {
-        disease = mockDiseases[Math.floor(Math.random() * mockDiseases.length)];
+      const saved = await HistoryStore.add({
+        id: newId(),
+        date: new Date().toISOString(),
+        caseId,
+        status: result.status,
+        diseaseId: top?.label,
+        crop: plot?.crop ?? disease?.crops[0],
+        plotId: plot?.id,
+        variety: scanContext.variety || undefined,
+        growthStage: scanContext.growthStage,
+        location,
+        confidence: top?.confidence,
+        severity: analysis?.severity,
+        heatmap: analysis?.heatmap,
+        predictions
+      }, await dataUrlToBlob(image));
+      setHistory(prev => [saved, ...prev]);
+      setCurrentItemId(saved.id);
+      savedId = saved.id;
+    } catch (error) {
+      console.error("History save failed", error);
+      setSaveError(error instanceof HistorySaveError && error.quotaExceeded ? t.storageFull : t.saveFailed);
+    }
+
+    // Record the second opinion next to the on-device one once it arrives
+    const opinion = await secondOpinionRequest;
+    if (savedId && opinion) {
+      try {
+        const updated = await HistoryStore.patch(savedId, { secondOpinion: opinion });
+        if (updated) replaceHistoryItem(updated);
+      } catch (error) {
+        console.error("Second opinion save failed", error);
       }
+    }
+  };
 
-      setDiagnosis(disease);
-      setConfidence(result.confidence || 98);
-      setIsDiagnosing(false);
-      
-      // Save to History
-      const newItem: HistoryItem = {
-        id: Date.now().toString(),
-        date: new Date().toLocaleDateString(),
-        diseaseId: disease.id,
-        image: image,
-        crop: disease.crop,
-        confidence: result.confidence
-      };
-      setHistory(prev => [newItem, ...prev]);
-      
-      // If online, trigger Gemini for expert advice
-      if (navigator.onLine) {
-        fetchExpertAdvice(disease);
+  /** Starts the questionnaire for the scan on screen, or for a new diagnosis without a photo. */
+  const openQuestionnaire = (itemId: string | null, prior: Prediction[]) => {
+    // Only a crop the agent recorded is trusted; an uncertain photo's crop may be wrong
+    const item = history.find(i => i.id === itemId);
+    const plotId = item ? item.plotId : scanContext.plotId;
+    setQuestionnaire({ crop: fields.plots.find(p => p.id === plotId)?.crop, prior, itemId });
+    setScreen('questionnaire');
+  };
+
+  const finishQuestionnaire = async (crop: string | undefined, answers: SymptomAnswers, ranking: Prediction[]) => {
+    const itemId = questionnaire?.itemId ?? null;
+    const top = ranking[0];
+    const status: DiagnosisStatus = top && top.confidence >= QUESTIONNAIRE_CONFIDENCE ? 'success' : 'unknown';
+    const disease = status === 'success' ? KnowledgeBase.find(top.label) : undefined;
+
+    if (!itemId) {
+      setCapturedImage(null);
+      setCurrentItemId(null);
+      setSecondOpinion(null);
+      setSecondOpinionLoading(false);
+    }
+    // The lesion map was made for the photo's top label
+    if (!itemId || disease?.id !== diagnosis?.id) {
+      setLesions(null);
+      setShowHeatmap(false);
+    }
+    setQuestionnaire(null);
+    setDiagnosis(disease ?? null);
+    setDiagnosisStatus(status);
+    setQualityIssue(null);
+    setConfidence(top?.confidence ?? 0);
+    setCandidates(ranking);
+    setSaveError(null);
+    setChatError(null);
+    setIsDiagnosing(false);
+    setScreen('result');
+
+    const changes = { status, diseaseId: top?.label, confidence: top?.confidence, symptoms: answers, crop: crop ?? disease?.crops[0] };
+    try {
+      if (itemId) {
+        const updated = await HistoryStore.patch(itemId, current => ({ ...changes, crop: crop ?? current.crop }));
+        if (updated) replaceHistoryItem(updated);
+      } else {
+        const plot = fields.plots.find(p => p.id === scanContext.plotId);
+        const caseId = followUpCaseId ?? openCaseFor(history, plot?.id);
+        setFollowUpCaseId(null);
+        const saved = await HistoryStore.add({
+          id: newId(),
+          date: new Date().toISOString(),
+          caseId,
+          plotId: plot?.id,
+          variety: scanContext.variety || undefined,
+          growthStage: scanContext.growthStage,
+          ...changes
+        });
+        setHistory(prev => [saved, ...prev]);
+        setCurrentItemId(saved.id);
       }
     } catch (error) {
-      console.error("Diagnosis Error:", error);
-      setIsDiagnosing(false);
-      // Fallback to mock for demo purposes if ML fails
-      const randomDisease = mockDiseases[0];
-      setDiagnosis(randomDisease);
+      console.error("History save failed", error);
+      setSaveError(error instanceof HistorySaveError && error.quotaExceeded ? t.storageFull : t.saveFailed);
     }
   };
 
-  const fetchExpertAdvice = async (disease: Disease) => {
+  const startPlan = async (disease: Disease, item: HistoryItem, chemical?: ChemicalOption) => {
+    // Ask for notifications while the tap still counts as the farmer's gesture
+    const reminders = ReminderService.enable().catch(error => {
+      console.error("Reminder setup failed", error);
+      return false;
+    });
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || '' });
-      const response = await ai.models.generateContent({
-        model: "gemini-1.5-flash-latest",
-        contents: `As an agricultural expert for Ethiopian farmers, provide detailed treatment and prevention advice for ${disease.name.en} in ${disease.crop}. Use simple language. Provide the response in both English and Amharic. Focus on low-cost and organic solutions suitable for smallholder farmers.`,
-      });
-      setExpertAdvice(response.text || '');
+      const saved = await TreatmentPlanStore.save(createPlan(disease, item, chemical, lang, t));
+      setPlans(prev => [saved, ...prev]);
     } catch (error) {
-      console.error("Gemini Error:", error);
-      setExpertAdvice("Could not fetch expert advice at this time.");
+      console.error("Treatment plan save failed", error);
     }
+    setRemindersOn(await reminders);
   };
 
-  const clearHistory = () => {
-    if (window.confirm(t.clearHistory + "?")) {
-      setHistory([]);
+  const toggleTask = async (plan: TreatmentPlan, task: PlanTask) => {
+    try {
+      const updated = await TreatmentPlanStore.setDone(plan.id, task.id, !task.doneAt);
+      if (updated) setPlans(prev => prev.map(p => (p.id === updated.id ? updated : p)));
+    } catch (error) {
+      console.error("Treatment plan save failed", error);
+    }
+  };
+
+  const stopPlan = async (plan: TreatmentPlan) => {
+    if (!window.confirm(t.stopPlan + "?")) return;
+    try {
+      await TreatmentPlanStore.remove(plan.id);
+      setPlans(prev => prev.filter(p => p.id !== plan.id));
+    } catch (error) {
+      console.error("Treatment plan delete failed", error);
+    }
+  };
+
+  /** The follow-up scan of a plan, on the plot the diagnosis was made on. */
+  const scanAgain = (plan: TreatmentPlan) => {
+    const item = history.find(i => i.id === plan.historyId);
+    if (item) followUp(item);
+    else setScreen('camera');
+  };
+
+  /** Opens the camera for a new scan of the same case, on the same plot. */
+  const followUp = (item: HistoryItem) => {
+    if (item.plotId && fields.plots.some(p => p.id === item.plotId)) setScanContext(prev => ({ ...prev, plotId: item.plotId }));
+    setFollowUpCaseId(caseIdOf(item));
+    setScreen('camera');
+  };
+
+  const recordOutcome = async (scanCase: ScanCase, result: OutcomeResult) => {
+    try {
+      const updated = await HistoryStore.patch(scanCase.id, { outcome: { result, recordedAt: new Date().toISOString() } });
+      if (updated) replaceHistoryItem(updated);
+    } catch (error) {
+      console.error("Outcome save failed", error);
+    }
+  };
+
+  const exportCases = (cases: ScanCase[]) => {
+    const csv = casesToCsv(cases, plotId => plotPath(fields, plotId), lang);
+    downloadFile(new Blob([csv], { type: 'text/csv;charset=utf-8' }), 'agrigasha-cases', 'csv');
+  };
+
+  const exportHistory = async (kind: 'csv' | 'json' | 'zip') => {
+    const plotName = (plotId: string | undefined) => plotPath(fields, plotId);
+    setTransferBusy(true);
+    try {
+      if (kind === 'csv') downloadFile(new Blob([historyToCsv(history, plotName, lang)], { type: 'text/csv;charset=utf-8' }), 'agrigasha-history', 'csv');
+      else if (kind === 'json') downloadFile(new Blob([historyToJson(history, lang)], { type: 'application/json' }), 'agrigasha-history', 'json');
+      else downloadFile(await historyToZip(history, plotName, lang), 'agrigasha-backup', 'zip');
+    } catch (error) {
+      console.error("History export failed", error);
+    } finally {
+      setTransferBusy(false);
+    }
+  };
+
+  const importHistory = async (file: File) => {
+    setTransferBusy(true);
+    setImportMessage(null);
+    try {
+      const { items, images, invalid } = await readHistoryFile(file);
+      const added = await HistoryStore.importItems(items, images);
+      setHistory(await HistoryStore.getAll());
+      setImportMessage(format(t.importResult, { added, skipped: items.length - added, invalid }));
+    } catch (error) {
+      if (!(error instanceof HistoryImportError)) console.error("History import failed", error);
+      setImportMessage(error instanceof HistorySaveError && error.quotaExceeded ? t.storageFull : t.importFailed);
+    } finally {
+      setTransferBusy(false);
     }
   };
 
-  const viewHistoryItem = (item: HistoryItem) => {
-    const disease = mockDiseases.find(d => d.id === item.diseaseId);
-    if (disease) {
-      setCapturedImage(item.image);
-      setDiagnosis(disease);
-      setScreen('result');
-      setIsDiagnosing(false);
-      setExpertAdvice('');
-      if (navigator.onLine) fetchExpertAdvice(disease);
+  const clearHistory = async () => {
+    if (window.confirm(t.clearHistory + "?")) {
+      try {
+        await HistoryStore.clear();
+        setHistory([]);
+      } catch (error) {
+        console.error("History clear failed", error);
+      }
     }
   };
 
-  const speakResult = () => {
-    if (!diagnosis) return;
-    const text = `${diagnosis.name[lang]}. ${diagnosis.treatment[lang]}`;
-    const utterance = new SpeechSynthesisUtterance(text);
-    utterance.lang = lang === 'am' ? 'am-ET' : 'en-US';
-    window.speechSynthesis.speak(utterance);
+  const viewHistoryItem = async (item: HistoryItem) => {
+    const disease = KnowledgeBase.find(item.diseaseId);
+    const image = await HistoryStore.getImage(item.id).catch(e => {
+      console.error("History image load failed", e);
+      return undefined;
+    });
+    setCapturedImage(image ? await blobToDataUrl(image) : null);
+    setSaveError(null);
+    setCurrentItemId(item.id);
+    setChatError(null);
+    setDiagnosis(disease ?? null);
+    setDiagnosisStatus(item.status);
+    setQualityIssue(null);
+    setLesions(item.heatmap && item.severity !== undefined ? { heatmap: item.heatmap, severity: item.severity } : null);
+    setShowHeatmap(false);
+    setConfidence(item.confidence ?? 0);
+    setCandidates(item.symptoms ? rankCandidates(item.crop, item.symptoms, item.predictions) : item.predictions ?? []);
+    setSecondOpinion(item.secondOpinion ?? null);
+    setSecondOpinionLoading(false);
+    setScreen('result');
+    setIsDiagnosing(false);
   };
 
   // --- Renderers ---
@@ -193,10 +737,12 @@ export default function App() {
     );
   }
 
+  const reportItem = screen === 'result' && !isDiagnosing ? history.find(i => i.id === currentItemId) : undefined;
+
   return (
-    <div className="min-h-screen bg-stone-100 font-sans text-stone-900 flex flex-col max-w-md mx-auto shadow-2xl relative overflow-hidden">
+    <div className="min-h-screen bg-stone-100 font-sans text-stone-900 flex flex-col max-w-md mx-auto shadow-2xl relative overflow-hidden print:max-w-none print:shadow-none print:bg-white">
       {/* Header */}
-      <header className="bg-white border-b border-stone-200 px-4 py-4 flex items-center justify-between sticky top-0 z-20 shadow-sm">
+      <header className="bg-white border-b border-stone-200 px-4 py-4 flex items-center justify-between sticky top-0 z-20 shadow-sm print:hidden">
         <div className="flex items-center gap-3">
           {screen !== 'home' && (
             <button onClick={() => setScreen('home')} className="p-2 hover:bg-stone-100 rounded-full transition-colors">
@@ -206,22 +752,28 @@ export default function App() {
           <h1 className="font-bold text-xl text-emerald-800 tracking-tight">{t.appName}</h1>
         </div>
         <div className="flex items-center gap-2">
+          {offlineReady && (
+            <div className="flex items-center gap-1 text-emerald-700 text-[10px] font-black" title={t.offlineReady}>
+              <HardDriveDownload size={14} />
+              <span className="sr-only">{t.offlineReady}</span>
+            </div>
+          )}
           {isOnline ? (
             <div className="w-2 h-2 bg-emerald-500 rounded-full animate-pulse" title="Online"></div>
           ) : (
             <div className="w-2 h-2 bg-stone-400 rounded-full" title="Offline"></div>
           )}
           <button 
-            onClick={() => setLang(lang === 'am' ? 'en' : 'am')}
+            onClick={() => setScreen('settings')}
             className="flex items-center gap-1 bg-emerald-50 text-emerald-700 px-3 py-1.5 rounded-full text-xs font-bold border border-emerald-100 active:scale-95 transition-transform"
           >
             <Languages size={14} />
-            {lang === 'am' ? 'EN' : 'አማ'}
+            {localeInfo(lang).shortName}
           </button>
         </div>
       </header>
 
-      <main className="flex-1 overflow-y-auto pb-8">
+      <main className="flex-1 overflow-y-auto pb-8 print:hidden">
           {screen === 'home' && (
             <div className="p-4 space-y-6">
               <div className="bg-emerald-800 rounded-[2rem] p-8 text-white shadow-xl relative overflow-hidden">
@@ -234,26 +786,46 @@ export default function App() {
 
               {/* Market & Weather Quick Info */}
               <div className="grid grid-cols-2 gap-3">
-                <div className="bg-white p-4 rounded-3xl border border-stone-200 shadow-sm flex items-center gap-3">
-                  <div className="p-2 bg-blue-50 text-blue-600 rounded-xl">
-                    <CloudSun size={20} />
-                  </div>
-                  <div>
-                    <p className="text-[10px] font-black text-stone-400 uppercase tracking-widest">Weather</p>
-                    <p className="text-sm font-black text-stone-800">24°C Sunny</p>
-                  </div>
-                </div>
-                <div className="bg-white p-4 rounded-3xl border border-stone-200 shadow-sm flex items-center gap-3">
-                  <div className="p-2 bg-amber-50 text-amber-600 rounded-xl">
-                    <TrendingUp size={20} />
-                  </div>
-                  <div>
-                    <p className="text-[10px] font-black text-stone-400 uppercase tracking-widest">Coffee</p>
-                    <p className="text-sm font-black text-stone-800">↑ 120 ETB</p>
-                  </div>
-                </div>
+                <WeatherTile weather={weather} onLocate={locateWeather} t={t} />
+                <PriceTile prices={prices} crop={marketCrop} lang={lang} onOpen={() => setScreen('market')} t={t} />
               </div>
 
+              {weather && (
+                <DiseaseRiskCard
+                  weather={weather}
+                  crops={fields.plots.some(p => p.crop) ? fields.plots.flatMap(p => (p.crop ? [p.crop] : [])) : undefined}
+                  lang={lang}
+                  onOpen={disease => { setLibraryDisease(disease); setScreen('disease'); }}
+                  t={t}
+                />
+              )}
+
+              <TreatmentTasks
+                plans={plans}
+                lang={lang}
+                onOpen={plan => {
+                  const item = history.find(i => i.id === plan.historyId);
+                  if (item) viewHistoryItem(item);
+                }}
+                onToggle={toggleTask}
+                t={t}
+              />
+
+              <NearbyAlerts
+                alerts={alerts}
+                lang={lang}
+                onOpen={disease => { setLibraryDisease(disease); setScreen('disease'); }}
+                t={t}
+              />
+
+              <ScanContextCard
+                fields={fields}
+                context={scanContext}
+                onChange={setScanContext}
+                onManage={() => setScreen('fields')}
+                t={t}
+              />
+
               <div className="grid grid-cols-1 gap-4">
                 <button 
                   onClick={() => setScreen('camera')}
@@ -275,16 +847,38 @@ export default function App() {
                     onChange={(e) => {
                       const file = e.target.files?.[0];
                       if (file) {
-                        const reader = new FileReader();
-                        reader.onload = (ev) => handleCapture(ev.target?.result as string);
-                        reader.readAsDataURL(file);
+                        // Decode upright using the photo's EXIF orientation
+                        loadOrientedImage(file)
+                          .then(canvas => handleCapture(canvas.toDataURL('image/jpeg', 0.92)))
+                          .catch(error => {
+                            console.error("Image load failed:", error);
+                            setCapturedImage(null);
+                            setDiagnosis(null);
+                            setCandidates([]);
+                            setQualityIssue(null);
+                            setDiagnosisStatus('image-invalid');
+                            setScreen('result');
+                          });
+                        e.target.value = '';
                       }
                     }}
                   />
                 </label>
+
+                <button
+                  onClick={() => openQuestionnaire(null, [])}
+                  className="bg-white border-2 border-stone-200 text-stone-600 rounded-3xl p-5 flex items-center gap-4 hover:border-emerald-300 active:scale-[0.98] transition-all shadow-sm text-left"
+                >
+                  <ListChecks size={28} className="text-stone-400 shrink-0" />
+                  <span>
+                    <span className="block font-bold text-lg">{t.symptomQuestionnaire}</span>
+                    <span className="block text-xs font-medium text-stone-400">{t.symptomQuestionnaireHint}</span>
+                  </span>
+                </button>
               </div>
 
-              <div className="grid grid-cols-3 gap-3">
+              <div className="grid grid-cols-4 gap-3">
+                <QuickAction icon={<BookOpen size={24}/>} label={t.library} onClick={() => setScreen('library')} />
                 <QuickAction icon={<History size={24}/>} label={t.history} onClick={() => setScreen('history')} />
                 <QuickAction icon={<Info size={24}/>} label={t.about} onClick={() => setScreen('about')} />
                 <QuickAction icon={<Settings size={24}/>} label={t.settings} onClick={() => setScreen('settings')} />
@@ -293,7 +887,21 @@ export default function App() {
           )}
 
           {screen === 'camera' && (
-             <CameraInterface onCapture={handleCapture} onBack={() => setScreen('home')} />
+             <CameraInterface onCapture={handleCapture} onBack={() => setScreen('home')} onQuestionnaire={() => openQuestionnaire(null, [])} t={t} />
+          )}
+
+          {screen === 'questionnaire' && questionnaire && (
+            <SymptomQuestionnaire
+              crop={questionnaire.crop}
+              prior={questionnaire.prior}
+              lang={lang}
+              t={t}
+              onDone={finishQuestionnaire}
+              onCancel={() => {
+                setScreen(questionnaire.itemId ? 'result' : 'home');
+                setQuestionnaire(null);
+              }}
+            />
           )}
 
           {screen === 'result' && (
@@ -301,6 +909,16 @@ export default function App() {
               {capturedImage && (
                 <div className="relative rounded-[2rem] overflow-hidden shadow-2xl aspect-square bg-stone-200 border-4 border-white">
                   <img src={capturedImage} alt="Captured crop" className="w-full h-full object-cover" />
+                  {lesions && showHeatmap && <HeatmapOverlay heatmap={lesions.heatmap} />}
+                  {lesions && !isDiagnosing && (
+                    <button
+                      onClick={() => setShowHeatmap(!showHeatmap)}
+                      className={`absolute top-4 right-4 flex items-center gap-1.5 px-3 py-2 rounded-full text-xs font-black shadow-lg transition-colors ${showHeatmap ? 'bg-red-600 text-white' : 'bg-white/90 text-stone-700'}`}
+                    >
+                      <Layers size={14} />
+                      {t.affectedAreas}
+                    </button>
+                  )}
                   {isDiagnosing && (
                     <div className="absolute inset-0 bg-black/60 backdrop-blur-md flex flex-col items-center justify-center text-white p-8 text-center">
                       <div className="w-16 h-16 border-4 border-emerald-400 border-t-transparent rounded-full animate-spin mb-6"></div>
@@ -311,6 +929,54 @@ export default function App() {
                 </div>
               )}
 
+              {(() => {
+                const item = history.find(i => i.id === currentItemId);
+                return item && <ScanTags item={item} fields={fields} t={t} />;
+              })()}
+
+              {!isDiagnosing && diagnosisStatus && !diagnosis && (
+                <DiagnosisStatusCard status={diagnosisStatus} issue={qualityIssue} t={t} onRetake={() => setScreen('camera')}>
+                  <RunnerUps candidates={candidates} lang={lang} title={t.otherPossibilities} />
+                </DiagnosisStatusCard>
+              )}
+
+              {!isDiagnosing && (secondOpinion || secondOpinionLoading) && (
+                <SecondOpinionCard
+                  local={candidates[0]}
+                  opinion={secondOpinion}
+                  lang={lang}
+                  t={t}
+                  onOpen={disease => { setLibraryDisease(disease); setScreen('disease'); }}
+                />
+              )}
+
+              {(() => {
+                const item = history.find(i => i.id === currentItemId);
+                if (item?.symptoms) {
+                  return (
+                    <p className="flex items-center gap-2 px-2 text-xs font-black text-stone-500 uppercase tracking-widest">
+                      <ListChecks size={16} className="text-emerald-600" /> {t.basedOnAnswers}
+                    </p>
+                  );
+                }
+                // Like a second opinion, questions help when the photo left the phone unsure
+                const uncertain = diagnosisStatus === 'unknown' || diagnosisStatus === 'model-unavailable'
+                  || (diagnosisStatus === 'success' && confidence < SECOND_OPINION_THRESHOLD);
+                return item && !isDiagnosing && uncertain && questionsFor().length > 0 && (
+                  <button
+                    onClick={() => openQuestionnaire(item.id, candidates)}
+                    className="w-full flex items-center gap-4 p-5 bg-amber-50 border border-amber-200 rounded-3xl text-left active:scale-[0.98] transition-transform"
+                  >
+                    <ListChecks size={28} className="text-amber-600 shrink-0" />
+                    <span className="flex-1">
+                      <span className="block font-black text-stone-800">{t.answerQuestions}</span>
+                      <span className="block text-sm text-stone-600">{t.refineWithQuestions}</span>
+                    </span>
+                    <ChevronLeft size={18} className="rotate-180 text-stone-400" />
+                  </button>
+                );
+              })()}
+
               {!isDiagnosing && diagnosis && (
                 <div className="space-y-4">
                   <div className="bg-white rounded-3xl p-6 border border-stone-200 shadow-xl">
@@ -318,65 +984,98 @@ export default function App() {
                       <div>
                         <div className="flex items-center gap-2 mb-1">
                           <Sprout size={16} className="text-emerald-600" />
-                          <span className="text-xs font-black text-emerald-600 uppercase tracking-widest">{diagnosis.crop}</span>
+                          <span className="text-xs font-black text-emerald-600 uppercase tracking-widest">{KnowledgeBase.cropName(diagnosis.crops[0], lang)}</span>
                         </div>
-                        <h2 className="text-3xl font-black text-stone-900 leading-tight">{diagnosis.name[lang]}</h2>
+                        <h2 className="text-3xl font-black text-stone-900 leading-tight">{localize(diagnosis.name, lang)}</h2>
                       </div>
                       <div className="bg-emerald-100 text-emerald-800 px-4 py-2 rounded-2xl text-xs font-black flex items-center gap-1.5 shadow-sm border border-emerald-200">
                         <CheckCircle2 size={16} />
                         {confidence}% {t.confidence}
                       </div>
-                      <button 
-                        onClick={speakResult}
-                        className="p-3 bg-stone-100 text-stone-600 rounded-2xl hover:bg-emerald-50 hover:text-emerald-700 transition-colors shadow-sm"
-                        title="Listen"
-                      >
-                        <Volume2 size={20} />
-                      </button>
                     </div>
 
-                    <div className="space-y-6">
-                      <Section title={t.result} icon={<AlertTriangle className="text-amber-500" size={20}/>}>
-                        <p className="text-stone-600 leading-relaxed font-medium">{diagnosis.symptoms[lang]}</p>
-                      </Section>
-
-                      <Section title={t.recommendation} icon={<CheckCircle2 className="text-emerald-500" size={20}/>}>
-                        <p className="text-stone-600 leading-relaxed font-medium">{diagnosis.treatment[lang]}</p>
-                      </Section>
-
-                      <Section title={t.prevention} icon={<ShieldCheck className="text-blue-500" size={20}/>}>
-                        <p className="text-stone-600 leading-relaxed font-medium">{diagnosis.prevention[lang]}</p>
-                      </Section>
+                    <div className="mb-6">
+                      <AudioControls trackId={`result-${diagnosis.id}`} load={() => AudioService.diseaseTrack(diagnosis, lang, t)} t={t} />
                     </div>
-                  </div>
 
-                  {isOnline && (
-                    <div className="bg-emerald-900 text-emerald-50 rounded-3xl p-6 shadow-2xl relative overflow-hidden">
-                      <div className="relative z-10">
-                        <div className="flex items-center gap-3 mb-4">
-                          <div className="p-2 bg-emerald-700 rounded-xl">
-                            <BrainCircuit size={24} className="text-emerald-300" />
-                          </div>
-                          <h3 className="font-black text-lg">{t.expertAdvice}</h3>
+                    {lesions && (
+                      <div className="mb-6 space-y-2">
+                        <div className="flex items-center justify-between text-xs font-black text-stone-500 uppercase tracking-widest">
+                          <span>{t.severity}</span>
+                          <span className="text-red-600">{lesions.severity}%</span>
                         </div>
-                        <div className="prose prose-invert prose-sm max-w-none text-emerald-100/90 leading-relaxed">
-                          {expertAdvice ? (
-                            <ReactMarkdown>{expertAdvice}</ReactMarkdown>
-                          ) : (
-                            <div className="flex flex-col gap-3 py-4">
-                              <div className="h-4 bg-emerald-800 rounded-full w-full animate-pulse"></div>
-                              <div className="h-4 bg-emerald-800 rounded-full w-5/6 animate-pulse"></div>
-                              <div className="h-4 bg-emerald-800 rounded-full w-4/6 animate-pulse"></div>
-                            </div>
-                          )}
+                        <div className="h-2 bg-stone-100 rounded-full overflow-hidden">
+                          <div className="h-full bg-red-500 rounded-full" style={{ width: `${lesions.severity}%` }}></div>
                         </div>
                       </div>
-                      <BrainCircuit className="absolute -right-8 -bottom-8 text-emerald-800 opacity-20" size={160} />
-                    </div>
+                    )}
+
+                    <DiseaseSections disease={diagnosis} lang={lang} t={t} symptomsTitle={t.result} />
+                  </div>
+
+                  <RunnerUps candidates={candidates.slice(1)} lang={lang} title={t.otherPossibilities} />
+
+                  {(() => {
+                    const item = history.find(i => i.id === currentItemId);
+                    const plan = plans.find(p => p.historyId === currentItemId);
+                    return item && (
+                      <TreatmentPlanCard
+                        key={`${item.id}-${diagnosis.id}`}
+                        disease={diagnosis}
+                        plan={plan}
+                        remindersOn={remindersOn}
+                        onStart={chemical => startPlan(diagnosis, item, chemical)}
+                        onToggle={task => plan && toggleTask(plan, task)}
+                        onScan={() => plan && scanAgain(plan)}
+                        onStop={() => plan && stopPlan(plan)}
+                        t={t}
+                      />
+                    );
+                  })()}
+
+                  {isOnline && (
+                    <ExpertAdviceCard advice={expertAdvice} loading={adviceLoading} error={adviceError} t={t} />
                   )}
+
+                  {(() => {
+                    const item = history.find(i => i.id === currentItemId);
+                    return item && <ChatPanel messages={item.chat ?? []} onSend={askQuestion} isOnline={isOnline} error={chatError} t={t} />;
+                  })()}
+                </div>
+              )}
+
+              {(() => {
+                const item = history.find(i => i.id === currentItemId);
+                const scanCase = item && groupCases(history).find(c => c.id === caseIdOf(item));
+                const planned = plans.some(p => scanCase?.scans.some(s => s.id === p.historyId));
+                return scanCase && (scanCase.scans.length > 1 || planned) && (
+                  <CaseTimeline
+                    scanCase={scanCase}
+                    currentId={currentItemId}
+                    onOpen={viewHistoryItem}
+                    onAddScan={() => followUp(item)}
+                    onOutcome={result => recordOutcome(scanCase, result)}
+                    t={t}
+                  />
+                );
+              })()}
+
+              {saveError && (
+                <div className="flex items-center gap-3 p-4 bg-red-50 text-red-700 rounded-2xl border border-red-100 text-sm font-bold">
+                  <AlertTriangle size={20} className="shrink-0" />
+                  <span>{saveError}</span>
                 </div>
               )}
               
+              {!isDiagnosing && history.some(i => i.id === currentItemId) && (
+                <button
+                  onClick={() => window.print()}
+                  className="w-full flex items-center justify-center gap-2 py-4 bg-white border border-stone-200 text-stone-700 rounded-3xl font-black active:scale-[0.98] transition-transform"
+                >
+                  <Printer size={20} /> {t.printReport}
+                </button>
+              )}
+
               <button 
                 onClick={() => setScreen('home')}
                 className="w-full bg-emerald-700 text-white font-black py-5 rounded-3xl shadow-xl hover:bg-emerald-800 active:scale-[0.98] transition-all text-xl"
@@ -397,32 +1096,79 @@ export default function App() {
                 )}
               </div>
 
+              {history.length > 0 && fields.farmers.length > 0 && (
+                <HistoryFilters fields={fields} filter={historyFilter} onChange={setHistoryFilter} t={t} />
+              )}
+
+              {history.length > 0 && (
+                <div className="flex gap-2 p-1 bg-stone-100 rounded-2xl">
+                  {(['scans', 'cases'] as const).map(view => (
+                    <button
+                      key={view}
+                      onClick={() => setHistoryView(view)}
+                      className={`flex-1 py-2 rounded-xl text-sm font-black transition-colors ${historyView === view ? 'bg-white text-emerald-700 shadow-sm' : 'text-stone-500'}`}
+                    >
+                      {t[view]}
+                    </button>
+                  ))}
+                </div>
+              )}
+
               {history.length === 0 ? (
                 <div className="flex flex-col items-center justify-center py-20 text-stone-400 gap-4">
                   <History size={64} className="opacity-20" />
                   <p className="font-bold">{t.noHistory}</p>
                 </div>
+              ) : historyView === 'cases' ? (
+                (() => {
+                  const cases = groupCases(history).filter(c => matchesFilter(c.scans[c.scans.length - 1], historyFilter, fields));
+                  return (
+                    <div className="space-y-3">
+                      {cases.length === 0 ? (
+                        <p className="py-12 text-center font-bold text-stone-400">{t.noMatchingScans}</p>
+                      ) : (
+                        <button onClick={() => exportCases(cases)} className="w-full flex items-center justify-center gap-2 py-3 bg-white border border-stone-200 text-stone-700 rounded-2xl text-sm font-black active:scale-[0.98] transition-transform">
+                          <HardDriveDownload size={16} /> {t.exportCases}
+                        </button>
+                      )}
+                      {cases.map(scanCase => (
+                        <CaseRow
+                          key={scanCase.id}
+                          scanCase={scanCase}
+                          fields={fields}
+                          lang={lang}
+                          onOpen={() => viewHistoryItem(scanCase.scans[scanCase.scans.length - 1])}
+                          t={t}
+                        />
+                      ))}
+                    </div>
+                  );
+                })()
               ) : (
                 <div className="space-y-3">
-                  {history.map(item => {
-                    const disease = mockDiseases.find(d => d.id === item.diseaseId);
+                  {history.every(item => !matchesFilter(item, historyFilter, fields)) && (
+                    <p className="py-12 text-center font-bold text-stone-400">{t.noMatchingScans}</p>
+                  )}
+                  {history.filter(item => matchesFilter(item, historyFilter, fields)).map(item => {
+                    const disease = KnowledgeBase.find(item.diseaseId);
                     return (
                       <button 
                         key={item.id}
                         onClick={() => viewHistoryItem(item)}
                         className="w-full bg-white p-3 rounded-2xl border border-stone-200 flex items-center gap-4 hover:shadow-md active:scale-[0.99] transition-all text-left group"
                       >
-                        <img src={item.image} className="w-16 h-16 rounded-xl object-cover shadow-sm" alt="History" />
+                        <HistoryThumbnail blob={item.thumbnail} />
                         <div className="flex-1 min-w-0">
                           <div className="flex items-center gap-2 mb-0.5">
-                            <span className="text-[10px] font-black text-emerald-600 uppercase tracking-widest">{item.crop}</span>
+                            {item.crop && <span className="text-[10px] font-black text-emerald-600 uppercase tracking-widest">{KnowledgeBase.cropName(item.crop, lang)}</span>}
                             <span className="text-[10px] text-stone-400 flex items-center gap-1">
-                              <Calendar size={10} /> {item.date}
+                              <Calendar size={10} /> {scanDate(item)}
                             </span>
                           </div>
                           <h4 className="font-black text-stone-800 truncate group-hover:text-emerald-700 transition-colors">
-                            {disease?.name[lang] || 'Unknown'}
+                            {(disease && localize(disease.name, lang)) || statusMessage(item.status, t).title}
                           </h4>
+                          {item.plotId && <p className="text-xs font-medium text-stone-500 truncate">{plotPath(fields, item.plotId)}</p>}
                         </div>
                         <ChevronLeft className="rotate-180 text-stone-300" size={20} />
                       </button>
@@ -433,49 +1179,480 @@ export default function App() {
             </div>
           )}
 
-          {screen === 'about' && (
-            <div className="p-6 space-y-8">
-              <div className="flex flex-col items-center text-center space-y-4">
-                <div className="w-24 h-24 bg-emerald-100 rounded-full flex items-center justify-center shadow-inner">
-                  <ShieldCheck size={56} className="text-emerald-700" />
-                </div>
-                <div>
-                  <h2 className="text-3xl font-black text-emerald-900">{t.appName}</h2>
-                  <p className="text-emerald-600 font-bold tracking-widest uppercase text-xs">v1.0.0 MVP</p>
-                </div>
+          {screen === 'library' && (
+            <div className="p-4 space-y-6">
+              <h2 className="text-2xl font-black text-stone-800">{t.library}</h2>
+
+              <div className="flex items-center gap-3 bg-white px-4 py-3 rounded-2xl border border-stone-200 shadow-sm focus-within:border-emerald-400">
+                <Search size={20} className="text-stone-400" />
+                <input
+                  type="search"
+                  value={libraryQuery}
+                  onChange={(e) => setLibraryQuery(e.target.value)}
+                  placeholder={t.searchDiseases}
+                  className="flex-1 bg-transparent outline-none font-medium text-stone-800 placeholder:text-stone-400"
+                />
               </div>
 
-              <div className="space-y-6">
-                <div className="bg-white p-6 rounded-3xl border border-stone-200 shadow-sm space-y-4">
-                  <p className="text-stone-700 leading-relaxed font-medium">{t.aboutContent}</p>
-                  <div className="p-4 bg-stone-50 rounded-2xl border-l-4 border-emerald-600 italic text-stone-600 text-sm">
-                    {t.gashaMeaning}
+              {(() => {
+                const results = searchDiseases(libraryQuery);
+                if (results.length === 0) {
+                  return (
+                    <div className="flex flex-col items-center justify-center py-20 text-stone-400 gap-4">
+                      <BookOpen size={64} className="opacity-20" />
+                      <p className="font-bold">{t.noResults}</p>
+                    </div>
+                  );
+                }
+                return KnowledgeBase.crops().map(crop => {
+                  const diseases = results.filter(d => d.crops.includes(crop.id));
+                  if (diseases.length === 0) return null;
+                  return (
+                    <div key={crop.id} className="space-y-3">
+                      <div className="flex items-center gap-2">
+                        <Sprout size={16} className="text-emerald-600" />
+                        <h3 className="text-xs font-black text-emerald-600 uppercase tracking-widest">{localize(crop.name, lang)}</h3>
+                      </div>
+                      {diseases.map(disease => (
+                        <button
+                          key={disease.id}
+                          onClick={() => { setLibraryDisease(disease); setScreen('disease'); }}
+                          className="w-full bg-white p-4 rounded-2xl border border-stone-200 flex items-center gap-4 hover:shadow-md active:scale-[0.99] transition-all text-left group"
+                        >
+                          <div className="flex-1 min-w-0">
+                            <h4 className="font-black text-stone-800 group-hover:text-emerald-700 transition-colors">{localize(disease.name, lang)}</h4>
+                            <p className="text-sm text-stone-500 line-clamp-2">{localize(disease.symptoms, lang)}</p>
+                          </div>
+                          <ChevronLeft className="rotate-180 text-stone-300 shrink-0" size={20} />
+                        </button>
+                      ))}
+                    </div>
+                  );
+                });
+              })()}
+            </div>
+          )}
+
+          {screen === 'disease' && libraryDisease && (
+            <div className="p-4 space-y-6">
+              <div className="bg-white rounded-3xl p-6 border border-stone-200 shadow-xl">
+                <div className="mb-6">
+                  <div className="flex items-center gap-2 mb-1">
+                    <Sprout size={16} className="text-emerald-600" />
+                    <span className="text-xs font-black text-emerald-600 uppercase tracking-widest">
+                      {libraryDisease.crops.map(c => KnowledgeBase.cropName(c, lang)).join(', ')}
+                    </span>
                   </div>
+                  <h2 className="text-3xl font-black text-stone-900 leading-tight">{localize(libraryDisease.name, lang)}</h2>
+                  {libraryDisease.pathogen && <p className="text-sm italic text-stone-500 mt-1">{libraryDisease.pathogen}</p>}
+                  {libraryDisease.regions.length > 0 && (
+                    <p className="flex items-center gap-1.5 text-xs font-bold text-stone-500 mt-3">
+                      <MapPin size={14} />
+                      {t.foundIn}: {libraryDisease.regions.map(r => KnowledgeBase.regionName(r, lang)).join(', ')}
+                    </p>
+                  )}
                 </div>
 
-                <div className="grid grid-cols-1 gap-3">
-                  <AboutLink icon={<ExternalLink size={18}/>} label="Visit Website" />
-                  <AboutLink icon={<Info size={18}/>} label="Privacy Policy" />
+                <div className="mb-6">
+                  <AudioControls trackId={`disease-${libraryDisease.id}`} load={() => AudioService.diseaseTrack(libraryDisease, lang, t)} t={t} />
+                </div>
+
+                <div className="space-y-6">
+                  {libraryDisease.severityStages.length > 0 && (
+                    <Section title={t.severityStages} icon={<Layers className="text-red-500" size={20}/>}>
+                      <div className="space-y-3">
+                        {libraryDisease.severityStages.map(stage => (
+                          <div key={stage.level}>
+                            <p className="font-bold text-stone-800">{stage.level}. {localize(stage.name, lang)}</p>
+                            <p className="text-sm text-stone-600 leading-relaxed">{localize(stage.description, lang)}</p>
+                          </div>
+                        ))}
+                      </div>
+                    </Section>
+                  )}
+                  <DiseaseSections disease={libraryDisease} lang={lang} t={t} symptomsTitle={t.symptoms} />
                 </div>
               </div>
+
+              <button 
+                onClick={() => setScreen('library')}
+                className="w-full bg-emerald-700 text-white font-black py-5 rounded-3xl shadow-xl hover:bg-emerald-800 active:scale-[0.98] transition-all text-xl"
+              >
+                {t.back}
+              </button>
             </div>
           )}
 
-          {screen === 'settings' && (
+          {screen === 'dashboard' && (
             <div className="p-4 space-y-6">
-              <h2 className="text-2xl font-black text-stone-800">{t.settings}</h2>
-              
-              <div className="bg-white rounded-3xl border border-stone-200 overflow-hidden shadow-sm">
-                <div className="p-4 border-b border-stone-100">
-                  <h3 className="text-xs font-black text-stone-400 uppercase tracking-widest mb-4">{t.languageSelect}</h3>
-                  <div className="grid grid-cols-2 gap-3">
-                    <LangButton active={lang === 'am'} onClick={() => setLang('am')} label="አማርኛ" sub="Amharic" />
-                    <LangButton active={lang === 'en'} onClick={() => setLang('en')} label="English" sub="English" />
-                  </div>
+              <div>
+                <h2 className="text-2xl font-black text-stone-800">{t.dashboard}</h2>
+                <p className="text-sm font-medium text-stone-500 leading-relaxed">{t.dashboardHint}</p>
+              </div>
+
+              {surveillance?.stale && (
+                <div className="flex items-center gap-3 p-4 bg-amber-50 text-amber-800 rounded-2xl border border-amber-100 text-sm font-bold">
+                  <CloudOff size={20} className="shrink-0" />
+                  <span>{format(t.dashboardStale, { time: new Date(surveillance.report.generatedAt).toLocaleString() })}</span>
+                </div>
+              )}
+
+              <div className="grid grid-cols-3 gap-3">
+                <select value={dashboardLevel} onChange={e => { setDashboardLevel(e.target.value as AreaLevel); setDashboardArea(null); }} className={selectClass}>
+                  <option value="woreda">{t.woreda}</option>
+                  <option value="kebele">{t.kebele}</option>
+                </select>
+                <select value={dashboardDisease} onChange={e => setDashboardDisease(e.target.value)} className={selectClass}>
+                  <option value="">{t.allDiseases}</option>
+                  {KnowledgeBase.all().map(d => <option key={d.id} value={d.id}>{localize(d.name, lang)}</option>)}
+                </select>
+                <select value={dashboardWeeks} onChange={e => setDashboardWeeks(Number(e.target.value))} className={selectClass}>
+                  {[4, 12, 26, 52].map(n => <option key={n} value={n}>{format(t.lastWeeks, { count: n })}</option>)}
+                </select>
+              </div>
+
+              {!surveillance ? (
+                <div className="flex flex-col items-center justify-center py-20 text-stone-400 gap-4">
+                  <Activity size={64} className="opacity-20" />
+                  <p className="font-bold">{t.noSurveillanceData}</p>
+                </div>
+              ) : (
+                <>
+                  <OutbreakMap
+                    report={surveillance.report}
+                    level={dashboardLevel}
+                    diseaseId={dashboardDisease}
+                    selected={dashboardArea}
+                    onSelect={setDashboardArea}
+                    lang={lang}
+                    t={t}
+                  />
+                  {surveillance.report.unmapped > 0 && (
+                    <p className="text-xs font-medium text-stone-500">{format(t.unmappedCases, { count: surveillance.report.unmapped })}</p>
+                  )}
+
+                  <div className="bg-white rounded-3xl border border-stone-200 shadow-sm p-5">
+                    <Section title={t.weeklyTrend} icon={<TrendingUp size={20} />}>
+                      <p className="text-sm font-bold text-stone-700 mb-3">
+                        {(() => {
+                          const area = BOUNDARIES.features.find(f => f.properties.id === dashboardArea);
+                          return area ? localize(area.properties.name, lang) : t.allAreas;
+                        })()}
+                      </p>
+                      <TrendChart report={surveillance.report} areaId={dashboardArea} level={dashboardLevel} diseaseId={dashboardDisease} lang={lang} />
+                    </Section>
+                  </div>
+
+                  <div className="bg-white rounded-3xl border border-stone-200 shadow-sm p-5">
+                    <Section title={t.outbreaks} icon={<AlertTriangle size={20} />}>
+                      <OutbreakList report={surveillance.report} level={dashboardLevel} lang={lang} t={t} />
+                    </Section>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          {screen === 'market' && (
+            <div className="p-4 space-y-6">
+              <div>
+                <h2 className="text-2xl font-black text-stone-800">{t.marketPrices}</h2>
+                <p className="text-sm font-medium text-stone-500 leading-relaxed">{t.marketPricesHint}</p>
+              </div>
+
+              {prices?.stale && (
+                <div className="flex items-center gap-3 p-4 bg-amber-50 text-amber-800 rounded-2xl border border-amber-100 text-sm font-bold">
+                  <CloudOff size={20} className="shrink-0" />
+                  <span>{format(t.pricesStale, { time: new Date(prices.fetchedAt).toLocaleString() })}</span>
+                </div>
+              )}
+
+              <div className="flex flex-wrap gap-2">
+                {KnowledgeBase.crops().map(crop => (
+                  <button
+                    key={crop.id}
+                    onClick={() => { setMarketCrop(crop.id); setMarketSelection(null); }}
+                    className={`px-4 py-2 rounded-full text-sm font-black border transition-colors ${marketCrop === crop.id ? 'bg-emerald-700 text-white border-emerald-700' : 'bg-white text-stone-600 border-stone-200'}`}
+                  >
+                    {localize(crop.name, lang)}
+                  </button>
+                ))}
+              </div>
+
+              {(() => {
+                const markets = prices ? latestPrices(prices.feed.prices, marketCrop) : [];
+                if (markets.length === 0) {
+                  return (
+                    <div className="flex flex-col items-center justify-center py-20 text-stone-400 gap-4">
+                      <Store size={64} className="opacity-20" />
+                      <p className="font-bold">{t.noPrices}</p>
+                    </div>
+                  );
+                }
+                const selected = markets.find(m => m.market === marketSelection?.market && m.unit === marketSelection?.unit) ?? markets[0];
+                return (
+                  <>
+                    <MarketList markets={markets} selected={selected} onSelect={setMarketSelection} t={t} />
+                    <div className="bg-white rounded-3xl border border-stone-200 shadow-sm p-5">
+                      <Section title={t.priceHistory} icon={<TrendingUp size={20} />}>
+                        <p className="text-sm font-bold text-stone-700 mb-3">{selected.market}</p>
+                        <PriceChart history={priceHistory(prices!.feed.prices, marketCrop, selected.market, selected.unit)} t={t} />
+                      </Section>
+                    </div>
+                    {prices!.feed.updatedAt && (
+                      <p className="text-xs font-medium text-stone-500">{format(t.pricesUpdated, { time: new Date(prices!.feed.updatedAt).toLocaleString() })}</p>
+                    )}
+                  </>
+                );
+              })()}
+            </div>
+          )}
+
+          {screen === 'about' && (
+            <div className="p-6 space-y-8">
+              <div className="flex flex-col items-center text-center space-y-4">
+                <div className="w-24 h-24 bg-emerald-100 rounded-full flex items-center justify-center shadow-inner">
+                  <ShieldCheck size={56} className="text-emerald-700" />
+                </div>
+                <div>
+                  <h2 className="text-3xl font-black text-emerald-900">{t.appName}</h2>
+                  <p className="text-emerald-600 font-bold tracking-widest uppercase text-xs">v1.0.0 MVP</p>
+                </div>
+              </div>
+
+              <div className="space-y-6">
+                <div className="bg-white p-6 rounded-3xl border border-stone-200 shadow-sm space-y-4">
+                  <p className="text-stone-700 leading-relaxed font-medium">{t.aboutContent}</p>
+                  <div className="p-4 bg-stone-50 rounded-2xl border-l-4 border-emerald-600 italic text-stone-600 text-sm">
+                    {t.gashaMeaning}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 gap-3">
+                  <AboutLink icon={<ExternalLink size={18}/>} label="Visit Website" />
+                  <AboutLink icon={<Info size={18}/>} label="Privacy Policy" />
+                </div>
+              </div>
+            </div>
+          )}
+
+          {screen === 'fields' && (
+            <div className="p-4 space-y-6">
+              <h2 className="text-2xl font-black text-stone-800">{t.fields}</h2>
+
+              <FieldForm
+                inputs={[{ name: 'name', placeholder: t.farmerName }, { name: 'village', placeholder: t.village }]}
+                submitLabel={t.addFarmer}
+                onSubmit={values => saveField(() => FieldStore.saveFarmer({ id: newId(), name: values.name, village: values.village || undefined }))}
+              />
+
+              {fields.farmers.length === 0 && (
+                <div className="flex flex-col items-center justify-center py-12 text-stone-400 gap-4 text-center">
+                  <Tractor size={64} className="opacity-20" />
+                  <p className="font-bold">{t.noFarmers}</p>
+                </div>
+              )}
+
+              {fields.farmers.map(farmer => (
+                <div key={farmer.id} className="bg-white rounded-3xl border border-stone-200 shadow-sm p-5 space-y-4">
+                  <div>
+                    <h3 className="text-lg font-black text-stone-800">{farmer.name}</h3>
+                    {farmer.village && <p className="text-xs font-bold text-stone-400 uppercase tracking-widest">{farmer.village}</p>}
+                  </div>
+
+                  {fields.farms.filter(farm => farm.farmerId === farmer.id).map(farm => (
+                    <div key={farm.id} className="bg-stone-50 rounded-2xl p-4 space-y-3">
+                      <h4 className="font-black text-stone-700">{farm.name}</h4>
+                      <ul className="space-y-2">
+                        {fields.plots.filter(plot => plot.farmId === farm.id).map(plot => (
+                          <li key={plot.id} className="flex items-center justify-between gap-2 bg-white rounded-xl px-3 py-2 text-sm">
+                            <span className="font-bold text-stone-800">{plot.name}</span>
+                            <span className="text-xs font-medium text-stone-500 truncate">
+                              {[plot.crop && KnowledgeBase.cropName(plot.crop, lang), plot.variety].filter(Boolean).join(' · ')}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                      <FieldForm
+                        inputs={[
+                          { name: 'name', placeholder: t.plotName },
+                          { name: 'crop', placeholder: t.crop, options: KnowledgeBase.crops().map(c => ({ value: c.id, label: localize(c.name, lang) })) },
+                          { name: 'variety', placeholder: t.variety }
+                        ]}
+                        submitLabel={t.addPlot}
+                        onSubmit={values => saveField(() => FieldStore.savePlot({
+                          id: newId(),
+                          farmId: farm.id,
+                          name: values.name,
+                          crop: values.crop || undefined,
+                          variety: values.variety || undefined
+                        }))}
+                      />
+                    </div>
+                  ))}
+
+                  <FieldForm
+                    inputs={[{ name: 'name', placeholder: t.farmName }]}
+                    submitLabel={t.addFarm}
+                    onSubmit={values => saveField(() => FieldStore.saveFarm({ id: newId(), farmerId: farmer.id, name: values.name }))}
+                  />
+                </div>
+              ))}
+
+              <button
+                onClick={() => setScreen('home')}
+                className="w-full bg-emerald-700 text-white font-black py-5 rounded-3xl shadow-xl hover:bg-emerald-800 active:scale-[0.98] transition-all text-xl"
+              >
+                {t.back}
+              </button>
+            </div>
+          )}
+
+          {screen === 'settings' && (
+            <div className="p-4 space-y-6">
+              <h2 className="text-2xl font-black text-stone-800">{t.settings}</h2>
+              
+              <div className="bg-white rounded-3xl border border-stone-200 overflow-hidden shadow-sm">
+                <div className="p-4 border-b border-stone-100">
+                  <h3 className="text-xs font-black text-stone-400 uppercase tracking-widest mb-4">{t.languageSelect}</h3>
+                  <div className="grid grid-cols-2 gap-3">
+                    {LOCALES.map(locale => (
+                      <LangButton key={locale.code} active={lang === locale.code} onClick={() => setLang(locale.code)} label={locale.nativeName} sub={locale.englishName} />
+                    ))}
+                  </div>
+                  {I18n.missingKeys(lang).length > 0 && (
+                    <p className="mt-4 text-xs font-medium text-stone-500 leading-relaxed">
+                      {format(t.missingTranslations, {
+                        count: I18n.missingKeys(lang).length,
+                        fallback: localeInfo(fallbackChain(lang)[1]).nativeName
+                      })}
+                    </p>
+                  )}
+                </div>
+
+                <div className="p-4 border-b border-stone-100">
+                  <label className="flex items-center justify-between gap-4 cursor-pointer">
+                    <div className="flex items-start gap-3">
+                      <Navigation size={20} className="text-emerald-600 shrink-0 mt-0.5" />
+                      <div>
+                        <p className="font-bold text-stone-800">{t.gpsTagging}</p>
+                        <p className="text-xs font-medium text-stone-500 leading-relaxed">{t.gpsTaggingHint}</p>
+                      </div>
+                    </div>
+                    <input
+                      type="checkbox"
+                      checked={gpsEnabled}
+                      onChange={e => {
+                        LocationService.setEnabled(e.target.checked);
+                        setGpsEnabled(e.target.checked);
+                      }}
+                      className="w-5 h-5 accent-emerald-600 shrink-0"
+                    />
+                  </label>
+                </div>
+
+                <div className="p-4 border-b border-stone-100">
+                  <label className="flex items-center justify-between gap-4 cursor-pointer">
+                    <div className="flex items-start gap-3">
+                      <Volume2 size={20} className="text-emerald-600 shrink-0 mt-0.5" />
+                      <div>
+                        <p className="font-bold text-stone-800">{t.readAloud}</p>
+                        <p className="text-xs font-medium text-stone-500 leading-relaxed">{t.readAloudHint}</p>
+                      </div>
+                    </div>
+                    <input
+                      type="checkbox"
+                      checked={readAloud}
+                      onChange={e => {
+                        AudioService.setReadAloud(e.target.checked);
+                        setReadAloud(e.target.checked);
+                      }}
+                      className="w-5 h-5 accent-emerald-600 shrink-0"
+                    />
+                  </label>
+                </div>
+
+                <SyncSettingsSection
+                  settings={syncSettings}
+                  status={syncStatus}
+                  onChange={settings => {
+                    SyncService.configure(settings);
+                    setSyncSettings(settings);
+                  }}
+                  t={t}
+                />
+
+                <AlertSettingsSection
+                  subscription={alertSubscription}
+                  lang={lang}
+                  onChange={subscription => {
+                    setAlertSubscription(subscription);
+                    if (!subscription) setAlerts([]);
+                  }}
+                  t={t}
+                />
+
+                <div className="p-4 border-b border-stone-100">
+                  <button
+                    onClick={() => setScreen('dashboard')}
+                    className="w-full flex items-center justify-between p-4 bg-stone-50 text-stone-700 rounded-2xl font-bold active:scale-[0.98] transition-transform"
+                  >
+                    <div className="flex items-center gap-3">
+                      <Activity size={20} className="text-emerald-600" />
+                      <span>{t.dashboard}</span>
+                    </div>
+                    <ChevronLeft className="rotate-180 text-stone-300" size={20} />
+                  </button>
                 </div>
 
                 <div className="p-4">
                   <h3 className="text-xs font-black text-stone-400 uppercase tracking-widest mb-4">Data Management</h3>
+                  {storageUsage && (
+                    <div className="mb-4 space-y-2">
+                      <div className="flex items-center justify-between text-sm font-bold text-stone-600">
+                        <span>{t.storageUsage}</span>
+                        <span>{formatBytes(storageUsage.usage)} / {formatBytes(storageUsage.quota)}</span>
+                      </div>
+                      <div className="h-2 bg-stone-100 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-emerald-500 rounded-full"
+                          style={{ width: `${storageUsage.quota ? Math.min(100, (storageUsage.usage / storageUsage.quota) * 100) : 0}%` }}
+                        ></div>
+                      </div>
+                    </div>
+                  )}
+                  <div className="mb-4 space-y-3">
+                    <p className="text-sm font-bold text-stone-600">{t.exportImport}</p>
+                    <p className="text-xs text-stone-400">{t.exportImportHint}</p>
+                    <div className="grid grid-cols-3 gap-2">
+                      {([['csv', t.exportCsv, FileSpreadsheet], ['json', t.exportJson, FileJson], ['zip', t.exportZip, Archive]] as const).map(([kind, label, Icon]) => (
+                        <button
+                          key={kind}
+                          onClick={() => exportHistory(kind)}
+                          disabled={transferBusy || history.length === 0}
+                          className="flex flex-col items-center gap-1.5 p-3 bg-stone-50 text-stone-700 rounded-2xl text-xs font-bold text-center active:scale-[0.98] transition-transform disabled:opacity-40"
+                        >
+                          <Icon size={20} className="text-emerald-600" />
+                          <span>{label}</span>
+                        </button>
+                      ))}
+                    </div>
+                    <label className={`w-full flex items-center gap-3 p-4 bg-stone-50 text-stone-700 rounded-2xl font-bold cursor-pointer active:scale-[0.98] transition-transform ${transferBusy ? 'opacity-40 pointer-events-none' : ''}`}>
+                      <Upload size={20} className="text-emerald-600" />
+                      <span>{t.importHistory}</span>
+                      <input
+                        type="file"
+                        accept=".json,.zip,application/json,application/zip"
+                        className="hidden"
+                        onChange={e => {
+                          const file = e.target.files?.[0];
+                          e.target.value = '';
+                          if (file) importHistory(file);
+                        }}
+                      />
+                    </label>
+                    {importMessage && <p className="text-sm font-bold text-stone-600">{importMessage}</p>}
+                  </div>
                   <button 
                     onClick={clearHistory}
                     className="w-full flex items-center justify-between p-4 bg-red-50 text-red-600 rounded-2xl font-bold active:scale-[0.98] transition-transform"
@@ -492,17 +1669,63 @@ export default function App() {
       </main>
 
       {/* Bottom Navigation (Mobile Feel) */}
-      <nav className="bg-white border-t border-stone-200 px-6 py-3 flex items-center justify-between sticky bottom-0 z-20 shadow-[0_-4px_10px_rgba(0,0,0,0.03)]">
+      <nav className="bg-white border-t border-stone-200 px-6 py-3 flex items-center justify-between sticky bottom-0 z-20 shadow-[0_-4px_10px_rgba(0,0,0,0.03)] print:hidden">
         <NavIcon active={screen === 'home'} icon={<Sprout size={24}/>} onClick={() => setScreen('home')} />
+        <NavIcon active={screen === 'library' || screen === 'disease'} icon={<BookOpen size={24}/>} onClick={() => setScreen('library')} />
         <NavIcon active={screen === 'history'} icon={<History size={24}/>} onClick={() => setScreen('history')} />
         <NavIcon active={screen === 'settings'} icon={<Settings size={24}/>} onClick={() => setScreen('settings')} />
       </nav>
+
+      {/* Printed instead of the app; the print dialog saves it as PDF */}
+      {reportItem && (
+        <ScanReport
+          item={reportItem}
+          image={capturedImage}
+          disease={diagnosis}
+          plan={plans.find(p => p.historyId === reportItem.id)}
+          fields={fields}
+          lang={lang}
+          t={t}
+        />
+      )}
     </div>
   );
 }
 
 // --- Sub-components ---
 
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+  if (bytes >= 1024 ** 2) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  return `${Math.round(bytes / 1024)} KB`;
+}
+
+/** Saves `blob` to the phone's downloads as e.g. "agrigasha-history-2026-10-19.csv". */
+function downloadFile(blob: Blob, name: string, extension: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${name}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function HistoryThumbnail({ blob }: { blob?: Blob }) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!blob) return;
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  if (!url) {
+    return <div className="w-16 h-16 rounded-xl bg-stone-100 shadow-sm"></div>;
+  }
+  return <img src={url} className="w-16 h-16 rounded-xl object-cover shadow-sm" alt="History" />;
+}
+
 function NavIcon({ active, icon, onClick }: { active: boolean, icon: React.ReactNode, onClick: () => void }) {
   return (
     <button 
@@ -564,61 +1787,1616 @@ function Section({ title, icon, children }: { title: string, icon: React.ReactNo
   );
 }
 
-function CameraInterface({ onCapture, onBack }: { onCapture: (img: string) => void, onBack: () => void }) {
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+/**
+ * Title and hint shown for any outcome that does not name a disease.
+ * A `success` without a disease is the model's `healthy` label.
+ */
+function statusMessage(status: DiagnosisStatus, t: Translation, issue?: QualityIssue | null): { title: string, hint: string } {
+  switch (issue) {
+    case 'too-small': return { title: t.retakeNeeded, hint: t.tooSmallHint };
+    case 'too-dark': return { title: t.retakeNeeded, hint: t.tooDarkHint };
+    case 'overexposed': return { title: t.retakeNeeded, hint: t.overexposedHint };
+    case 'blurry': return { title: t.retakeNeeded, hint: t.blurryHint };
+  }
+  switch (status) {
+    case 'success': return { title: t.healthy, hint: t.healthyHint };
+    case 'unknown': return { title: t.uncertain, hint: t.retakeHint };
+    case 'model-unavailable': return { title: t.modelUnavailable, hint: t.modelUnavailableHint };
+    case 'image-invalid': return { title: t.imageInvalid, hint: t.imageInvalidHint };
+  }
+}
 
-  useEffect(() => {
-    async function setupCamera() {
-      try {
-        const stream = await navigator.mediaDevices.getUserMedia({ 
-          video: { facingMode: 'environment' }, 
-          audio: false 
-        });
-        if (videoRef.current) {
-          videoRef.current.srcObject = stream;
-        }
-      } catch (err) {
-        console.error("Camera access denied:", err);
-      }
-    }
-    setupCamera();
-    return () => {
-      const stream = videoRef.current?.srcObject as MediaStream;
-      stream?.getTracks().forEach(track => track.stop());
-    };
-  }, []);
+function DiagnosisStatusCard({ status, issue, t, onRetake, children }: { status: DiagnosisStatus, issue?: QualityIssue | null, t: Translation, onRetake: () => void, children?: React.ReactNode }) {
+  const { title, hint } = statusMessage(status, t, issue);
+  const healthy = status === 'success';
+  const canRetake = status === 'unknown' || status === 'image-invalid';
 
-  const takePhoto = () => {
-    if (videoRef.current && canvasRef.current) {
-      const context = canvasRef.current.getContext('2d');
-      if (context) {
-        canvasRef.current.width = videoRef.current.videoWidth;
-        canvasRef.current.height = videoRef.current.videoHeight;
-        context.drawImage(videoRef.current, 0, 0);
-        onCapture(canvasRef.current.toDataURL('image/jpeg'));
-      }
-    }
+  return (
+    <div className={`bg-white rounded-3xl p-6 border shadow-xl space-y-4 ${healthy ? 'border-emerald-200' : status === 'unknown' ? 'border-amber-200' : 'border-red-200'}`}>
+      <div className="flex items-center gap-3">
+        <div className={`p-2 rounded-xl ${healthy ? 'bg-emerald-50 text-emerald-600' : status === 'unknown' ? 'bg-amber-50 text-amber-600' : 'bg-red-50 text-red-600'}`}>
+          {healthy ? <CheckCircle2 size={24} /> : <AlertTriangle size={24} />}
+        </div>
+        <h2 className="text-2xl font-black text-stone-900 leading-tight">{title}</h2>
+      </div>
+      <p className="text-stone-600 leading-relaxed font-medium">{hint}</p>
+      {canRetake && (
+        <button 
+          onClick={onRetake}
+          className="w-full flex items-center justify-center gap-2 bg-amber-500 text-white font-black py-4 rounded-2xl active:scale-[0.98] transition-transform"
+        >
+          <Camera size={20} />
+          {t.retakePhoto}
+        </button>
+      )}
+      {children}
+    </div>
+  );
+}
+
+/**
+ * Tints each analysed tile red by its disease score. Tiles are laid over the
+ * centre square of the photo, which is what the `object-cover` image shows.
+ */
+function HeatmapOverlay({ heatmap }: { heatmap: LesionHeatmap }) {
+  return (
+    <div
+      className="absolute inset-0 grid pointer-events-none"
+      style={{ gridTemplateColumns: `repeat(${heatmap.cols}, 1fr)`, gridTemplateRows: `repeat(${heatmap.rows}, 1fr)` }}
+    >
+      {heatmap.cells.map((score, i) => (
+        <div key={i} style={{ backgroundColor: score === null ? 'transparent' : `rgba(220, 38, 38, ${(score * 0.6).toFixed(2)})` }}></div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Symptoms, treatment, prevention and product sections for a disease.
+ * Shared by the result screen and the disease library.
+ */
+function AudioControls({ trackId, load, t }: { trackId: string, load: () => Promise<AudioSegment[]>, t: Translation }) {
+  const [player, setPlayer] = useState<PlayerState | null>(null);
+  const [segments, setSegments] = useState<AudioSegment[]>([]);
+  const [unavailable, setUnavailable] = useState(false);
+
+  useEffect(() => AudioService.watch(setPlayer), []);
+
+  const active = player?.trackId === trackId;
+  const playing = active && player.playing;
+
+  const toggle = async () => {
+    if (playing) return AudioService.pause();
+    if (active) return AudioService.resume();
+    const track = await load();
+    setSegments(track);
+    setUnavailable(!AudioService.play(trackId, track));
   };
 
   return (
-    <div className="fixed inset-0 bg-black z-[60] flex flex-col">
-      <div className="flex-1 relative flex items-center justify-center">
-        <video 
-          ref={videoRef} 
-          autoPlay 
-          playsInline 
-          className="w-full h-full object-cover"
-        />
-        {/* Overlay Guide */}
-        <div className="absolute inset-0 border-[60px] border-black/60 pointer-events-none">
-          <div className="w-full h-full border-2 border-white/40 rounded-[3rem] relative">
-            <div className="absolute top-0 left-0 w-8 h-8 border-t-4 border-l-4 border-emerald-400 -mt-1 -ml-1 rounded-tl-xl"></div>
-            <div className="absolute top-0 right-0 w-8 h-8 border-t-4 border-r-4 border-emerald-400 -mt-1 -mr-1 rounded-tr-xl"></div>
-            <div className="absolute bottom-0 left-0 w-8 h-8 border-b-4 border-l-4 border-emerald-400 -mb-1 -ml-1 rounded-bl-xl"></div>
-            <div className="absolute bottom-0 right-0 w-8 h-8 border-b-4 border-r-4 border-emerald-400 -mb-1 -mr-1 rounded-br-xl"></div>
+    <div className="flex items-center gap-3 p-3 bg-stone-50 rounded-2xl">
+      <button
+        onClick={toggle}
+        aria-label={playing ? t.pause : t.listen}
+        className="p-3 bg-emerald-700 text-white rounded-xl shadow-sm active:scale-95 transition-transform shrink-0"
+      >
+        {playing ? <Pause size={20} /> : <Volume2 size={20} />}
+      </button>
+      <div className="flex-1 min-w-0">
+        <p className="text-xs font-black text-stone-600 truncate">
+          {unavailable ? t.noAudio : active ? segments[player.segment]?.label : t.listen}
+        </p>
+        <div className="h-1.5 bg-stone-200 rounded-full overflow-hidden mt-1.5">
+          <div className="h-full bg-emerald-600 transition-all" style={{ width: `${(active ? player.progress : 0) * 100}%` }}></div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function DiseaseSections({ disease, lang, t, symptomsTitle }: { disease: Disease, lang: Language, t: Translation, symptomsTitle: string }) {
+  return (
+    <div className="space-y-6">
+      <Section title={symptomsTitle} icon={<AlertTriangle className="text-amber-500" size={20}/>}>
+        <p className="text-stone-600 leading-relaxed font-medium">{localize(disease.symptoms, lang)}</p>
+      </Section>
+
+      <Section title={t.recommendation} icon={<CheckCircle2 className="text-emerald-500" size={20}/>}>
+        <p className="text-stone-600 leading-relaxed font-medium">{localize(disease.treatment, lang)}</p>
+      </Section>
+
+      <Section title={t.prevention} icon={<ShieldCheck className="text-blue-500" size={20}/>}>
+        <p className="text-stone-600 leading-relaxed font-medium">{localize(disease.prevention, lang)}</p>
+      </Section>
+
+      {disease.organicOptions.length > 0 && (
+        <Section title={t.organicOptions} icon={<Leaf className="text-emerald-500" size={20}/>}>
+          <div className="space-y-3">
+            {disease.organicOptions.map((option, i) => (
+              <div key={i}>
+                <p className="font-bold text-stone-800">{localize(option.name, lang)}</p>
+                <p className="text-sm text-stone-600 leading-relaxed">{localize(option.instructions, lang)}</p>
+              </div>
+            ))}
+          </div>
+        </Section>
+      )}
+
+      {disease.chemicals.length > 0 && (
+        <Section title={t.approvedChemicals} icon={<FlaskConical className="text-purple-500" size={20}/>}>
+          <div className="space-y-3">
+            {disease.chemicals.map((chemical, i) => (
+              <div key={i} className="p-3 bg-stone-50 rounded-2xl space-y-1">
+                <p className="font-bold text-stone-800">{chemical.activeIngredient}</p>
+                <p className="text-sm text-stone-600 leading-relaxed">{localize(chemical.dosage, lang)}</p>
+                <p className="text-xs font-bold text-amber-700">
+                  {t.preHarvestInterval}: {chemical.preHarvestIntervalDays} {t.days}
+                </p>
+                {chemical.safety && <p className="text-xs text-red-600">{localize(chemical.safety, lang)}</p>}
+              </div>
+            ))}
+          </div>
+        </Section>
+      )}
+    </div>
+  );
+}
+
+function ExpertAdviceCard({ advice, loading, error, t }: { advice: Partial<ExpertAdvice> | null, loading: boolean, error: AdviceErrorReason | null, t: Translation }) {
+  return (
+    <div className="bg-white rounded-3xl p-6 border border-stone-200 shadow-xl space-y-6">
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-emerald-900 rounded-xl">
+          <BrainCircuit size={24} className="text-emerald-300" />
+        </div>
+        <h3 className="font-black text-lg text-stone-900 flex-1">{t.expertAdvice}</h3>
+        {loading && <div className="w-2 h-2 bg-emerald-500 rounded-full animate-pulse" title={t.adviceLoading}></div>}
+      </div>
+
+      {error ? (
+        <div className="flex items-center gap-3 p-4 bg-amber-50 text-amber-800 rounded-2xl border border-amber-100 text-sm font-bold">
+          <AlertTriangle size={20} className="shrink-0" />
+          <span>{error === 'rate-limited' ? t.adviceRateLimited : t.adviceUnavailable}</span>
+        </div>
+      ) : !advice?.summary ? (
+        <p className="text-sm font-bold text-stone-400 animate-pulse">{t.adviceLoading}</p>
+      ) : (
+        <p className="text-stone-600 leading-relaxed font-medium">{advice.summary}</p>
+      )}
+
+      {!!advice?.treatmentSteps?.length && (
+        <Section title={t.recommendation} icon={<CheckCircle2 className="text-emerald-500" size={20}/>}>
+          <ol className="list-decimal pl-4 space-y-2 text-stone-600 leading-relaxed font-medium">
+            {advice.treatmentSteps.map((step, i) => <li key={i}>{step}</li>)}
+          </ol>
+        </Section>
+      )}
+
+      {!!advice?.organicOptions?.length && (
+        <Section title={t.organicOptions} icon={<Leaf className="text-emerald-500" size={20}/>}>
+          <div className="space-y-3">
+            {advice.organicOptions.map((option, i) => (
+              <div key={i}>
+                <p className="font-bold text-stone-800">{option.name}</p>
+                <p className="text-sm text-stone-600 leading-relaxed">{option.instructions}</p>
+              </div>
+            ))}
+          </div>
+        </Section>
+      )}
+
+      {!!advice?.chemicalOptions?.length && (
+        <Section title={t.chemicalOptions} icon={<FlaskConical className="text-purple-500" size={20}/>}>
+          <div className="space-y-3">
+            {advice.chemicalOptions.map((chemical, i) => (
+              <div key={i} className="p-3 bg-stone-50 rounded-2xl space-y-1">
+                <p className="font-bold text-stone-800">{chemical.name}</p>
+                {chemical.dosage && <p className="text-sm text-stone-600 leading-relaxed">{chemical.dosage}</p>}
+                {chemical.safetyWarning && (
+                  <p className="flex items-start gap-1.5 text-xs font-bold text-red-600">
+                    <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+                    {chemical.safetyWarning}
+                  </p>
+                )}
+              </div>
+            ))}
           </div>
+        </Section>
+      )}
+
+      {advice?.whenToCallAgent && (
+        <Section title={t.whenToCallAgent} icon={<Phone className="text-blue-500" size={20}/>}>
+          <p className="text-stone-600 leading-relaxed font-medium">{advice.whenToCallAgent}</p>
+        </Section>
+      )}
+    </div>
+  );
+}
+
+function ChatPanel({ messages, onSend, isOnline, error, t }: { messages: ChatMessage[], onSend: (text: string) => void, isOnline: boolean, error: AdviceErrorReason | null, t: Translation }) {
+  const [draft, setDraft] = useState('');
+  const waiting = isOnline && !error && messages.some(m => m.queued);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = draft.trim();
+    if (!text) return;
+    onSend(text);
+    setDraft('');
+  };
+
+  return (
+    <div className="bg-white rounded-3xl p-6 border border-stone-200 shadow-xl space-y-4">
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-emerald-50 rounded-xl">
+          <MessageCircle size={24} className="text-emerald-700" />
+        </div>
+        <h3 className="font-black text-lg text-stone-900">{t.askAssistant}</h3>
+      </div>
+
+      {messages.length > 0 && (
+        <div className="space-y-3">
+          {messages.map(message => (
+            <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div className={`max-w-[85%] px-4 py-3 rounded-2xl text-sm leading-relaxed ${message.role === 'user' ? 'bg-emerald-700 text-white rounded-br-md' : 'bg-stone-100 text-stone-700 rounded-bl-md'}`}>
+                {message.role === 'model' ? <ReactMarkdown>{message.text}</ReactMarkdown> : message.text}
+                {message.queued && !isOnline && (
+                  <span className="flex items-center gap-1 mt-1 text-[10px] font-bold opacity-70">
+                    <Clock size={10} /> {t.chatQueued}
+                  </span>
+                )}
+              </div>
+            </div>
+          ))}
+          {waiting && (
+            <div className="flex justify-start">
+              <div className="px-4 py-3 rounded-2xl rounded-bl-md bg-stone-100 flex gap-1">
+                <div className="w-2 h-2 bg-stone-400 rounded-full animate-pulse"></div>
+                <div className="w-2 h-2 bg-stone-400 rounded-full animate-pulse"></div>
+                <div className="w-2 h-2 bg-stone-400 rounded-full animate-pulse"></div>
+              </div>
+            </div>
+          )}
         </div>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-3 p-3 bg-amber-50 text-amber-800 rounded-2xl border border-amber-100 text-xs font-bold">
+          <AlertTriangle size={16} className="shrink-0" />
+          <span>{error === 'rate-limited' ? t.adviceRateLimited : t.chatFailed}</span>
+        </div>
+      )}
+
+      <form onSubmit={submit} className="flex items-center gap-2">
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder={t.chatPlaceholder}
+          className="flex-1 min-w-0 bg-stone-50 px-4 py-3 rounded-2xl border border-stone-200 outline-none focus:border-emerald-400 font-medium text-stone-800 placeholder:text-stone-400"
+        />
+        <button
+          type="submit"
+          disabled={!draft.trim()}
+          className="p-3 bg-emerald-700 text-white rounded-2xl shadow-md hover:bg-emerald-800 active:scale-95 transition-all disabled:opacity-40"
+        >
+          <Send size={20} />
+        </button>
+      </form>
+    </div>
+  );
+}
+
+/** Name for a model label: a disease, `healthy` or `unknown`. */
+function labelName(label: string, lang: Language, t: Translation): string {
+  if (label === HEALTHY_LABEL) return t.healthy;
+  if (label === UNKNOWN_LABEL) return t.uncertain;
+  const disease = KnowledgeBase.find(label);
+  return disease ? localize(disease.name, lang) : label;
+}
+
+function SecondOpinionCard({ local, opinion, lang, t, onOpen }: { local: Prediction | undefined, opinion: SecondOpinion | null, lang: Language, t: Translation, onOpen: (disease: Disease) => void }) {
+  const disagree = opinion && opinionsDisagree(local, opinion);
+  const opinionDisease = opinion && KnowledgeBase.find(opinion.label);
+
+  return (
+    <div className={`bg-white rounded-3xl p-6 border-2 shadow-xl space-y-4 ${disagree ? 'border-amber-300' : 'border-stone-200'}`}>
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-emerald-900 rounded-xl">
+          <BrainCircuit size={24} className="text-emerald-300" />
+        </div>
+        <h3 className="font-black text-lg text-stone-900">{t.secondOpinion}</h3>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="p-4 bg-stone-50 rounded-2xl space-y-1">
+          <p className="text-[10px] font-black text-stone-400 uppercase tracking-widest">{t.onDeviceOpinion}</p>
+          <p className="font-black text-stone-800 leading-tight">{local ? labelName(local.label, lang, t) : t.modelUnavailable}</p>
+          {local && <p className="text-xs font-bold text-stone-500">{local.confidence}% {t.confidence}</p>}
+        </div>
+        <div className="p-4 bg-emerald-50 rounded-2xl space-y-1">
+          <p className="text-[10px] font-black text-emerald-600 uppercase tracking-widest">{t.geminiOpinion}</p>
+          {opinion ? (
+            <>
+              <p className="font-black text-stone-800 leading-tight">{labelName(opinion.label, lang, t)}</p>
+              <p className="text-xs font-bold text-stone-500">{opinion.confidence}% {t.confidence}</p>
+            </>
+          ) : (
+            <div className="space-y-2 pt-1">
+              <div className="h-4 bg-emerald-100 rounded-full w-full animate-pulse"></div>
+              <div className="h-3 bg-emerald-100 rounded-full w-1/2 animate-pulse"></div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {opinion && (
+        <>
+          <p className="text-sm text-stone-600 leading-relaxed">{opinion.reasoning}</p>
+          <div className={`flex items-start gap-3 p-3 rounded-2xl text-xs font-bold ${disagree ? 'bg-amber-50 text-amber-800' : 'bg-emerald-50 text-emerald-800'}`}>
+            {disagree ? <AlertTriangle size={16} className="shrink-0" /> : <CheckCircle2 size={16} className="shrink-0" />}
+            <span>{disagree ? t.opinionsDisagree : local?.label === opinion.label ? t.opinionsAgree : t.opinionInconclusive}</span>
+          </div>
+          {opinionDisease && (
+            <button
+              onClick={() => onOpen(opinionDisease)}
+              className="w-full flex items-center justify-between p-3 bg-stone-50 rounded-2xl font-bold text-stone-700 hover:bg-stone-100 transition-colors text-sm"
+            >
+              <span>{localize(opinionDisease.name, lang)}</span>
+              <ChevronLeft className="rotate-180 text-stone-300" size={18} />
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function RunnerUps({ candidates, lang, title }: { candidates: Prediction[], lang: Language, title: string }) {
+  const entries = candidates
+    .map(c => ({ disease: KnowledgeBase.find(c.label), confidence: c.confidence }))
+    .filter((e): e is { disease: Disease, confidence: number } => !!e.disease);
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-3xl p-6 border border-stone-200 shadow-sm space-y-4">
+      <h3 className="font-black text-sm text-stone-800 uppercase tracking-widest">{title}</h3>
+      {entries.map(({ disease, confidence }) => (
+        <div key={disease.id} className="p-4 bg-stone-50 rounded-2xl space-y-1">
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-black text-stone-800">{localize(disease.name, lang)}</span>
+            <span className="text-xs font-black text-stone-500">{confidence}%</span>
+          </div>
+          <span className="text-[10px] font-black text-emerald-600 uppercase tracking-widest">{KnowledgeBase.cropName(disease.crops[0], lang)}</span>
+          <p className="text-sm text-stone-600 leading-relaxed">{localize(disease.symptoms, lang)}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const STAGE_KEYS: Record<GrowthStage, keyof Translation> = {
+  seedling: 'stageSeedling',
+  vegetative: 'stageVegetative',
+  flowering: 'stageFlowering',
+  fruiting: 'stageFruiting',
+  mature: 'stageMature'
+};
+
+function stageName(stage: GrowthStage, t: Translation): string {
+  return t[STAGE_KEYS[stage]];
+}
+
+function matchesFilter(item: HistoryItem, filter: HistoryFilter, fields: Fields): boolean {
+  if (filter.growthStage && item.growthStage !== filter.growthStage) return false;
+  if (filter.plotId) return item.plotId === filter.plotId;
+  const farm = fields.farms.find(f => f.id === fields.plots.find(p => p.id === item.plotId)?.farmId);
+  if (filter.farmId) return farm?.id === filter.farmId;
+  if (filter.farmerId) return farm?.farmerId === filter.farmerId;
+  return true;
+}
+
+const selectClass = "w-full bg-stone-50 border border-stone-200 rounded-xl px-3 py-2.5 text-sm font-bold text-stone-700 focus:outline-none focus:border-emerald-500";
+
+function ScanContextCard({ fields, context, onChange, onManage, t }: { fields: Fields, context: ScanContext, onChange: (context: ScanContext) => void, onManage: () => void, t: Translation }) {
+  return (
+    <div className="bg-white p-4 rounded-3xl border border-stone-200 shadow-sm space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-[10px] font-black text-stone-400 uppercase tracking-widest flex items-center gap-2">
+          <Tractor size={14} /> {t.scanningFor}
+        </h3>
+        <button onClick={onManage} className="text-xs font-black text-emerald-700 hover:underline">{t.fields}</button>
+      </div>
+      <select
+        value={context.plotId ?? ''}
+        onChange={e => {
+          const plot = fields.plots.find(p => p.id === e.target.value);
+          onChange({ ...context, plotId: plot?.id, variety: plot?.variety });
+        }}
+        className={selectClass}
+      >
+        <option value="">{t.noPlotSelected}</option>
+        {fields.plots.map(plot => (
+          <option key={plot.id} value={plot.id}>{plotPath(fields, plot.id)}</option>
+        ))}
+      </select>
+      {context.plotId && (
+        <div className="grid grid-cols-2 gap-3">
+          <input
+            value={context.variety ?? ''}
+            onChange={e => onChange({ ...context, variety: e.target.value })}
+            placeholder={t.variety}
+            className={selectClass}
+          />
+          <select
+            value={context.growthStage ?? ''}
+            onChange={e => onChange({ ...context, growthStage: (e.target.value || undefined) as GrowthStage | undefined })}
+            className={selectClass}
+          >
+            <option value="">{t.growthStage}</option>
+            {GROWTH_STAGES.map(stage => <option key={stage} value={stage}>{stageName(stage, t)}</option>)}
+          </select>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const WEATHER_CONDITIONS: Record<WeatherCondition, { key: keyof Translation, Icon: typeof Sun }> = {
+  'clear': { key: 'weatherClear', Icon: Sun },
+  'partly-cloudy': { key: 'weatherPartlyCloudy', Icon: CloudSun },
+  'cloudy': { key: 'weatherCloudy', Icon: Cloud },
+  'fog': { key: 'weatherFog', Icon: CloudFog },
+  'rain': { key: 'weatherRain', Icon: CloudRain },
+  'storm': { key: 'weatherStorm', Icon: CloudLightning }
+};
+
+function WeatherTile({ weather, onLocate, t }: { weather: CachedForecast | null, onLocate: () => void, t: Translation }) {
+  const current = weather?.forecast.current;
+  const { key, Icon } = WEATHER_CONDITIONS[current?.condition ?? 'partly-cloudy'];
+  return (
+    <button
+      onClick={onLocate}
+      className="bg-white p-4 rounded-3xl border border-stone-200 shadow-sm flex items-center gap-3 text-left"
+    >
+      <div className="p-2 bg-blue-50 text-blue-600 rounded-xl">
+        <Icon size={20} />
+      </div>
+      <div className="min-w-0">
+        <p className="text-[10px] font-black text-stone-400 uppercase tracking-widest flex items-center gap-1">
+          {t.weather} {weather?.stale && <CloudOff size={10} />}
+        </p>
+        {current ? (
+          <>
+            <p className="text-sm font-black text-stone-800">{current.temperature}°C {t[key]}</p>
+            <p className="text-[10px] font-bold text-stone-500">{format(t.humidity, { value: current.humidity })}</p>
+          </>
+        ) : (
+          <p className="text-xs font-bold text-stone-500">{t.weatherTap}</p>
+        )}
+      </div>
+    </button>
+  );
+}
+
+function PriceTile({ prices, crop, lang, onOpen, t }: { prices: CachedPrices | null, crop: string, lang: Language, onOpen: () => void, t: Translation }) {
+  const latest = prices ? latestPrices(prices.feed.prices, crop)[0] : undefined;
+  return (
+    <button onClick={onOpen} className="bg-white p-4 rounded-3xl border border-stone-200 shadow-sm flex items-center gap-3 text-left">
+      <div className="p-2 bg-amber-50 text-amber-600 rounded-xl">
+        <PriceTrend price={latest} size={20} />
+      </div>
+      <div className="min-w-0">
+        <p className="text-[10px] font-black text-stone-400 uppercase tracking-widest flex items-center gap-1">
+          {KnowledgeBase.cropName(crop, lang)} {prices?.stale && <CloudOff size={10} />}
+        </p>
+        {latest ? (
+          <>
+            <p className="text-sm font-black text-stone-800">{format(t.pricePerUnit, { price: latest.price, unit: latest.unit })}</p>
+            <p className="text-[10px] font-bold text-stone-500 truncate">{latest.market}</p>
+          </>
+        ) : (
+          <p className="text-xs font-bold text-stone-500">{t.marketPrices}</p>
+        )}
+      </div>
+    </button>
+  );
+}
+
+function PriceTrend({ price, size }: { price?: MarketPrice, size: number }) {
+  if (price?.previous !== undefined && price.price < price.previous) return <TrendingDown size={size} />;
+  return <TrendingUp size={size} />;
+}
+
+function MarketList({ markets, selected, onSelect, t }: { markets: MarketPrice[], selected: MarketPrice, onSelect: (market: MarketPrice) => void, t: Translation }) {
+  return (
+    <div className="bg-white rounded-3xl border border-stone-200 shadow-sm divide-y divide-stone-100 overflow-hidden">
+      {markets.map(m => {
+        const change = m.previous !== undefined ? m.price - m.previous : 0;
+        const active = m.market === selected.market && m.unit === selected.unit;
+        return (
+          <button
+            key={`${m.market}-${m.unit}`}
+            onClick={() => onSelect(m)}
+            className={`w-full p-4 flex items-center justify-between gap-3 text-left ${active ? 'bg-emerald-50' : ''}`}
+          >
+            <div className="min-w-0">
+              <p className="font-black text-stone-800 truncate">{m.market}</p>
+              <p className="text-xs font-medium text-stone-500">{m.date}</p>
+            </div>
+            <div className="text-right shrink-0">
+              <p className="font-black text-stone-800">{format(t.pricePerUnit, { price: m.price, unit: m.unit })}</p>
+              {change !== 0 && (
+                <p className={`text-xs font-bold flex items-center justify-end gap-1 ${change > 0 ? 'text-emerald-700' : 'text-red-600'}`}>
+                  <PriceTrend price={m} size={12} /> {change > 0 ? '+' : ''}{Math.round(change * 100) / 100}
+                </p>
+              )}
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+function PriceChart({ history, t }: { history: PricePoint[], t: Translation }) {
+  const width = 300;
+  const height = 120;
+  const values = history.map(p => p.price);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+  const x = (i: number) => (history.length > 1 ? (i / (history.length - 1)) * width : width / 2);
+  const y = (price: number) => height - ((price - min) / range) * height;
+  const unit = history[0]?.unit ?? '';
+
+  return (
+    <div className="space-y-3">
+      <svg viewBox={`-4 -4 ${width + 8} ${height + 8}`} className="w-full h-auto">
+        <line x1={0} y1={height} x2={width} y2={height} stroke="#e7e5e4" />
+        <polyline
+          points={history.map((p, i) => `${x(i).toFixed(1)},${y(p.price).toFixed(1)}`).join(' ')}
+          fill="none"
+          stroke="#d97706"
+          strokeWidth={2}
+          strokeLinejoin="round"
+        />
+        {history.map((p, i) => <circle key={p.date} cx={x(i)} cy={y(p.price)} r={2.5} fill="#d97706" />)}
+      </svg>
+      <div className="flex justify-between text-[10px] font-bold text-stone-400">
+        <span>{history[0]?.date}</span>
+        <span>{format(t.pricePerUnit, { price: `${min}–${max}`, unit })}</span>
+        <span>{history[history.length - 1]?.date}</span>
+      </div>
+    </div>
+  );
+}
+
+const RISK_STYLES: Record<RiskLevel, { key: keyof Translation, className: string }> = {
+  low: { key: 'riskLow', className: 'bg-emerald-100 text-emerald-800' },
+  moderate: { key: 'riskModerate', className: 'bg-amber-100 text-amber-800' },
+  high: { key: 'riskHigh', className: 'bg-red-100 text-red-800' }
+};
+
+function DiseaseRiskCard({ weather, crops, lang, onOpen, t }: { weather: CachedForecast, crops?: string[], lang: Language, onOpen: (disease: Disease) => void, t: Translation }) {
+  const risks = assessRisks(weather.forecast, crops).filter(risk => risk.level !== 'low');
+  return (
+    <div className="bg-white p-4 rounded-3xl border border-stone-200 shadow-sm space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="text-[10px] font-black text-stone-400 uppercase tracking-widest flex items-center gap-2">
+          <ShieldCheck size={14} /> {t.diseaseRisk}
+        </h3>
+        {weather.stale && (
+          <span className="text-[10px] font-bold text-stone-400">
+            {format(t.forecastFrom, { time: new Date(weather.forecast.fetchedAt).toLocaleString() })}
+          </span>
+        )}
+      </div>
+      {risks.length === 0 && <p className="text-sm font-medium text-stone-600">{t.noDiseaseRisk}</p>}
+      {risks.map(risk => {
+        const disease = KnowledgeBase.find(risk.diseaseId)!;
+        const style = RISK_STYLES[risk.level];
+        return (
+          <div key={risk.diseaseId} className="bg-stone-50 rounded-2xl p-4 space-y-2">
+            <div className="flex items-center justify-between gap-3">
+              <p className="font-black text-stone-800">{localize(disease.name, lang)}</p>
+              <span className={`px-2.5 py-1 rounded-full text-[10px] font-black uppercase tracking-widest ${style.className}`}>{t[style.key]}</span>
+            </div>
+            <p className="text-xs font-bold text-stone-500">{format(t.riskReason, { count: risk.favourableDays, days: risk.days })}</p>
+            <p className="text-sm font-medium text-stone-600 leading-relaxed">{localize(disease.prevention, lang)}</p>
+            <button onClick={() => onOpen(disease)} className="flex items-center gap-1.5 text-xs font-black text-emerald-700 hover:underline">
+              <BookOpen size={14} /> {t.openInLibrary}
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function NearbyAlerts({ alerts, lang, onOpen, t }: { alerts: NearbyAlert[], lang: Language, onOpen: (disease: Disease) => void, t: Translation }) {
+  const shown = alerts.flatMap(alert => {
+    const disease = KnowledgeBase.find(alert.diseaseId);
+    return disease ? [{ alert, disease }] : [];
+  });
+  if (shown.length === 0) return null;
+  return (
+    <div className="bg-red-50 p-4 rounded-3xl border border-red-200 shadow-sm space-y-3">
+      <h3 className="text-[10px] font-black text-red-700 uppercase tracking-widest flex items-center gap-2">
+        <Bell size={14} /> {t.nearbyOutbreaks}
+      </h3>
+      {shown.map(({ alert, disease }) => (
+        <div key={alert.diseaseId} className="bg-white rounded-2xl p-4 space-y-2">
+          <p className="font-black text-stone-800">{localize(disease.name, lang)}</p>
+          <p className="text-xs font-bold text-red-700">{alert.body}</p>
+          <p className="text-sm font-medium text-stone-600 leading-relaxed">{localize(disease.prevention, lang)}</p>
+          <button onClick={() => onOpen(disease)} className="flex items-center gap-1.5 text-xs font-black text-emerald-700 hover:underline">
+            <BookOpen size={14} /> {t.openInLibrary}
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function TaskRow({ task, onToggle, onScan, t }: { task: PlanTask, onToggle: () => void, onScan?: () => void, t: Translation }) {
+  // A task is overdue once the day it was due on has passed
+  const overdue = !task.doneAt && new Date(task.dueAt).toDateString() !== new Date().toDateString() && Date.parse(task.dueAt) < Date.now();
+  return (
+    <div className="flex items-center gap-3 p-3 bg-stone-50 rounded-2xl">
+      <button
+        onClick={onToggle}
+        aria-label={t.markDone}
+        className={`shrink-0 ${task.doneAt ? 'text-emerald-600' : 'text-stone-300 hover:text-emerald-500'}`}
+      >
+        {task.doneAt ? <CheckCircle2 size={28} /> : <Circle size={28} />}
+      </button>
+      <div className="flex-1 min-w-0">
+        <p className={`font-bold text-sm ${task.doneAt ? 'text-stone-400 line-through' : 'text-stone-800'}`}>{task.title}</p>
+        <p className="text-xs font-medium text-stone-500 flex items-center gap-1.5">
+          <Calendar size={12} /> {new Date(task.dueAt).toLocaleDateString()}
+          {overdue && <span className="font-black text-red-600">· {t.overdue}</span>}
+        </p>
+      </div>
+      {onScan && !task.doneAt && (
+        <button onClick={onScan} className="shrink-0 flex items-center gap-1.5 px-3 py-2 bg-emerald-700 text-white rounded-xl text-xs font-black active:scale-95 transition-transform">
+          <Camera size={14} /> {t.scanNow}
+        </button>
+      )}
+    </div>
+  );
+}
+
+function TreatmentPlanCard({ disease, plan, remindersOn, onStart, onToggle, onScan, onStop, t }: {
+  disease: Disease,
+  plan: TreatmentPlan | undefined,
+  remindersOn: boolean,
+  onStart: (chemical?: ChemicalOption) => void,
+  onToggle: (task: PlanTask) => void,
+  onScan: () => void,
+  onStop: () => void,
+  t: Translation
+}) {
+  // Index into disease.chemicals; -1 for no spray
+  const [choice, setChoice] = useState(disease.chemicals.length > 0 ? 0 : -1);
+
+  return (
+    <div className="bg-white rounded-3xl p-6 border border-stone-200 shadow-sm space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-black text-sm text-stone-800 uppercase tracking-widest flex items-center gap-2">
+          <ClipboardList size={18} className="text-emerald-600" /> {t.treatmentPlan}
+        </h3>
+        {plan && (
+          <button onClick={onStop} className="text-xs font-bold text-stone-400 hover:text-red-600">{t.stopPlan}</button>
+        )}
+      </div>
+
+      {!plan ? (
+        <>
+          <p className="text-sm text-stone-500">{t.treatmentPlanHint}</p>
+          {disease.chemicals.length > 0 && (
+            <select value={choice} onChange={e => setChoice(Number(e.target.value))} className={selectClass}>
+              {disease.chemicals.map((c, i) => <option key={c.activeIngredient} value={i}>{c.activeIngredient}</option>)}
+              <option value={-1}>{t.noSpray}</option>
+            </select>
+          )}
+          <button
+            onClick={() => onStart(disease.chemicals[choice])}
+            className="w-full flex items-center justify-center gap-2 bg-emerald-700 text-white font-black py-3 rounded-2xl shadow-sm active:scale-[0.98] transition-transform"
+          >
+            <Bell size={18} /> {t.startTreatmentPlan}
+          </button>
+        </>
+      ) : (
+        <>
+          <div className="space-y-2">
+            {plan.tasks.map(task => (
+              <TaskRow key={task.id} task={task} onToggle={() => onToggle(task)} onScan={task.kind === 'rescan' ? onScan : undefined} t={t} />
+            ))}
+          </div>
+          {plan.harvestAfter && (
+            <p className="text-xs font-bold text-amber-700 flex items-center gap-2">
+              <AlertTriangle size={14} /> {format(t.harvestAfter, { date: new Date(plan.harvestAfter).toLocaleDateString() })}
+            </p>
+          )}
+          {!remindersOn && <p className="text-xs font-medium text-stone-400">{t.remindersOff}</p>}
+        </>
+      )}
+    </div>
+  );
+}
+
+/** The next open task of each plan, the most urgent first. */
+function TreatmentTasks({ plans, lang, onOpen, onToggle, t }: { plans: TreatmentPlan[], lang: Language, onOpen: (plan: TreatmentPlan) => void, onToggle: (plan: TreatmentPlan, task: PlanTask) => void, t: Translation }) {
+  const open = plans
+    .flatMap(plan => {
+      const task = nextTask(plan);
+      return task ? [{ plan, task }] : [];
+    })
+    .sort((a, b) => a.task.dueAt.localeCompare(b.task.dueAt))
+    .slice(0, 3);
+  if (open.length === 0) return null;
+  return (
+    <div className="bg-white p-4 rounded-3xl border border-stone-200 shadow-sm space-y-3">
+      <h3 className="text-[10px] font-black text-stone-500 uppercase tracking-widest flex items-center gap-2">
+        <ClipboardList size={14} /> {t.treatmentTasks}
+      </h3>
+      {open.map(({ plan, task }) => {
+        const disease = KnowledgeBase.find(plan.diseaseId);
+        return (
+          <div key={task.id} className="space-y-1">
+            {disease && (
+              <button onClick={() => onOpen(plan)} className="text-[10px] font-black text-emerald-700 uppercase tracking-widest hover:underline">
+                {localize(disease.name, lang)}
+              </button>
+            )}
+            <TaskRow task={task} onToggle={() => onToggle(plan, task)} t={t} />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function ScanTags({ item, fields, t }: { item: HistoryItem, fields: Fields, t: Translation }) {
+  const path = plotPath(fields, item.plotId);
+  const details = [item.variety, item.growthStage && stageName(item.growthStage, t)].filter(Boolean).join(' · ');
+  if (!path && !details && !item.location) return null;
+  return (
+    <div className="bg-white rounded-3xl border border-stone-200 shadow-sm p-4 space-y-1 text-sm">
+      {path && <p className="font-black text-stone-800 flex items-center gap-2"><Tractor size={16} className="text-emerald-600" /> {path}</p>}
+      {details && <p className="font-medium text-stone-500">{details}</p>}
+      {item.location && (
+        <p className="font-medium text-stone-500 flex items-center gap-2"><MapPin size={14} /> {formatFix(item.location)}</p>
+      )}
+    </div>
+  );
+}
+
+function HistoryFilters({ fields, filter, onChange, t }: { fields: Fields, filter: HistoryFilter, onChange: (filter: HistoryFilter) => void, t: Translation }) {
+  const farms = fields.farms.filter(f => !filter.farmerId || f.farmerId === filter.farmerId);
+  const plots = fields.plots.filter(p => farms.some(f => f.id === p.farmId) && (!filter.farmId || p.farmId === filter.farmId));
+  return (
+    <div className="bg-white p-4 rounded-3xl border border-stone-200 shadow-sm">
+      <div className="grid grid-cols-2 gap-3">
+        <select value={filter.farmerId ?? ''} onChange={e => onChange({ ...filter, farmerId: e.target.value || undefined, farmId: undefined, plotId: undefined })} className={selectClass}>
+          <option value="">{t.allFarmers}</option>
+          {fields.farmers.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+        </select>
+        <select value={filter.farmId ?? ''} onChange={e => onChange({ ...filter, farmId: e.target.value || undefined, plotId: undefined })} className={selectClass}>
+          <option value="">{t.allFarms}</option>
+          {farms.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+        </select>
+        <select value={filter.plotId ?? ''} onChange={e => onChange({ ...filter, plotId: e.target.value || undefined })} className={selectClass}>
+          <option value="">{t.allPlots}</option>
+          {plots.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+        <select value={filter.growthStage ?? ''} onChange={e => onChange({ ...filter, growthStage: (e.target.value || undefined) as GrowthStage | undefined })} className={selectClass}>
+          <option value="">{t.allStages}</option>
+          {GROWTH_STAGES.map(stage => <option key={stage} value={stage}>{stageName(stage, t)}</option>)}
+        </select>
+      </div>
+    </div>
+  );
+}
+
+interface FormInput {
+  name: string;
+  placeholder: string;
+  options?: { value: string, label: string }[];
+}
+
+/** One-line add form; the first input is required. */
+function FieldForm({ inputs, submitLabel, onSubmit }: { inputs: FormInput[], submitLabel: string, onSubmit: (values: Record<string, string>) => void }) {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const required = inputs[0].name;
+
+  return (
+    <form
+      onSubmit={e => {
+        e.preventDefault();
+        if (!values[required]?.trim()) return;
+        onSubmit(Object.fromEntries(Object.entries(values).map(([k, v]) => [k, v.trim()])));
+        setValues({});
+      }}
+      className="flex flex-wrap gap-2"
+    >
+      {inputs.map(input => input.options ? (
+        <select
+          key={input.name}
+          value={values[input.name] ?? ''}
+          onChange={e => setValues({ ...values, [input.name]: e.target.value })}
+          className={`${selectClass} flex-1 min-w-[8rem]`}
+        >
+          <option value="">{input.placeholder}</option>
+          {input.options.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+      ) : (
+        <input
+          key={input.name}
+          value={values[input.name] ?? ''}
+          onChange={e => setValues({ ...values, [input.name]: e.target.value })}
+          placeholder={input.placeholder}
+          className={`${selectClass} flex-1 min-w-[8rem]`}
+        />
+      ))}
+      <button
+        type="submit"
+        disabled={!values[required]?.trim()}
+        className="flex items-center gap-1.5 px-4 py-2.5 bg-emerald-700 text-white rounded-xl text-sm font-black disabled:opacity-40 active:scale-95 transition-transform"
+      >
+        <Plus size={16} /> {submitLabel}
+      </button>
+    </form>
+  );
+}
+
+function SyncSettingsSection({ settings, status, onChange, t }: { settings: SyncSettings, status: SyncStatus | null, onChange: (settings: SyncSettings) => void, t: Translation }) {
+  const [serverUrl, setServerUrl] = useState(settings.serverUrl);
+  const [token, setToken] = useState(settings.token);
+
+  const statusText = !status ? '' :
+    status.state === 'syncing' ? t.syncInProgress :
+    status.state === 'offline' ? t.syncOffline :
+    status.state === 'error' ? t.syncFailed :
+    status.lastSyncedAt ? format(t.syncLast, { time: new Date(status.lastSyncedAt).toLocaleString() }) : t.syncNever;
+
+  return (
+    <div className="p-4 border-b border-stone-100 space-y-4">
+      <label className="flex items-center justify-between gap-4 cursor-pointer">
+        <div className="flex items-start gap-3">
+          <RefreshCw size={20} className="text-emerald-600 shrink-0 mt-0.5" />
+          <div>
+            <p className="font-bold text-stone-800">{t.sync}</p>
+            <p className="text-xs font-medium text-stone-500 leading-relaxed">{t.syncHint}</p>
+          </div>
+        </div>
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={e => onChange({ ...settings, enabled: e.target.checked })}
+          className="w-5 h-5 accent-emerald-600 shrink-0"
+        />
+      </label>
+
+      {settings.enabled && (
+        <form
+          onSubmit={e => {
+            e.preventDefault();
+            onChange({ ...settings, serverUrl: serverUrl.trim().replace(/\/+$/, '') || settings.serverUrl, token: token.trim() });
+          }}
+          className="space-y-3"
+        >
+          <input value={serverUrl} onChange={e => setServerUrl(e.target.value)} placeholder={t.syncServer} aria-label={t.syncServer} className={selectClass} />
+          <input type="password" value={token} onChange={e => setToken(e.target.value)} placeholder={t.syncToken} aria-label={t.syncToken} className={selectClass} />
+          <div className="flex items-center justify-between gap-3">
+            <p className={`text-xs font-bold flex items-center gap-1.5 ${status?.state === 'error' ? 'text-red-600' : 'text-stone-500'}`}>
+              {status?.state === 'offline' && <CloudOff size={14} />}
+              <span>
+                {statusText}
+                {status && status.pendingImages > 0 && ` · ${format(t.syncPendingImages, { count: status.pendingImages })}`}
+              </span>
+            </p>
+            <button
+              type="submit"
+              disabled={status?.state === 'syncing'}
+              className="flex items-center gap-1.5 px-4 py-2.5 bg-emerald-700 text-white rounded-xl text-sm font-black shrink-0 disabled:opacity-40 active:scale-95 transition-transform"
+            >
+              <RefreshCw size={16} className={status?.state === 'syncing' ? 'animate-spin' : ''} /> {t.syncNow}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
+
+function AlertSettingsSection({ subscription, lang, onChange, t }: { subscription: AlertSubscription | null, lang: Language, onChange: (subscription: AlertSubscription | null) => void, t: Translation }) {
+  const [crops, setCrops] = useState<string[]>(subscription?.crops ?? []);
+  const [position, setPosition] = useState<{ latitude: number, longitude: number } | null>(subscription);
+  const [radiusKm, setRadiusKm] = useState(subscription?.radiusKm ?? 10);
+  const [delivery, setDelivery] = useState<AlertDelivery | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const locate = () => {
+    setError(null);
+    LocationService.current()
+      .then(fix => setPosition({ latitude: fix.latitude, longitude: fix.longitude }))
+      .catch(e => {
+        console.error("Location failed", e);
+        setError(t.locationUnavailable);
+      });
+  };
+
+  const save = async () => {
+    if (!position || crops.length === 0) return;
+    const next: AlertSubscription = { id: subscription?.id ?? crypto.randomUUID(), crops, ...position, radiusKm, lang };
+    setBusy(true);
+    setError(null);
+    try {
+      setDelivery(await AlertService.subscribe(next));
+      onChange(next);
+    } catch (e) {
+      console.error("Alert subscription failed", e);
+      setError(t.alertsFailed);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const remove = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await AlertService.unsubscribe();
+      setDelivery(null);
+      onChange(null);
+    } catch (e) {
+      console.error("Alert unsubscribe failed", e);
+      setError(t.alertsFailed);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="p-4 border-b border-stone-100 space-y-4">
+      <div className="flex items-start gap-3">
+        <Bell size={20} className="text-emerald-600 shrink-0 mt-0.5" />
+        <div>
+          <p className="font-bold text-stone-800">{t.alerts}</p>
+          <p className="text-xs font-medium text-stone-500 leading-relaxed">{t.alertsHint}</p>
+        </div>
+      </div>
+
+      <div>
+        <p className="text-[10px] font-black text-stone-400 uppercase tracking-widest mb-2">{t.alertCrops}</p>
+        <div className="flex flex-wrap gap-2">
+          {KnowledgeBase.crops().map(crop => {
+            const selected = crops.includes(crop.id);
+            return (
+              <button
+                key={crop.id}
+                onClick={() => setCrops(selected ? crops.filter(c => c !== crop.id) : [...crops, crop.id])}
+                className={`px-3 py-1.5 rounded-full text-xs font-black border transition-colors ${selected ? 'bg-emerald-700 text-white border-emerald-700' : 'bg-stone-50 text-stone-600 border-stone-200'}`}
+              >
+                {localize(crop.name, lang)}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <button onClick={locate} className="flex items-center justify-center gap-1.5 px-3 py-2.5 bg-stone-50 border border-stone-200 rounded-xl text-xs font-black text-stone-700">
+          <Navigation size={14} /> {position ? `${position.latitude.toFixed(2)}, ${position.longitude.toFixed(2)}` : t.useMyLocation}
+        </button>
+        <select value={radiusKm} onChange={e => setRadiusKm(Number(e.target.value))} aria-label={t.alertRadius} className={selectClass}>
+          {ALERT_RADII_KM.map(km => <option key={km} value={km}>{km} km</option>)}
+        </select>
+      </div>
+
+      {error && <p className="text-xs font-bold text-red-600">{error}</p>}
+      {!error && delivery && <p className="text-xs font-bold text-stone-500">{delivery === 'push' ? t.alertsPush : t.alertsInApp}</p>}
+
+      <div className="flex gap-3">
+        <button
+          onClick={save}
+          disabled={busy || !position || crops.length === 0}
+          className="flex-1 px-4 py-2.5 bg-emerald-700 text-white rounded-xl text-sm font-black disabled:opacity-40 active:scale-95 transition-transform"
+        >
+          {t.subscribeAlerts}
+        </button>
+        {subscription && (
+          <button onClick={remove} disabled={busy} className="px-4 py-2.5 bg-stone-100 text-stone-600 rounded-xl text-sm font-black disabled:opacity-40">
+            {t.unsubscribeAlerts}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/** Line colours for the trend chart, in knowledge base order. */
+const DISEASE_COLORS = ['#b45309', '#15803d', '#1d4ed8', '#be123c', '#7c3aed', '#0f766e'];
+
+function diseaseColor(diseaseId: string): string {
+  const index = KnowledgeBase.all().findIndex(d => d.id === diseaseId);
+  return DISEASE_COLORS[(index < 0 ? KnowledgeBase.all().length : index) % DISEASE_COLORS.length];
+}
+
+function areaLevel(areaId: string): AreaLevel | undefined {
+  return BOUNDARIES.features.find(f => f.properties.id === areaId)?.properties.level;
+}
+
+/** Weekly cases in an area, of one disease or all of them. */
+function weeklyCases(area: AreaCases | undefined, diseaseId: string, weeks: number): number[] {
+  const series = Object.entries(area?.cases ?? {}).filter(([id]) => !diseaseId || id === diseaseId).map(([, counts]) => counts);
+  return Array.from({ length: weeks }, (_, i) => series.reduce((sum, counts) => sum + counts[i], 0));
+}
+
+const MAP_WIDTH = 320;
+
+function OutbreakMap({ report, level, diseaseId, selected, onSelect, lang, t }: { report: SurveillanceReport, level: AreaLevel, diseaseId: string, selected: string | null, onSelect: (areaId: string | null) => void, lang: Language, t: Translation }) {
+  const woredas = BOUNDARIES.features.filter(f => f.properties.level === 'woreda');
+  const areas = BOUNDARIES.features.filter(f => f.properties.level === level);
+  const box = boundingBox(woredas);
+  const height = viewHeight(box, MAP_WIDTH);
+  const active = new Set(activeOutbreaks(report).filter(o => !diseaseId || o.diseaseId === diseaseId).map(o => o.areaId));
+  const totals = new Map(areas.map(f => [
+    f.properties.id,
+    weeklyCases(report.areas.find(a => a.areaId === f.properties.id), diseaseId, report.weeks.length).reduce((a, b) => a + b, 0)
+  ]));
+  const max = Math.max(1, ...totals.values());
+  const selectedArea = areas.find(f => f.properties.id === selected);
+
+  const fill = (feature: AreaFeature) => {
+    const total = totals.get(feature.properties.id) ?? 0;
+    return total === 0 ? '#f5f5f4' : `rgba(220, 38, 38, ${(0.15 + 0.75 * total / max).toFixed(2)})`;
+  };
+
+  return (
+    <div className="bg-white rounded-3xl border border-stone-200 shadow-sm p-4 space-y-3">
+      <svg viewBox={`-4 -4 ${MAP_WIDTH + 8} ${height + 8}`} className="w-full h-auto" role="img" aria-label={t.dashboard}>
+        {level === 'kebele' && woredas.map(f => (
+          <path key={f.properties.id} d={areaPath(f, box, MAP_WIDTH)} fill="#fafaf9" stroke="#d6d3d1" strokeWidth={0.5} />
+        ))}
+        {areas.map(f => (
+          <path
+            key={f.properties.id}
+            d={areaPath(f, box, MAP_WIDTH)}
+            fill={fill(f)}
+            stroke={active.has(f.properties.id) ? '#b91c1c' : f.properties.id === selected ? '#047857' : '#a8a29e'}
+            strokeWidth={active.has(f.properties.id) || f.properties.id === selected ? 2 : 0.75}
+            className="cursor-pointer"
+            onClick={() => onSelect(f.properties.id === selected ? null : f.properties.id)}
+          >
+            <title>{localize(f.properties.name, lang)}</title>
+          </path>
+        ))}
+      </svg>
+      <p className="text-sm font-bold text-stone-700 flex items-center gap-2">
+        <MapPin size={16} className="text-emerald-600" />
+        {selectedArea ? localize(selectedArea.properties.name, lang) : t.allAreas}
+        <span className="text-stone-400 font-medium">
+          · {format(t.casesInPeriod, { count: selectedArea ? totals.get(selectedArea.properties.id) ?? 0 : [...totals.values()].reduce((a, b) => a + b, 0) })}
+        </span>
+      </p>
+    </div>
+  );
+}
+
+function TrendChart({ report, areaId, level, diseaseId, lang }: { report: SurveillanceReport, areaId: string | null, level: AreaLevel, diseaseId: string, lang: Language }) {
+  const width = 300;
+  const height = 120;
+  // Without a selected area, sum one level only so a case is not counted in its kebele and its woreda
+  const areas = areaId ? report.areas.filter(a => a.areaId === areaId) : report.areas.filter(a => areaLevel(a.areaId) === level);
+  const diseases = KnowledgeBase.all().map(d => d.id).filter(id => !diseaseId || id === diseaseId);
+  const series = diseases.map(id => ({
+    id,
+    counts: report.weeks.map((_, i) => areas.reduce((sum, area) => sum + (area.cases[id]?.[i] ?? 0), 0))
+  }));
+  const max = Math.max(1, ...series.flatMap(s => s.counts));
+  const x = (i: number) => (report.weeks.length > 1 ? (i / (report.weeks.length - 1)) * width : width / 2);
+  const y = (n: number) => height - (n / max) * height;
+
+  return (
+    <div className="space-y-3">
+      <svg viewBox={`-4 -4 ${width + 8} ${height + 8}`} className="w-full h-auto">
+        <line x1={0} y1={height} x2={width} y2={height} stroke="#e7e5e4" />
+        {series.map(s => (
+          <polyline
+            key={s.id}
+            points={s.counts.map((n, i) => `${x(i).toFixed(1)},${y(n).toFixed(1)}`).join(' ')}
+            fill="none"
+            stroke={diseaseColor(s.id)}
+            strokeWidth={2}
+            strokeLinejoin="round"
+          />
+        ))}
+      </svg>
+      <div className="flex justify-between text-[10px] font-bold text-stone-400">
+        <span>{report.weeks[0]}</span>
+        <span>{max}</span>
+        <span>{report.weeks[report.weeks.length - 1]}</span>
+      </div>
+      <div className="flex flex-wrap gap-3">
+        {series.map(s => {
+          const disease = KnowledgeBase.find(s.id);
+          return (
+            <span key={s.id} className="flex items-center gap-1.5 text-xs font-bold text-stone-600">
+              <span className="w-3 h-3 rounded-full" style={{ backgroundColor: diseaseColor(s.id) }}></span>
+              {disease ? localize(disease.name, lang) : s.id}
+            </span>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function OutbreakList({ report, level, lang, t }: { report: SurveillanceReport, level: AreaLevel, lang: Language, t: Translation }) {
+  const outbreaks = activeOutbreaks(report).filter(o => areaLevel(o.areaId) === level);
+  if (outbreaks.length === 0) return <p className="text-sm font-medium text-stone-500">{t.noOutbreaks}</p>;
+  return (
+    <ul className="space-y-2">
+      {outbreaks.map(o => {
+        const area = BOUNDARIES.features.find(f => f.properties.id === o.areaId);
+        const disease = KnowledgeBase.find(o.diseaseId);
+        return (
+          <li key={`${o.areaId}-${o.diseaseId}`} className="p-3 bg-red-50 rounded-xl border border-red-100">
+            <p className="font-black text-red-800">
+              {area ? localize(area.properties.name, lang) : o.areaId} · {disease ? localize(disease.name, lang) : o.diseaseId}
+            </p>
+            <p className="text-xs font-medium text-red-700">{format(t.outbreakDetail, { week: o.week, cases: o.cases, baseline: o.baseline })}</p>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+function SymptomOptionPicture({ option, size }: { option: SymptomOption, size: number }) {
+  if (option.image) return <img src={option.image} alt="" width={size} height={size} className="shrink-0" />;
+  if (option.color) return <span className="rounded-full border-2 border-stone-200 shrink-0" style={{ width: size * 0.6, height: size * 0.6, background: option.color }}></span>;
+  return null;
+}
+
+/**
+ * Asks about the signs on the leaf until one disease stands out. Options are
+ * tapped, or in voice mode read out one at a time as yes/no questions and
+ * answered aloud or with the Yes and No buttons.
+ */
+function SymptomQuestionnaire({ crop: initialCrop, prior, lang, t, onDone, onCancel }: {
+  crop?: string,
+  prior: Prediction[],
+  lang: Language,
+  t: Translation,
+  onDone: (crop: string | undefined, answers: SymptomAnswers, ranking: Prediction[]) => void,
+  onCancel: () => void
+}) {
+  const [crop, setCrop] = useState(initialCrop);
+  const [answers, setAnswers] = useState<SymptomAnswers>({});
+  const [voice, setVoice] = useState(() => AudioService.readAloud());
+  const [optionIndex, setOptionIndex] = useState(0);
+  const [listening, setListening] = useState(false);
+
+  const crops = KnowledgeBase.crops();
+  const needsCrop = !crop && crops.length > 1;
+  const ranking = rankCandidates(crop, answers, prior);
+  const question = needsCrop ? undefined : nextQuestion(crop, answers, prior);
+  const options = question ? optionsByLikelihood(question, ranking) : [];
+  const option = voice ? options[optionIndex] : undefined;
+
+  const answer = (optionId: string | null) => {
+    if (!question) return;
+    setAnswers(prev => ({ ...prev, [question.id]: optionId }));
+    setOptionIndex(0);
+  };
+
+  // Voice mode: an option is a yes/no question; after "no" to every option the question counts as not known
+  const answerYesNo = (yes: boolean) => {
+    if (!question || !option) return;
+    if (yes) answer(option.id);
+    else if (optionIndex + 1 < options.length) setOptionIndex(optionIndex + 1);
+    else answer(null);
+  };
+
+  // Whatever the previous screen was reading
+  useEffect(() => AudioService.stop(), []);
+
+  const finished = !needsCrop && !question;
+  useEffect(() => {
+    if (finished) onDone(crop, answers, ranking);
+  }, [finished]);
+
+  useEffect(() => {
+    if (!question || !option) return;
+    let cancelled = false;
+    AudioService.phraseTrack([{ path: `questions/${question.id}/${option.id}.mp3`, text: option.question }], lang)
+      .then(segments => AudioService.playThrough(`question-${question.id}-${option.id}`, segments))
+      .then(() => {
+        if (cancelled || !SpeechInput.supported()) return null;
+        setListening(true);
+        return SpeechInput.listenYesNo(lang, t);
+      })
+      .then(heard => {
+        if (cancelled) return;
+        setListening(false);
+        // Nothing understood: the farmer can still tap Yes or No
+        if (heard !== null) answerYesNo(heard);
+      });
+    return () => {
+      cancelled = true;
+      AudioService.stop();
+      SpeechInput.cancel();
+    };
+  }, [question?.id, option?.id, voice]);
+
+  return (
+    <div className="p-4 space-y-6">
+      <div className="flex items-center gap-3">
+        <button onClick={onCancel} className="p-2 -ml-2 text-stone-600 hover:bg-stone-100 rounded-full transition-colors">
+          <ChevronLeft size={24} />
+        </button>
+        <h2 className="text-2xl font-black text-stone-800">{t.symptomQuestionnaire}</h2>
+      </div>
+
+      {needsCrop && (
+        <div className="bg-white rounded-3xl p-6 border border-stone-200 shadow-sm space-y-4">
+          <h3 className="text-xl font-black text-stone-800">{t.whichCrop}</h3>
+          <div className="grid grid-cols-2 gap-3">
+            {crops.map(c => (
+              <button
+                key={c.id}
+                onClick={() => setCrop(c.id)}
+                className="flex items-center justify-center gap-2 p-5 bg-stone-50 rounded-2xl border-2 border-stone-200 font-black text-stone-700 hover:border-emerald-400 active:scale-95 transition-all"
+              >
+                <Sprout size={20} className="text-emerald-600" />
+                {localize(c.name, lang)}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {question && !voice && (
+        <div className="bg-white rounded-3xl p-6 border border-stone-200 shadow-sm space-y-4">
+          <h3 className="text-xl font-black text-stone-800">{localize(question.text, lang)}</h3>
+          <AudioControls
+            trackId={`question-${question.id}`}
+            load={() => AudioService.phraseTrack([
+              { path: `questions/${question.id}/question.mp3`, text: question.text },
+              ...question.options.map(o => ({ path: `questions/${question.id}/${o.id}/label.mp3`, text: o.label }))
+            ], lang)}
+            t={t}
+          />
+          <div className="grid grid-cols-2 gap-3">
+            {question.options.map(o => (
+              <button
+                key={o.id}
+                onClick={() => answer(o.id)}
+                className="flex flex-col items-center justify-center gap-2 p-4 bg-stone-50 rounded-2xl border-2 border-stone-200 hover:border-emerald-400 active:scale-95 transition-all"
+              >
+                <SymptomOptionPicture option={o} size={64} />
+                <span className="text-sm font-black text-stone-700 text-center">{localize(o.label, lang)}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {question && option && (
+        <div className="bg-white rounded-3xl p-6 border border-stone-200 shadow-sm space-y-5 text-center">
+          <div className="flex justify-center min-h-24 items-center">
+            <SymptomOptionPicture option={option} size={96} />
+          </div>
+          <h3 className="text-xl font-black text-stone-800">{localize(option.question, lang)}</h3>
+          {listening && (
+            <p className="flex items-center justify-center gap-2 text-sm font-black text-emerald-700">
+              <Mic size={18} className="animate-pulse" /> {t.listening}
+            </p>
+          )}
+          <div className="grid grid-cols-2 gap-3">
+            <button onClick={() => answerYesNo(true)} className="py-5 bg-emerald-700 text-white rounded-2xl font-black text-xl shadow-sm active:scale-95 transition-transform">
+              {t.yes}
+            </button>
+            <button onClick={() => answerYesNo(false)} className="py-5 bg-stone-200 text-stone-800 rounded-2xl font-black text-xl shadow-sm active:scale-95 transition-transform">
+              {t.no}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {question && (
+        <div className="grid grid-cols-2 gap-3">
+          <button onClick={() => answer(null)} className="py-3 bg-white border border-stone-200 rounded-2xl text-sm font-bold text-stone-600 active:scale-95 transition-transform">
+            {t.notSure}
+          </button>
+          <button
+            onClick={() => { setVoice(!voice); setOptionIndex(0); }}
+            className={`flex items-center justify-center gap-2 py-3 border rounded-2xl text-sm font-bold active:scale-95 transition-all ${voice ? 'bg-emerald-50 border-emerald-300 text-emerald-800' : 'bg-white border-stone-200 text-stone-600'}`}
+          >
+            <Mic size={16} /> {t.answerByVoice}
+          </button>
+        </div>
+      )}
+
+      {Object.keys(answers).length > 0 && question && (
+        <button
+          onClick={() => onDone(crop, answers, ranking)}
+          className="w-full bg-emerald-700 text-white font-black py-4 rounded-3xl shadow-xl hover:bg-emerald-800 active:scale-[0.98] transition-all"
+        >
+          {t.seeResult}
+        </button>
+      )}
+    </div>
+  );
+}
+
+const OUTCOME_KEYS: Record<OutcomeResult, keyof Translation> = {
+  cured: 'outcomeCured',
+  improved: 'outcomeImproved',
+  unchanged: 'outcomeUnchanged',
+  worse: 'outcomeWorse'
+};
+
+/** Severity and confidence of a case's scans, oldest on the left. */
+function ProgressChart({ scans, t }: { scans: HistoryItem[], t: Translation }) {
+  const width = 300;
+  const height = 100;
+  const x = (i: number) => (scans.length > 1 ? (i / (scans.length - 1)) * width : width / 2);
+  const y = (percent: number) => height - (percent / 100) * height;
+  const series = [
+    { label: t.severity, color: '#dc2626', values: scans.map(s => s.severity) },
+    { label: t.confidence, color: '#059669', values: scans.map(s => s.confidence) }
+  ];
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`-4 -4 ${width + 8} ${height + 8}`} className="w-full h-auto">
+        <line x1={0} y1={height} x2={width} y2={height} stroke="#e7e5e4" />
+        {series.map(({ label, color, values }) => {
+          const points = values.flatMap((v, i) => (v === undefined ? [] : [[x(i), y(v)]]));
+          return (
+            <g key={label}>
+              <polyline points={points.map(([px, py]) => `${px.toFixed(1)},${py.toFixed(1)}`).join(' ')} fill="none" stroke={color} strokeWidth={2} strokeLinejoin="round" />
+              {points.map(([px, py]) => <circle key={px} cx={px} cy={py} r={2.5} fill={color} />)}
+            </g>
+          );
+        })}
+      </svg>
+      <div className="flex gap-4 text-[10px] font-black uppercase tracking-widest">
+        {series.map(({ label, color }) => (
+          <span key={label} className="flex items-center gap-1.5" style={{ color }}>
+            <span className="w-3 h-0.5 rounded-full" style={{ background: color }}></span> {label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/** The scans of a case side by side, how they changed, and whether the treatment worked. */
+function CaseTimeline({ scanCase, currentId, onOpen, onAddScan, onOutcome, t }: {
+  scanCase: ScanCase,
+  currentId: string | null,
+  onOpen: (item: HistoryItem) => void,
+  onAddScan: () => void,
+  onOutcome: (result: OutcomeResult) => void,
+  t: Translation
+}) {
+  return (
+    <div className="bg-white rounded-3xl p-6 border border-stone-200 shadow-sm space-y-5">
+      <h3 className="font-black text-sm text-stone-800 uppercase tracking-widest flex items-center gap-2">
+        <TrendingUp size={18} className="text-emerald-600" /> {t.progress}
+      </h3>
+
+      <div className="flex gap-3 overflow-x-auto pb-1">
+        {scanCase.scans.map(scan => (
+          <button
+            key={scan.id}
+            onClick={() => onOpen(scan)}
+            className={`shrink-0 p-1.5 rounded-2xl border-2 text-left transition-colors ${scan.id === currentId ? 'border-emerald-500 bg-emerald-50' : 'border-transparent'}`}
+          >
+            <HistoryThumbnail blob={scan.thumbnail} />
+            <p className="mt-1 text-[10px] font-bold text-stone-500">{scanDate(scan)}</p>
+            {scan.severity !== undefined && <p className="text-[10px] font-black text-red-600">{scan.severity}%</p>}
+          </button>
+        ))}
+      </div>
+
+      {scanCase.scans.length > 1 && <ProgressChart scans={scanCase.scans} t={t} />}
+
+      <div className="space-y-2">
+        <p className="text-sm font-black text-stone-700">{t.outcomeQuestion}</p>
+        <div className="grid grid-cols-4 gap-2">
+          {OUTCOME_RESULTS.map(result => (
+            <button
+              key={result}
+              onClick={() => onOutcome(result)}
+              className={`py-2 rounded-xl text-xs font-black border transition-colors ${scanCase.outcome?.result === result ? 'bg-emerald-700 border-emerald-700 text-white' : 'bg-stone-50 border-stone-200 text-stone-600'}`}
+            >
+              {t[OUTCOME_KEYS[result]]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!scanCase.outcome && (
+        <button onClick={onAddScan} className="w-full flex items-center justify-center gap-2 py-3 bg-stone-100 text-stone-700 rounded-2xl text-sm font-black active:scale-[0.98] transition-transform">
+          <Camera size={16} /> {t.addScan}
+        </button>
+      )}
+    </div>
+  );
+}
+
+function CaseRow({ scanCase, fields, lang, onOpen, t }: { scanCase: ScanCase, fields: Fields, lang: Language, onOpen: () => void, t: Translation }) {
+  const disease = KnowledgeBase.find(scanCase.diseaseId);
+  const latest = scanCase.scans[scanCase.scans.length - 1];
+  return (
+    <button
+      onClick={onOpen}
+      className="w-full bg-white p-3 rounded-2xl border border-stone-200 space-y-2 hover:shadow-md active:scale-[0.99] transition-all text-left"
+    >
+      <div className="flex items-center justify-between gap-2">
+        <h4 className="font-black text-stone-800 truncate">
+          {(disease && localize(disease.name, lang)) || statusMessage(latest.status, t).title}
+        </h4>
+        {scanCase.outcome && (
+          <span className="shrink-0 px-2 py-1 bg-emerald-100 text-emerald-800 rounded-lg text-[10px] font-black uppercase">
+            {t[OUTCOME_KEYS[scanCase.outcome.result]]}
+          </span>
+        )}
+      </div>
+      <div className="flex gap-2">
+        {scanCase.scans.slice(-4).map(scan => <HistoryThumbnail key={scan.id} blob={scan.thumbnail} />)}
+      </div>
+      <p className="text-xs font-medium text-stone-500 truncate">
+        {[scanCase.plotId && plotPath(fields, scanCase.plotId), format(t.scanCount, { n: scanCase.scans.length }), `${scanDate(scanCase.scans[0])} – ${scanDate(latest)}`].filter(Boolean).join(' · ')}
+      </p>
+    </button>
+  );
+}
+
+/** A scan on paper for the woreda office: photo, diagnosis and treatment, hidden on screen. */
+function ScanReport({ item, image, disease, plan, fields, lang, t }: {
+  item: HistoryItem,
+  image: string | null,
+  disease: Disease | null,
+  plan?: TreatmentPlan,
+  fields: Fields,
+  lang: Language,
+  t: Translation
+}) {
+  const facts = [
+    [t.reportDate, new Date(scanTime(item)).toLocaleString()],
+    [t.crop, item.crop && KnowledgeBase.cropName(item.crop, lang)],
+    [t.confidence, item.confidence !== undefined ? `${item.confidence}%` : undefined],
+    [t.severity, item.severity !== undefined ? `${item.severity}%` : undefined]
+  ].filter((fact): fact is [string, string] => !!fact[1]);
+
+  return (
+    <div className="hidden print:block p-8 space-y-6 text-stone-900">
+      <div className="flex items-baseline justify-between border-b-2 border-emerald-700 pb-2">
+        <h1 className="text-2xl font-black text-emerald-800">{t.appName}</h1>
+        <p className="text-sm font-bold text-stone-500">{t.scanReport}</p>
+      </div>
+
+      <div className="flex gap-6 break-inside-avoid">
+        {image && <img src={image} alt="" className="w-56 h-56 object-cover rounded-2xl" />}
+        <div className="flex-1 space-y-3">
+          <h2 className="text-2xl font-black">
+            {(disease && localize(disease.name, lang)) || statusMessage(item.status, t).title}
+          </h2>
+          {disease?.pathogen && <p className="text-sm italic text-stone-500">{disease.pathogen}</p>}
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+            {facts.map(([label, value]) => (
+              <React.Fragment key={label}>
+                <dt className="font-bold text-stone-500">{label}</dt>
+                <dd className="font-black">{value}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+          <ScanTags item={item} fields={fields} t={t} />
+        </div>
+      </div>
+
+      {disease && <DiseaseSections disease={disease} lang={lang} t={t} symptomsTitle={t.symptoms} />}
+
+      {plan && (
+        <div className="space-y-2 break-inside-avoid">
+          <h3 className="font-black text-sm uppercase tracking-widest">{t.treatmentPlan}</h3>
+          <ul className="text-sm space-y-1">
+            {plan.tasks.map(task => (
+              <li key={task.id} className="flex gap-3">
+                <span className="font-bold w-28 shrink-0">{new Date(task.dueAt).toLocaleDateString()}</span>
+                <span className={task.doneAt ? 'line-through text-stone-400' : ''}>{task.title}</span>
+              </li>
+            ))}
+          </ul>
+          {plan.harvestAfter && <p className="text-sm font-bold text-amber-700">{format(t.harvestAfter, { date: new Date(plan.harvestAfter).toLocaleDateString() })}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CameraInterface({ onCapture, onBack, onQuestionnaire, t }: { onCapture: (img: string, location?: GeoFix) => void, onBack: () => void, onQuestionnaire: () => void, t: Translation }) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [cameraFailed, setCameraFailed] = useState(false);
+  const gpsRef = useRef<ReturnType<typeof LocationService.watch> | null>(null);
+
+  // Start the GPS while the agent frames the leaf so a fix is ready on capture
+  useEffect(() => {
+    gpsRef.current = LocationService.watch();
+    return () => gpsRef.current?.stop();
+  }, []);
+
+  useEffect(() => {
+    async function setupCamera() {
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({ 
+          video: { facingMode: 'environment' }, 
+          audio: false 
+        });
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+        }
+      } catch (err) {
+        console.error("Camera access denied:", err);
+        setCameraFailed(true);
+      }
+    }
+    setupCamera();
+    return () => {
+      const stream = videoRef.current?.srcObject as MediaStream;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  const takePhoto = () => {
+    if (videoRef.current) {
+      // Keep only what is inside the on-screen framing guide
+      const framed = crop(videoRef.current, guideRegion(videoRef.current));
+      onCapture(framed.toDataURL('image/jpeg'), gpsRef.current?.latest());
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black z-[60] flex flex-col">
+      <div className="flex-1 relative flex items-center justify-center">
+        <video 
+          ref={videoRef} 
+          autoPlay 
+          playsInline 
+          className="w-full h-full object-cover"
+        />
+        {/* Overlay Guide */}
+        {/* Border width must match GUIDE_INSET in imagePreprocessor.ts */}
+        <div className="absolute inset-0 border-[60px] border-black/60 pointer-events-none">
+          <div className="w-full h-full border-2 border-white/40 rounded-[3rem] relative">
+            <div className="absolute top-0 left-0 w-8 h-8 border-t-4 border-l-4 border-emerald-400 -mt-1 -ml-1 rounded-tl-xl"></div>
+            <div className="absolute top-0 right-0 w-8 h-8 border-t-4 border-r-4 border-emerald-400 -mt-1 -mr-1 rounded-tr-xl"></div>
+            <div className="absolute bottom-0 left-0 w-8 h-8 border-b-4 border-l-4 border-emerald-400 -mb-1 -ml-1 rounded-bl-xl"></div>
+            <div className="absolute bottom-0 right-0 w-8 h-8 border-b-4 border-r-4 border-emerald-400 -mb-1 -mr-1 rounded-br-xl"></div>
+          </div>
+        </div>
+        {/* Without a camera the questionnaire is the way to a diagnosis */}
+        {cameraFailed && (
+          <div className="absolute inset-0 bg-black flex flex-col items-center justify-center gap-5 p-8 text-center text-white">
+            <CameraOff size={56} className="text-stone-400" />
+            <p className="font-black text-xl">{t.cameraUnavailable}</p>
+            <button
+              onClick={onQuestionnaire}
+              className="flex items-center gap-2 px-6 py-4 bg-emerald-600 rounded-2xl font-black shadow-xl active:scale-95 transition-transform"
+            >
+              <ListChecks size={22} /> {t.answerQuestions}
+            </button>
+          </div>
+        )}
       </div>
       
       <div className="bg-black p-10 flex items-center justify-between">
@@ -627,13 +3405,13 @@ function CameraInterface({ onCapture, onBack }: { onCapture: (img: string) => vo
         </button>
         <button 
           onClick={takePhoto}
+          disabled={cameraFailed}
           className="w-24 h-24 bg-white rounded-full border-[10px] border-stone-900 flex items-center justify-center active:scale-90 transition-transform shadow-2xl"
         >
           <div className="w-16 h-16 bg-emerald-600 rounded-full"></div>
         </button>
         <div className="w-12"></div> {/* Spacer */}
       </div>
-      <canvas ref={canvasRef} className="hidden" />
     </div>
   );
 }
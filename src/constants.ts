@@ -1,5 +1,8 @@
 
-export type Language = 'am' | 'en';
+export type Language = 'am' | 'en' | 'om' | 'ti' | 'so';
+
+/** Languages whose translations are bundled complete; every other language falls back to them. */
+export type BaseLanguage = 'am' | 'en';
 
 export interface Translation {
   appName: string;
@@ -22,9 +25,205 @@ export interface Translation {
   gashaMeaning: string;
   languageSelect: string;
   saveSuccess: string;
+  uncertain: string;
+  retakeHint: string;
+  retakePhoto: string;
+  otherPossibilities: string;
+  healthy: string;
+  healthyHint: string;
+  modelUnavailable: string;
+  modelUnavailableHint: string;
+  imageInvalid: string;
+  imageInvalidHint: string;
+  offlineReady: string;
+  storageFull: string;
+  saveFailed: string;
+  storageUsage: string;
+  retakeNeeded: string;
+  tooSmallHint: string;
+  tooDarkHint: string;
+  overexposedHint: string;
+  blurryHint: string;
+  affectedAreas: string;
+  severity: string;
+  organicOptions: string;
+  approvedChemicals: string;
+  preHarvestInterval: string;
+  days: string;
+  library: string;
+  searchDiseases: string;
+  noResults: string;
+  symptoms: string;
+  severityStages: string;
+  foundIn: string;
+  missingTranslations: string;
+  adviceUnavailable: string;
+  adviceRateLimited: string;
+  adviceLoading: string;
+  chemicalOptions: string;
+  whenToCallAgent: string;
+  askAssistant: string;
+  chatPlaceholder: string;
+  chatQueued: string;
+  chatFailed: string;
+  secondOpinion: string;
+  onDeviceOpinion: string;
+  geminiOpinion: string;
+  opinionsAgree: string;
+  opinionsDisagree: string;
+  opinionInconclusive: string;
+  fields: string;
+  scanningFor: string;
+  noPlotSelected: string;
+  farmerName: string;
+  village: string;
+  farmName: string;
+  plotName: string;
+  crop: string;
+  variety: string;
+  growthStage: string;
+  addFarmer: string;
+  addFarm: string;
+  addPlot: string;
+  noFarmers: string;
+  stageSeedling: string;
+  stageVegetative: string;
+  stageFlowering: string;
+  stageFruiting: string;
+  stageMature: string;
+  allFarmers: string;
+  allFarms: string;
+  allPlots: string;
+  allStages: string;
+  noMatchingScans: string;
+  gpsTagging: string;
+  gpsTaggingHint: string;
+  sync: string;
+  syncHint: string;
+  syncServer: string;
+  syncToken: string;
+  syncNow: string;
+  syncNever: string;
+  syncLast: string;
+  syncInProgress: string;
+  syncOffline: string;
+  syncFailed: string;
+  syncPendingImages: string;
+  dashboard: string;
+  dashboardHint: string;
+  woreda: string;
+  kebele: string;
+  allDiseases: string;
+  casesInPeriod: string;
+  lastWeeks: string;
+  weeklyTrend: string;
+  outbreaks: string;
+  noOutbreaks: string;
+  outbreakDetail: string;
+  dashboardStale: string;
+  noSurveillanceData: string;
+  unmappedCases: string;
+  allAreas: string;
+  alertTitle: string;
+  alertBody: string;
+  alerts: string;
+  alertsHint: string;
+  alertCrops: string;
+  alertRadius: string;
+  useMyLocation: string;
+  locationUnavailable: string;
+  subscribeAlerts: string;
+  unsubscribeAlerts: string;
+  alertsPush: string;
+  alertsInApp: string;
+  alertsFailed: string;
+  nearbyOutbreaks: string;
+  openInLibrary: string;
+  weather: string;
+  weatherTap: string;
+  weatherClear: string;
+  weatherPartlyCloudy: string;
+  weatherCloudy: string;
+  weatherFog: string;
+  weatherRain: string;
+  weatherStorm: string;
+  humidity: string;
+  diseaseRisk: string;
+  riskLow: string;
+  riskModerate: string;
+  riskHigh: string;
+  riskReason: string;
+  noDiseaseRisk: string;
+  forecastFrom: string;
+  marketPrices: string;
+  marketPricesHint: string;
+  pricesUpdated: string;
+  pricesStale: string;
+  noPrices: string;
+  priceHistory: string;
+  pricePerUnit: string;
+  listen: string;
+  pause: string;
+  noAudio: string;
+  readAloud: string;
+  readAloudHint: string;
+  symptomQuestionnaire: string;
+  symptomQuestionnaireHint: string;
+  cameraUnavailable: string;
+  answerQuestions: string;
+  refineWithQuestions: string;
+  whichCrop: string;
+  answerByVoice: string;
+  listening: string;
+  yes: string;
+  no: string;
+  notSure: string;
+  yesWords: string;
+  noWords: string;
+  basedOnAnswers: string;
+  seeResult: string;
+  treatmentPlan: string;
+  treatmentPlanHint: string;
+  startTreatmentPlan: string;
+  noSpray: string;
+  taskSpray: string;
+  taskSprayRepeat: string;
+  taskRescan: string;
+  markDone: string;
+  overdue: string;
+  scanNow: string;
+  harvestAfter: string;
+  stopPlan: string;
+  treatmentTasks: string;
+  remindersOff: string;
+  cases: string;
+  scans: string;
+  progress: string;
+  scanCount: string;
+  addScan: string;
+  outcomeQuestion: string;
+  outcomeCured: string;
+  outcomeImproved: string;
+  outcomeUnchanged: string;
+  outcomeWorse: string;
+  exportCases: string;
+  exportImport: string;
+  exportImportHint: string;
+  exportCsv: string;
+  exportJson: string;
+  exportZip: string;
+  importHistory: string;
+  importResult: string;
+  importFailed: string;
+  printReport: string;
+  scanReport: string;
+  reportDate: string;
 }
 
-export const translations: Record<Language, Translation> = {
+/** A lazily loaded locale; keys it lacks are taken from its fallback languages. */
+export type TranslationBundle = Partial<Translation>;
+
+export const translations: Record<BaseLanguage, Translation> = {
   am: {
     appName: "AgriGasha AI",
     tagline: "የእርሻ ጋሻ – ምርትዎን ይጠብቁ",
@@ -45,7 +244,200 @@ export const translations: Record<Language, Translation> = {
     aboutContent: "አግሪጋሻ AI በኢትዮጵያ የሚገኙ አነስተኛ አምራች አርሶ አደሮች የሰብል በሽታዎችን እንዲለዩና ተገቢውን ሕክምና እንዲያገኙ የሚረዳ መተግበሪያ ነው።",
     gashaMeaning: "ጋሻ ማለት በባህላዊ የኢትዮጵያ የመከላከያ መሣሪያ ሲሆን፣ ይህ መተግበሪያም ለሰብልዎ እንደ ጋሻ ሆኖ ያገለግላል።",
     languageSelect: "ቋንቋ ይምረጡ",
-    saveSuccess: "በታሪክ ውስጥ ተቀምጧል"
+    saveSuccess: "በታሪክ ውስጥ ተቀምጧል",
+    uncertain: "ውጤቱ እርግጠኛ አይደለም",
+    retakeHint: "ፎቶው ለምርመራ በቂ ግልጽ አይደለም። እባክዎ በጥሩ ብርሃን ወደ ተጎዳው ቅጠል ቀርበው እንደገና ያንሱ።",
+    retakePhoto: "እንደገና ፎቶ አንሳ",
+    otherPossibilities: "ሌሎች ሊሆኑ የሚችሉ በሽታዎች",
+    healthy: "ጤናማ ተክል",
+    healthyHint: "በዚህ ቅጠል ላይ ምንም በሽታ አልተገኘም። ሰብልዎን መከታተልዎን ይቀጥሉ።",
+    modelUnavailable: "የምርመራ ሞዴሉ አይገኝም",
+    modelUnavailableHint: "በስልኩ ላይ ያለው ሞዴል መጫን አልቻለም። ምንም ምርመራ አልተደረገም። እባክዎ ቆይተው እንደገና ይሞክሩ።",
+    imageInvalid: "ምስሉ ሊነበብ አልቻለም",
+    imageInvalidHint: "ይህ ፋይል የሚነበብ ፎቶ አይደለም። እባክዎ አዲስ ፎቶ ያንሱ ወይም ይጫኑ።",
+    offlineReady: "ያለ ኢንተርኔት ለመጠቀም ዝግጁ",
+    storageFull: "የስልኩ ማከማቻ ሞልቷል። ይህ ምርመራ በታሪክ ውስጥ አልተቀመጠም።",
+    saveFailed: "ይህ ምርመራ በታሪክ ውስጥ ሊቀመጥ አልቻለም።",
+    storageUsage: "የማከማቻ አጠቃቀም",
+    retakeNeeded: "እባክዎ ፎቶውን እንደገና ያንሱ",
+    tooSmallHint: "ፎቶው በጣም ትንሽ ነው። ወደ ቅጠሉ ቀርበው ያንሱ።",
+    tooDarkHint: "ፎቶው በጣም ጨለማ ነው። በቀን ብርሃን ወይም በተሻለ ብርሃን ያንሱ።",
+    overexposedHint: "ፎቶው በጣም ደማቅ ነው። ቅጠሉን ከቀጥታ የፀሐይ ብርሃን ወደ ጥላ ያዙሩ።",
+    blurryHint: "ፎቶው ደብዛዛ ነው። ስልኩን ሳያንቀሳቅሱ ይያዙ እና እንደገና ያንሱ።",
+    affectedAreas: "የተጎዱ ቦታዎች",
+    severity: "የተጎዳ የቅጠል ክፍል",
+    organicOptions: "ኦርጋኒክ አማራጮች",
+    approvedChemicals: "የተፈቀዱ ኬሚካሎች",
+    preHarvestInterval: "ከምርት መሰብሰብ በፊት መቆየት ያለበት",
+    days: "ቀናት",
+    library: "የበሽታዎች ማውጫ",
+    searchDiseases: "በሽታ ወይም ምልክት ይፈልጉ",
+    noResults: "የሚዛመድ በሽታ አልተገኘም",
+    symptoms: "ምልክቶች",
+    severityStages: "የጉዳት ደረጃዎች",
+    foundIn: "የሚገኝበት አካባቢ",
+    missingTranslations: "{count} ጽሑፎች ገና አልተተረጎሙም፤ በ{fallback} ይታያሉ።",
+    adviceUnavailable: "በአሁኑ ጊዜ የባለሙያ ምክር ማግኘት አልተቻለም።",
+    adviceRateLimited: "ዛሬ ብዙ ምክሮችን ጠይቀዋል። እባክዎ ነገ እንደገና ይሞክሩ።",
+    adviceLoading: "ባለሙያውን በመጠየቅ ላይ...",
+    chemicalOptions: "የኬሚካል አማራጮች",
+    whenToCallAgent: "የግብርና ባለሙያ መቼ መጥራት እንዳለብዎ",
+    askAssistant: "ተጨማሪ ጥያቄ ይጠይቁ",
+    chatPlaceholder: "ለምሳሌ፦ ቡናውን አሁንም መሸጥ እችላለሁ?",
+    chatQueued: "ኢንተርኔት ሲገኝ ይላካል",
+    chatFailed: "መልስ ማግኘት አልተቻለም። ጥያቄዎ ተቀምጧል፤ እንደገና ይሞከራል።",
+    secondOpinion: "ሁለተኛ አስተያየት",
+    onDeviceOpinion: "በስልኩ",
+    geminiOpinion: "Gemini (በኢንተርኔት)",
+    opinionsAgree: "ሁለቱም ምርመራዎች ይስማማሉ።",
+    opinionsDisagree: "ሁለቱ ምርመራዎች አይስማሙም። ምልክቶቹን በበሽታዎች ማውጫ ያነጻጽሩ ወይም የግብርና ባለሙያ ይጠይቁ።",
+    opinionInconclusive: "ሁለተኛው አስተያየት ምርመራውን ማረጋገጥ አልቻለም።",
+    fields: "እርሻና ማሳዎች",
+    scanningFor: "የሚመረመረው ማሳ",
+    noPlotSelected: "ማሳ አልተመረጠም",
+    farmerName: "የአርሶ አደሩ ስም",
+    village: "ቀበሌ",
+    farmName: "የእርሻ ስም",
+    plotName: "የማሳ ስም",
+    crop: "ሰብል",
+    variety: "ዝርያ",
+    growthStage: "የእድገት ደረጃ",
+    addFarmer: "አርሶ አደር ጨምር",
+    addFarm: "እርሻ ጨምር",
+    addPlot: "ማሳ ጨምር",
+    noFarmers: "እስካሁን አርሶ አደር የለም። ምርመራዎችን ለመለየት የመጀመሪያውን ይጨምሩ።",
+    stageSeedling: "ችግኝ",
+    stageVegetative: "ቅጠል ማውጫ",
+    stageFlowering: "አበባ",
+    stageFruiting: "ፍሬ",
+    stageMature: "የደረሰ",
+    allFarmers: "ሁሉም አርሶ አደሮች",
+    allFarms: "ሁሉም እርሻዎች",
+    allPlots: "ሁሉም ማሳዎች",
+    allStages: "ሁሉም ደረጃዎች",
+    noMatchingScans: "ከማጣሪያዎቹ ጋር የሚስማማ ምርመራ የለም",
+    gpsTagging: "ምርመራዎችን በጂፒኤስ ቦታ መለየት",
+    gpsTaggingHint: "ቦታው በካሜራ ከሚነሳ እያንዳንዱ ፎቶ ጋር ይቀመጣል። ያለ ኢንተርኔት ይሰራል።",
+    sync: "ከማኅበሩ ሰርቨር ጋር ማመሳሰል",
+    syncHint: "ምርመራዎች፣ ፎቶዎችና ማሳዎች ወደ ማኅበሩ ሰርቨር ይላካሉ፣ ከሌሎች ስልኮችም ይቀበላሉ። ኢንተርኔት ሲገኝ በራሱ ይሞከራል።",
+    syncServer: "የሰርቨር አድራሻ",
+    syncToken: "የማኅበሩ የይለፍ ቃል",
+    syncNow: "አሁን አመሳስል",
+    syncNever: "ገና አልተመሳሰለም",
+    syncLast: "መጨረሻ የተመሳሰለው፦ {time}",
+    syncInProgress: "በማመሳሰል ላይ...",
+    syncOffline: "ኢንተርኔት የለም። ሲገኝ ይመሳሰላል።",
+    syncFailed: "ማመሳሰል አልተሳካም። እንደገና ይሞከራል።",
+    syncPendingImages: "{count} ፎቶዎች በመጠባበቅ ላይ",
+    dashboard: "የበሽታ ክትትል ሰሌዳ",
+    dashboardHint: "በወረዳና በቀበሌ የተመዘገቡ፣ ቦታቸው የታወቀ ምርመራዎች ብዛት። የገበሬዎች ማንነት አይታይም።",
+    woreda: "ወረዳ",
+    kebele: "ቀበሌ",
+    allDiseases: "ሁሉም በሽታዎች",
+    casesInPeriod: "በዚህ ጊዜ ውስጥ {count} ጉዳዮች",
+    lastWeeks: "ያለፉት {count} ሳምንታት",
+    weeklyTrend: "ሳምንታዊ አዝማሚያ",
+    outbreaks: "የወረርሽኝ ማስጠንቀቂያዎች",
+    noOutbreaks: "በዚህ ሳምንት የወረርሽኝ ማስጠንቀቂያ የለም",
+    outbreakDetail: "የ{week} ሳምንት፦ {cases} ጉዳዮች (የተለመደው {baseline})",
+    dashboardStale: "ሰርቨሩ አልተገኘም። ከ{time} የተቀመጠ መረጃ እየታየ ነው።",
+    noSurveillanceData: "እስካሁን ቦታቸው የታወቀ ምርመራዎች የሉም።",
+    unmappedCases: "{count} ምርመራዎች ከካርታው አካባቢዎች ውጭ ናቸው።",
+    allAreas: "ሁሉም አካባቢዎች",
+    alertTitle: "{disease} በአቅራቢያዎ ተገኝቷል",
+    alertBody: "ባለፉት {days} ቀናት በ{distance} ኪ.ሜ ውስጥ {count} ጉዳዮች ተመዝግበዋል። የመከላከያ ምክሮችን ለማየት ይንኩ።",
+    alerts: "በአቅራቢያ ያሉ የወረርሽኝ ማስጠንቀቂያዎች",
+    alertsHint: "በአቅራቢያዎ የሰብልዎ በሽታ ሲበዛ ማሳወቂያ ይደርስዎታል።",
+    alertCrops: "የሚያመርቷቸው ሰብሎች",
+    alertRadius: "ርቀት",
+    useMyLocation: "የአሁኑን ቦታዬን ተጠቀም",
+    locationUnavailable: "ቦታዎን ማግኘት አልተቻለም። ጂፒኤስ መብራቱን ያረጋግጡ።",
+    subscribeAlerts: "ማስጠንቀቂያ አብራ",
+    unsubscribeAlerts: "ማስጠንቀቂያ አጥፋ",
+    alertsPush: "ስልክዎ ላይ ማሳወቂያ ይደርስዎታል።",
+    alertsInApp: "መተግበሪያው ሲከፈትና ኢንተርኔት ሲኖር ማስጠንቀቂያ ይታያል።",
+    alertsFailed: "ማስጠንቀቂያውን ማስቀመጥ አልተቻለም። ኢንተርኔት ሲኖር እንደገና ይሞክሩ።",
+    nearbyOutbreaks: "በአቅራቢያ ያሉ ወረርሽኞች",
+    openInLibrary: "በቤተ-መጽሐፍት ክፈት",
+    weather: "የአየር ሁኔታ",
+    weatherTap: "የአካባቢዎን የአየር ሁኔታ ለማየት ይንኩ",
+    weatherClear: "ፀሐያማ",
+    weatherPartlyCloudy: "ከፊል ደመናማ",
+    weatherCloudy: "ደመናማ",
+    weatherFog: "ጭጋጋማ",
+    weatherRain: "ዝናባማ",
+    weatherStorm: "ነጎድጓድ",
+    humidity: "እርጥበት {value}%",
+    diseaseRisk: "የበሽታ ስጋት",
+    riskLow: "ዝቅተኛ",
+    riskModerate: "መካከለኛ",
+    riskHigh: "ከፍተኛ",
+    riskReason: "ካለፈው ሳምንትና ከሚቀጥሉት 3 ቀናት ውስጥ {count} ቀናት ለዚህ በሽታ ምቹ ናቸው።",
+    noDiseaseRisk: "አሁን ያለው የአየር ሁኔታ ለሰብሎችዎ በሽታዎች ምቹ አይደለም።",
+    forecastFrom: "የ{time} ትንበያ",
+    marketPrices: "የገበያ ዋጋ",
+    marketPricesHint: "በኅብረት ሥራ ማኅበርዎ የታተሙ የሰብል ዋጋዎች። ለመድኃኒት ከማውጣትዎ በፊት የሰብልዎን ዋጋ ያወዳድሩ።",
+    pricesUpdated: "የዘመነው {time}",
+    pricesStale: "ከመስመር ውጪ ነዎት። የ{time} ዋጋዎች እየታዩ ነው።",
+    noPrices: "ለዚህ ሰብል እስካሁን ዋጋ አልታተመም።",
+    priceHistory: "የዋጋ ታሪክ",
+    pricePerUnit: "{price} ብር/{unit}",
+    listen: "ያዳምጡ",
+    pause: "ለአፍታ አቁም",
+    noAudio: "በዚህ ቋንቋ እስካሁን ድምፅ የለም።",
+    readAloud: "ገጾችን ጮክ ብለህ አንብብ",
+    readAloudHint: "እያንዳንዱን ገጽና የበሽታ ምክሩን በድምፅ ያነባል፤ ማዳመጥ ለሚመርጡ ገበሬዎች።",
+    symptomQuestionnaire: "ፎቶ ሳይኖር በጥያቄ ይመርምሩ",
+    symptomQuestionnaireHint: "ካሜራ የለም? በቅጠሉ ላይ የሚያዩትን ይንገሩን።",
+    cameraUnavailable: "ካሜራውን መክፈት አልተቻለም።",
+    answerQuestions: "ጥያቄዎችን ይመልሱ",
+    refineWithQuestions: "እርግጠኛ አይደለም? ስለ ቅጠሉ ጥቂት ጥያቄዎችን ይመልሱ።",
+    whichCrop: "የትኛው ሰብል ነው?",
+    answerByVoice: "በድምፅ ይመልሱ",
+    listening: "እያዳመጥኩ ነው…",
+    yes: "አዎ",
+    no: "አይ",
+    notSure: "አላውቅም",
+    yesWords: "አዎ,አዎን,እሺ,ልክ",
+    noWords: "አይ,አይደለም,የለም,አይደሉም",
+    basedOnAnswers: "በመልሶችዎ ላይ የተመሠረተ",
+    seeResult: "ውጤቱን ይመልከቱ",
+    treatmentPlan: "የሕክምና ዕቅድ",
+    treatmentPlanHint: "ለእያንዳንዱ ርጭትና ለማረጋገጫ ቅኝት ቀን ያለው ማስታወሻ፤ ያለ ኢንተርኔትም ይሠራል።",
+    startTreatmentPlan: "ዕቅድ ጀምር",
+    noSpray: "ርጭት የለም (የተፈጥሮ ዘዴዎች)",
+    taskSpray: "{product} ይርጩ",
+    taskSprayRepeat: "{product} ይርጩ ({n} ከ{total})",
+    taskRescan: "{disease} መዳኑን ለማረጋገጥ ማሳውን እንደገና ይቃኙ",
+    markDone: "ተከናውኗል",
+    overdue: "ጊዜው አልፏል",
+    scanNow: "አሁን ይቃኙ",
+    harvestAfter: "ከ{date} በፊት አይሰብስቡ",
+    stopPlan: "ዕቅዱን አቁም",
+    treatmentTasks: "የሕክምና ተግባራት",
+    remindersOff: "ማሳወቂያዎች ጠፍተዋል፤ የደረሱ ተግባራትን ለማየት መተግበሪያውን ይክፈቱ።",
+    cases: "ክትትሎች",
+    scans: "ቅኝቶች",
+    progress: "ለውጥ በጊዜ ሂደት",
+    scanCount: "{n} ቅኝቶች",
+    addScan: "የክትትል ቅኝት ያክሉ",
+    outcomeQuestion: "ሕክምናው ሠርቷል?",
+    outcomeCured: "ተፈውሷል",
+    outcomeImproved: "ተሻሽሏል",
+    outcomeUnchanged: "ለውጥ የለም",
+    outcomeWorse: "ብሷል",
+    exportCases: "ለባለሙያዎች ይላኩ (CSV)",
+    exportImport: "ውሂብ መላክና ማስገባት",
+    exportImportHint: "የበሽታ ስሞች ከላይ በተመረጠው ቋንቋ ይጻፋሉ።",
+    exportCsv: "CSV ይላኩ",
+    exportJson: "JSON ይላኩ",
+    exportZip: "ከፎቶዎች ጋር ምትኬ (zip)",
+    importHistory: "ምትኬ ያስገቡ",
+    importResult: "{added} ቅኝቶች ገብተዋል፣ {skipped} ቀድሞ በስልኩ ላይ ነበሩ፣ {invalid} ልክ አይደሉም",
+    importFailed: "ይህ ፋይል ሊገባ አልቻለም።",
+    printReport: "ሪፖርት ያትሙ (PDF)",
+    scanReport: "የቅኝት ሪፖርት",
+    reportDate: "የቅኝት ቀን"
   },
   en: {
     appName: "AgriGasha AI",
@@ -67,69 +459,312 @@ export const translations: Record<Language, Translation> = {
     aboutContent: "AgriGasha AI helps Ethiopian smallholder farmers diagnose crop diseases and get treatment recommendations instantly.",
     gashaMeaning: "'Gasha' is a traditional Ethiopian shield. This app acts as a shield for your crops, protecting your harvest.",
     languageSelect: "Select Language",
-    saveSuccess: "Saved to history"
+    saveSuccess: "Saved to history",
+    uncertain: "Uncertain Result",
+    retakeHint: "The photo is not clear enough for a diagnosis. Please retake it in good light, close to the affected leaf.",
+    retakePhoto: "Retake Photo",
+    otherPossibilities: "Other Possibilities",
+    healthy: "Healthy Plant",
+    healthyHint: "No disease was detected on this leaf. Keep monitoring your crop.",
+    modelUnavailable: "Diagnosis Model Unavailable",
+    modelUnavailableHint: "The on-device model could not be loaded, so no diagnosis was made. Please try again later.",
+    imageInvalid: "Image Could Not Be Read",
+    imageInvalidHint: "This file is not a readable photo. Please take or upload a new picture.",
+    offlineReady: "Ready for offline use",
+    storageFull: "Phone storage is full. This scan was not saved to history.",
+    saveFailed: "This scan could not be saved to history.",
+    storageUsage: "Storage Used",
+    retakeNeeded: "Please Retake the Photo",
+    tooSmallHint: "The photo is too small. Move closer to the leaf.",
+    tooDarkHint: "The photo is too dark. Take it in daylight or better light.",
+    overexposedHint: "The photo is too bright. Shade the leaf from direct sunlight.",
+    blurryHint: "The photo is blurry. Hold the phone still and try again.",
+    affectedAreas: "Affected Areas",
+    severity: "Leaf Area Affected",
+    organicOptions: "Organic Options",
+    approvedChemicals: "Approved Chemicals",
+    preHarvestInterval: "Pre-harvest interval",
+    days: "days",
+    library: "Disease Library",
+    searchDiseases: "Search diseases or symptoms",
+    noResults: "No matching diseases",
+    symptoms: "Symptoms",
+    severityStages: "Severity Stages",
+    foundIn: "Found In",
+    missingTranslations: "{count} texts are not translated yet and are shown in {fallback}.",
+    adviceUnavailable: "Could not fetch expert advice at this time.",
+    adviceRateLimited: "You have asked for a lot of advice today. Please try again tomorrow.",
+    adviceLoading: "Asking the expert...",
+    chemicalOptions: "Chemical Options",
+    whenToCallAgent: "When to Call an Extension Agent",
+    askAssistant: "Ask a Follow-up Question",
+    chatPlaceholder: "e.g. Can I still sell the beans?",
+    chatQueued: "Will be sent when you are back online",
+    chatFailed: "Could not get an answer. Your question is saved and will be retried.",
+    secondOpinion: "Second Opinion",
+    onDeviceOpinion: "On this phone",
+    geminiOpinion: "Gemini (online)",
+    opinionsAgree: "Both diagnoses agree.",
+    opinionsDisagree: "The two diagnoses disagree. Compare the symptoms in the disease library or ask an extension agent.",
+    opinionInconclusive: "The second opinion could not confirm the diagnosis.",
+    fields: "Farms & Plots",
+    scanningFor: "Scanning for",
+    noPlotSelected: "No plot selected",
+    farmerName: "Farmer name",
+    village: "Village (kebele)",
+    farmName: "Farm name",
+    plotName: "Plot name",
+    crop: "Crop",
+    variety: "Variety",
+    growthStage: "Growth Stage",
+    addFarmer: "Add Farmer",
+    addFarm: "Add Farm",
+    addPlot: "Add Plot",
+    noFarmers: "No farmers yet. Add the first one to start tagging scans.",
+    stageSeedling: "Seedling",
+    stageVegetative: "Vegetative",
+    stageFlowering: "Flowering",
+    stageFruiting: "Fruiting",
+    stageMature: "Mature",
+    allFarmers: "All farmers",
+    allFarms: "All farms",
+    allPlots: "All plots",
+    allStages: "All stages",
+    noMatchingScans: "No scans match these filters",
+    gpsTagging: "Tag scans with GPS location",
+    gpsTaggingHint: "The position is saved with each photo taken with the camera. It works without internet.",
+    sync: "Sync with Cooperative Server",
+    syncHint: "Scans, photos and plots are sent to the cooperative's server and received from other phones. Sync retries by itself when there is internet.",
+    syncServer: "Server address",
+    syncToken: "Cooperative token",
+    syncNow: "Sync Now",
+    syncNever: "Not synced yet",
+    syncLast: "Last synced: {time}",
+    syncInProgress: "Syncing...",
+    syncOffline: "No internet. Will sync when back online.",
+    syncFailed: "Sync failed. It will be retried.",
+    syncPendingImages: "{count} photos waiting",
+    dashboard: "Disease Surveillance",
+    dashboardHint: "Counts of located diagnoses by woreda and kebele. No farmer can be identified.",
+    woreda: "Woreda",
+    kebele: "Kebele",
+    allDiseases: "All diseases",
+    casesInPeriod: "{count} cases in this period",
+    lastWeeks: "Last {count} weeks",
+    weeklyTrend: "Weekly Trend",
+    outbreaks: "Outbreak Alerts",
+    noOutbreaks: "No outbreak flags this week",
+    outbreakDetail: "Week of {week}: {cases} cases (usually {baseline})",
+    dashboardStale: "Could not reach the server. Showing data saved at {time}.",
+    noSurveillanceData: "No located diagnoses yet.",
+    unmappedCases: "{count} scans are outside the mapped areas.",
+    allAreas: "All areas",
+    alertTitle: "{disease} reported nearby",
+    alertBody: "{count} cases within {distance} km in the last {days} days. Tap for prevention tips.",
+    alerts: "Outbreak Alerts Near Me",
+    alertsHint: "Get a notification when a disease of your crops is spreading near you.",
+    alertCrops: "Crops you grow",
+    alertRadius: "Distance",
+    useMyLocation: "Use My Location",
+    locationUnavailable: "Could not get your location. Check that GPS is on.",
+    subscribeAlerts: "Turn On Alerts",
+    unsubscribeAlerts: "Turn Off Alerts",
+    alertsPush: "You will get notifications on this phone.",
+    alertsInApp: "Alerts are shown when the app is open and online.",
+    alertsFailed: "Could not save the alert settings. Try again when online.",
+    nearbyOutbreaks: "Outbreaks Nearby",
+    openInLibrary: "Open in Library",
+    weather: "Weather",
+    weatherTap: "Tap for local weather",
+    weatherClear: "Sunny",
+    weatherPartlyCloudy: "Partly cloudy",
+    weatherCloudy: "Cloudy",
+    weatherFog: "Foggy",
+    weatherRain: "Rain",
+    weatherStorm: "Thunderstorm",
+    humidity: "Humidity {value}%",
+    diseaseRisk: "Disease Risk",
+    riskLow: "Low",
+    riskModerate: "Moderate",
+    riskHigh: "High",
+    riskReason: "{count} of {days} days in the past week and the next 3 days favour this disease.",
+    noDiseaseRisk: "The weather does not favour diseases of your crops right now.",
+    forecastFrom: "Forecast from {time}",
+    marketPrices: "Market Prices",
+    marketPricesHint: "Crop prices published by your cooperative. Compare what your harvest is worth before spending on treatment.",
+    pricesUpdated: "Updated {time}",
+    pricesStale: "You are offline. Showing prices saved {time}.",
+    noPrices: "No prices published for this crop yet.",
+    priceHistory: "Price History",
+    pricePerUnit: "{price} ETB/{unit}",
+    listen: "Listen",
+    pause: "Pause",
+    noAudio: "No voice or recording is available in this language yet.",
+    readAloud: "Read Screens Aloud",
+    readAloudHint: "Speaks each screen and the disease advice, for farmers who prefer listening.",
+    symptomQuestionnaire: "Diagnose by answering questions",
+    symptomQuestionnaireHint: "No camera? Tell us what you see on the leaf.",
+    cameraUnavailable: "The camera could not be opened.",
+    answerQuestions: "Answer questions",
+    refineWithQuestions: "Not sure? Answer a few questions about the leaf.",
+    whichCrop: "Which crop is it?",
+    answerByVoice: "Answer by voice",
+    listening: "Listening…",
+    yes: "Yes",
+    no: "No",
+    notSure: "I don't know",
+    yesWords: "yes,yeah,yep,right",
+    noWords: "no,nope,not",
+    basedOnAnswers: "Based on your answers",
+    seeResult: "See the result",
+    treatmentPlan: "Treatment plan",
+    treatmentPlanHint: "Dated reminders for each spray and a check-up scan, even offline.",
+    startTreatmentPlan: "Start plan",
+    noSpray: "No spray (organic methods)",
+    taskSpray: "Spray {product}",
+    taskSprayRepeat: "Spray {product} ({n} of {total})",
+    taskRescan: "Scan the plot again to check the {disease}",
+    markDone: "Done",
+    overdue: "Overdue",
+    scanNow: "Scan now",
+    harvestAfter: "Do not harvest before {date}",
+    stopPlan: "Stop plan",
+    treatmentTasks: "Treatment tasks",
+    remindersOff: "Notifications are off; open the app to see tasks that are due.",
+    cases: "Cases",
+    scans: "Scans",
+    progress: "Progress over time",
+    scanCount: "{n} scans",
+    addScan: "Add a follow-up scan",
+    outcomeQuestion: "Did the treatment work?",
+    outcomeCured: "Cured",
+    outcomeImproved: "Better",
+    outcomeUnchanged: "No change",
+    outcomeWorse: "Worse",
+    exportCases: "Export for agronomists (CSV)",
+    exportImport: "Export & Import",
+    exportImportHint: "Disease names are written in the language chosen above.",
+    exportCsv: "Export CSV",
+    exportJson: "Export JSON",
+    exportZip: "Backup with photos (zip)",
+    importHistory: "Import backup",
+    importResult: "{added} scans imported, {skipped} already on this phone, {invalid} not valid",
+    importFailed: "This file could not be imported.",
+    printReport: "Print report (PDF)",
+    scanReport: "Scan report",
+    reportDate: "Scanned on"
   }
 };
 
+/** Required in the base languages; other languages are optional and fall back. */
+export type LocalizedText = Record<BaseLanguage, string> & Partial<Record<Language, string>>;
+
+export type PathogenType = 'fungus' | 'virus' | 'bacterium' | 'oomycete' | 'nematode' | 'insect' | 'abiotic';
+
+export interface Crop {
+  id: string;
+  name: LocalizedText;
+}
+
+export interface Region {
+  id: string;
+  name: LocalizedText;
+}
+
+export interface SeverityStage {
+  level: number;
+  name: LocalizedText;
+  description: LocalizedText;
+}
+
+export interface ReferenceImage {
+  /** Relative to the knowledge base file, or absolute. */
+  url: string;
+  caption: LocalizedText;
+  /** `SeverityStage.level` the image illustrates, if any. */
+  stage?: number;
+}
+
+export interface ChemicalOption {
+  activeIngredient: string;
+  dosage: LocalizedText;
+  /** Days that must pass between the last spray and harvest. */
+  preHarvestIntervalDays: number;
+  safety?: LocalizedText;
+  /** Sprays in a full treatment; 1 when absent. */
+  applications?: number;
+  /** Days between sprays when there is more than one. */
+  repeatAfterDays?: number;
+}
+
+export interface OrganicOption {
+  name: LocalizedText;
+  instructions: LocalizedText;
+}
+
 export interface Disease {
   id: string;
-  name: Record<Language, string>;
-  crop: string;
-  symptoms: Record<Language, string>;
-  treatment: Record<Language, string>;
-  prevention: Record<Language, string>;
+  name: LocalizedText;
+  /** `Crop.id` values; the first is the main host. */
+  crops: string[];
+  pathogenType: PathogenType;
+  /** Scientific name of the causal agent. */
+  pathogen?: string;
+  /** `Region.id` values where the disease is known to occur. */
+  regions: string[];
+  symptoms: LocalizedText;
+  treatment: LocalizedText;
+  prevention: LocalizedText;
+  severityStages: SeverityStage[];
+  referenceImages: ReferenceImage[];
+  chemicals: ChemicalOption[];
+  organicOptions: OrganicOption[];
+  /**
+   * Answers to symptom questions that fit this disease: `SymptomOption.id`
+   * values by `SymptomQuestion.id`. Questions left out say nothing about it.
+   */
+  signs?: Record<string, string[]>;
+  /**
+   * Days after the last treatment step to scan the plot again and see whether
+   * it worked; see src/services/treatmentPlan.ts for the default.
+   */
+  followUpDays?: number;
 }
 
-export const mockDiseases: Disease[] = [
-  {
-    id: "coffee_rust",
-    crop: "Coffee",
-    name: { am: "የቡና ቅጠል ዝገት", en: "Coffee Leaf Rust" },
-    symptoms: { 
-      am: "በቅጠሉ ስር ቢጫ ወይም ብርቱካናማ ነጠብጣቦች ይታያሉ።", 
-      en: "Yellow or orange powdery spots appear on the underside of leaves." 
-    },
-    treatment: { 
-      am: "የተጎዱ ቅጠሎችን ያስወግዱ። ኦርጋኒክ ፈንገስ ማጥፊያ ይጠቀሙ።", 
-      en: "Remove infected leaves. Apply organic copper-based fungicides." 
-    },
-    prevention: { 
-      am: "ጥሩ የአየር ዝውውር እንዲኖር ቡናውን ይገጥግጡ።", 
-      en: "Prune coffee trees to ensure good air circulation." 
-    }
-  },
-  {
-    id: "maize_streak",
-    crop: "Maize",
-    name: { am: "የበቆሎ መስመር ቫይረስ", en: "Maize Streak Virus" },
-    symptoms: { 
-      am: "በቅጠሎች ላይ ረጅም ነጭ ወይም ቢጫ መስመሮች ይታያሉ።", 
-      en: "Long white or yellow streaks along the leaf veins." 
-    },
-    treatment: { 
-      am: "በሽታው ያለባቸውን ተክሎች ነቅሎ ማቃጠል።", 
-      en: "Uproot and burn infected plants immediately." 
-    },
-    prevention: { 
-      am: "ተከላካይ የሆኑ ዝርያዎችን ይጠቀሙ።", 
-      en: "Use resistant maize varieties and control leafhoppers." 
-    }
-  },
-  {
-    id: "wheat_rust",
-    crop: "Wheat",
-    name: { am: "የስንዴ ዝገት", en: "Wheat Rust" },
-    symptoms: { 
-      am: "በቅጠሎች እና በግንድ ላይ ቀይ ወይም ቡናማ ነጠብጣቦች።", 
-      en: "Reddish-brown pustules on leaves and stems." 
-    },
-    treatment: { 
-      am: "ፈንገስ ማጥፊያዎችን በወቅቱ መጠቀም።", 
-      en: "Apply appropriate fungicides early in the infection cycle." 
-    },
-    prevention: { 
-      am: "ዝገትን የሚቋቋሙ የስንዴ ዝርያዎችን መዝራት።", 
-      en: "Plant rust-resistant wheat varieties and rotate crops." 
-    }
-  }
-];
+export interface SymptomOption {
+  id: string;
+  label: LocalizedText;
+  /** The option as a yes/no question, for answering by voice. */
+  question: LocalizedText;
+  /** Swatch shown next to colour options, e.g. "#f59e0b". */
+  color?: string;
+  /** Drawing of the sign, e.g. "/symptoms/streaks.svg"; bundled so it works offline. */
+  image?: string;
+}
+
+/** A question of the symptom questionnaire, see src/services/questionnaire.ts. */
+export interface SymptomQuestion {
+  id: string;
+  text: LocalizedText;
+  options: SymptomOption[];
+}
+
+/** The versioned disease data package, see src/data/knowledge-base.json. */
+export interface KnowledgeBaseData {
+  version: string;
+  regions: Region[];
+  crops: Crop[];
+  diseases: Disease[];
+  /** Asked for any crop with a disease that has `signs` for the question. */
+  questions?: SymptomQuestion[];
+}
+
+/** Structured Gemini advice, written entirely in the language it was requested in. */
+export interface ExpertAdvice {
+  summary: string;
+  treatmentSteps: string[];
+  organicOptions: { name: string; instructions: string }[];
+  chemicalOptions: { name: string; dosage: string; safetyWarning: string }[];
+  /** Signs that mean the farmer should call an agricultural extension agent. */
+  whenToCallAgent: string;
+}
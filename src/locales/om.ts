@@ -0,0 +1,46 @@
+import { TranslationBundle } from '../constants';
+
+// Afaan Oromoo. Keys left out here fall back to Amharic, then English.
+const om: TranslationBundle = {
+  appName: "AgriGasha AI",
+  tagline: "Gaachana Qonnaa – Oomisha Keessan Eegaa",
+  takePhoto: "Suuraa Kaasi",
+  uploadImage: "Suuraa Olkaa'i",
+  diagnosing: "Qorannoon adeemaa jira...",
+  result: "Bu'aa Qorannoo",
+  recommendation: "Gorsa Yaalii",
+  prevention: "Tooftaalee Ittisaa",
+  history: "Seenaa",
+  settings: "Qindaa'ina",
+  about: "Waa'ee Appii",
+  confidence: "Amanamummaa",
+  expertAdvice: "Gorsa Ogeessaa (Gemini)",
+  back: "Deebi'i",
+  noHistory: "Seenaan kuufame hin jiru",
+  clearHistory: "Seenaa Haqi",
+  aboutContent: "AgriGasha AI qonnaan bultoota xixiqqoo Itoophiyaa dhukkuboota midhaanii adda baasuu fi gorsa yaalii argachuuf kan gargaaru appii dha.",
+  gashaMeaning: "'Gaachana' meeshaa ittisaa aadaa Itoophiyaati. Appiin kun midhaan keessaniif akka gaachanaatti tajaajila.",
+  languageSelect: "Afaan Filadhu",
+  saveSuccess: "Seenaa keessatti kuufameera",
+  uncertain: "Bu'aan hin mirkanoofne",
+  retakePhoto: "Suuraa Irra Deebi'ii Kaasi",
+  otherPossibilities: "Dhukkuboota Biroo Ta'uu Danda'an",
+  healthy: "Biqiltuu Fayyaa Qabu",
+  healthyHint: "Baala kana irratti dhukkubni hin argamne. Midhaan keessan hordofuu itti fufaa.",
+  offlineReady: "Interneetii malee fayyadamuuf qophaa'eera",
+  retakeNeeded: "Maaloo Suuraa Irra Deebi'aa Kaasaa",
+  affectedAreas: "Bakkeewwan Miidhaman",
+  severity: "Baala Miidhame",
+  organicOptions: "Filannoowwan Orgaanikii",
+  approvedChemicals: "Keemikaalota Hayyamaman",
+  days: "guyyoota",
+  library: "Galmee Dhukkubootaa",
+  searchDiseases: "Dhukkuba ykn mallattoo barbaadi",
+  noResults: "Dhukkubni walsimu hin argamne",
+  symptoms: "Mallattoolee",
+  severityStages: "Sadarkaalee Miidhaa",
+  foundIn: "Bakka Argamu",
+  missingTranslations: "Barreeffamoonni {count} ammallee hin hiikamne, kanaafuu {fallback} dhaan agarsiifamu."
+};
+
+export default om;
@@ -0,0 +1,38 @@
+import { TranslationBundle } from '../constants';
+
+// Somali. Keys left out here fall back to English.
+const so: TranslationBundle = {
+  appName: "AgriGasha AI",
+  tagline: "Gaashaanka Beerta – Ilaali Dalagaaga",
+  takePhoto: "Sawir Qaad",
+  uploadImage: "Soo Geli Sawir",
+  diagnosing: "Baaritaan ayaa socda...",
+  result: "Natiijada Baaritaanka",
+  recommendation: "Talo Daaweyn",
+  prevention: "Hababka Ka-hortagga",
+  history: "Taariikh",
+  settings: "Dejinta",
+  about: "Ku Saabsan",
+  confidence: "Kalsoonida",
+  expertAdvice: "Talo Khabiir (Gemini)",
+  back: "Dib u noqo",
+  noHistory: "Taariikh la keydiyay ma jirto",
+  clearHistory: "Tirtir Taariikhda",
+  languageSelect: "Dooro Luqadda",
+  saveSuccess: "Waxaa lagu keydiyay taariikhda",
+  uncertain: "Natiijo aan la hubin",
+  retakePhoto: "Dib u qaad sawirka",
+  otherPossibilities: "Cudurro kale oo suurtagal ah",
+  healthy: "Geed Caafimaad Qaba",
+  healthyHint: "Cudur lagama helin caleentan. Sii wad la socodka dalagaaga.",
+  offlineReady: "Diyaar u ah isticmaal internet la'aan",
+  days: "maalmood",
+  library: "Maktabadda Cudurrada",
+  searchDiseases: "Raadi cudur ama calaamad",
+  noResults: "Cudur la mid ah lama helin",
+  symptoms: "Calaamadaha",
+  severityStages: "Heerarka Darnaanta",
+  missingTranslations: "{count} qoraal weli lama turjumin, waxaana lagu muujinayaa {fallback}."
+};
+
+export default so;
@@ -0,0 +1,36 @@
+import { TranslationBundle } from '../constants';
+
+// Tigrinya. Keys left out here fall back to Amharic, then English.
+const ti: TranslationBundle = {
+  appName: "AgriGasha AI",
+  tagline: "ዋልታ ሕርሻ – ፍርያትኩም ሓልዉ",
+  takePhoto: "ስእሊ ኣልዕል",
+  uploadImage: "ስእሊ ጸዕን",
+  diagnosing: "ይምርመር ኣሎ...",
+  result: "ውጽኢት መርመራ",
+  recommendation: "ምኽሪ ሕክምና",
+  prevention: "ኣገባባት መከላኸሊ",
+  history: "ታሪኽ",
+  settings: "ምድላዋት",
+  about: "ብዛዕባ እቲ መተግበሪ",
+  confidence: "ርግጸኝነት",
+  expertAdvice: "ምኽሪ ክኢላ (Gemini)",
+  back: "ተመለስ",
+  noHistory: "ዝተዓቀበ ታሪኽ የለን",
+  clearHistory: "ታሪኽ ደምስስ",
+  languageSelect: "ቋንቋ ምረጹ",
+  saveSuccess: "ኣብ ታሪኽ ተዓቂቡ",
+  retakePhoto: "ስእሊ ደጊምካ ኣልዕል",
+  otherPossibilities: "ካልኦት ክኾኑ ዝኽእሉ ሕማማት",
+  healthy: "ጥዑይ ተኽሊ",
+  offlineReady: "ብዘይ ኢንተርነት ንምጥቃም ድሉው",
+  days: "መዓልትታት",
+  library: "መዝገብ ሕማማት",
+  searchDiseases: "ሕማም ወይ ምልክት ድለዩ",
+  noResults: "ዝሰማማዕ ሕማም ኣይተረኽበን",
+  symptoms: "ምልክታት",
+  foundIn: "ዝርከበሉ ቦታ",
+  missingTranslations: "{count} ጽሑፋት ገና ኣይተተርጎሙን፣ ብ{fallback} ይርኣዩ።"
+};
+
+export default ti;
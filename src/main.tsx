@@ -1,8 +1,11 @@
 import {StrictMode} from 'react';
 import {createRoot} from 'react-dom/client';
 import App from './App.tsx';
+import { OfflineService } from './services/offlineService';
 import './index.css';
 
 createRoot(document.getElementById('root')!).render(
   <App />
 );
+
+OfflineService.register();
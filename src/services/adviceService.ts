@@ -0,0 +1,132 @@
+import { ExpertAdvice, Language } from '../constants';
+
+// --- Types ---
+export type AdviceErrorReason = 'rate-limited' | 'unavailable';
+
+/** One line of the /api/advice response stream, see server/advice.ts. */
+type AdviceStreamEvent =
+  | { type: 'chunk', text: string }
+  | { type: 'done', advice: ExpertAdvice, cached: boolean }
+  | { type: 'error', error: string };
+
+export class AdviceError extends Error {
+  constructor(message: string, readonly reason: AdviceErrorReason, readonly retryAfter?: number) {
+    super(message);
+    this.name = 'AdviceError';
+  }
+}
+
+export const ADVICE_URL = '/api/advice';
+const DEVICE_ID_KEY = 'agrigasha_device_id';
+
+// --- Helpers ---
+
+/**
+ * Random per-install ID the server uses for rate limiting. It identifies the
+ * install only, never the farmer.
+ */
+export function deviceId(): string {
+  try {
+    let id = localStorage.getItem(DEVICE_ID_KEY);
+    if (!id) {
+      id = crypto.randomUUID();
+      localStorage.setItem(DEVICE_ID_KEY, id);
+    }
+    return id;
+  } catch (e) {
+    console.error("Device ID storage failed", e);
+    return 'anonymous-device';
+  }
+}
+
+/**
+ * Parses the complete part of a JSON document that is still being received,
+ * closing any open string, array and object. Returns undefined until there is
+ * something parseable. Incomplete keys, numbers and literals are dropped.
+ */
+export function parsePartialJson(text: string): unknown {
+  for (let end = text.length; end > 0; end--) {
+    const head = text.slice(0, end).replace(/[\s,:]+$/, '');
+    const closers: string[] = [];
+    let inString = false;
+    for (let i = 0; i < head.length; i++) {
+      const ch = head[i];
+      if (inString) {
+        if (ch === '\\') i++;
+        else if (ch === '"') inString = false;
+      } else if (ch === '"') inString = true;
+      else if (ch === '{') closers.push('}');
+      else if (ch === '[') closers.push(']');
+      else if (ch === '}' || ch === ']') closers.pop();
+    }
+    try {
+      return JSON.parse(head + (inString ? '"' : '') + closers.reverse().join(''));
+    } catch {
+      // Cut inside a key, escape or literal: retry with one character less
+    }
+  }
+  return undefined;
+}
+
+// --- Service ---
+
+/**
+ * Expert advice from Gemini, fetched through the app's API server so the
+ * API key never reaches the browser.
+ */
+export class AdviceService {
+  /**
+   * Streams structured advice in `lang`. `onUpdate` receives the advice
+   * parsed so far each time more arrives; the promise resolves with the
+   * complete, server-validated advice.
+   */
+  static async stream(
+    diseaseId: string,
+    lang: Language,
+    onUpdate: (partial: Partial<ExpertAdvice>) => void,
+    signal?: AbortSignal
+  ): Promise<ExpertAdvice> {
+    let response: Response;
+    try {
+      response = await fetch(ADVICE_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Device-Id': deviceId() },
+        body: JSON.stringify({ diseaseId, lang }),
+        signal
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw new AdviceError(error instanceof Error ? error.message : String(error), 'unavailable');
+    }
+
+    if (!response.ok || !response.body) {
+      const body = await response.json().catch(() => ({}));
+      if (response.status === 429) throw new AdviceError('Advice rate limit reached', 'rate-limited', body.retryAfter);
+      throw new AdviceError(`Advice request failed: ${body.error ?? response.statusText}`, 'unavailable');
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    let json = '';
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const event: AdviceStreamEvent = JSON.parse(line);
+        if (event.type === 'error') throw new AdviceError(`Advice request failed: ${event.error}`, 'unavailable');
+        if (event.type === 'done') {
+          onUpdate(event.advice);
+          return event.advice;
+        }
+        json += event.text;
+        const partial = parsePartialJson(json);
+        if (partial && typeof partial === 'object') onUpdate(partial as Partial<ExpertAdvice>);
+      }
+    }
+    throw new AdviceError('Advice stream ended early', 'unavailable');
+  }
+}
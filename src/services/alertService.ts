@@ -0,0 +1,182 @@
+import { Language } from '../constants';
+import { STORES, openDatabase, transactionDone } from './database';
+import { SyncService } from './syncService';
+
+// --- Types ---
+
+/** What a farmer wants to be warned about, see server/alerts.ts. */
+export interface AlertSubscription {
+  /** Random id, which is also the only key to the subscription on the server. */
+  id: string;
+  /** `Crop.id` values the farmer grows. */
+  crops: string[];
+  latitude: number;
+  longitude: number;
+  radiusKm: number;
+  lang: Language;
+}
+
+/** Diagnoses of one disease clustering near a subscriber. */
+export interface NearbyAlert {
+  diseaseId: string;
+  /** Cases within the radius in the alert window. */
+  cases: number;
+  /** Distance within which the closest few cases lie, in steps of 5 km so single scans cannot be located. */
+  nearestKm: number;
+  /** Day of the latest case, YYYY-MM-DD. */
+  lastSeen: string;
+  /** Notification text in the subscription's language. */
+  title: string;
+  body: string;
+}
+
+export type AlertDelivery = 'push' | 'in-app';
+
+const SUBSCRIPTION_KEY = 'agrigasha_alert_subscription';
+const ALERTS_KEY = 'agrigasha_alerts';
+const NOTIFIED_KEY = 'agrigasha_alerts_notified';
+/** Key in the settings store; public/sw.js reads it under the same name. */
+const ALERT_SERVER_SETTING = 'alertServerUrl';
+export const ALERT_RADII_KM = [5, 10, 20, 50];
+
+// --- Helpers ---
+
+function base64UrlToBytes(value: string): Uint8Array {
+  const base64 = (value + '='.repeat((4 - value.length % 4) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+}
+
+/** Identifies one alert so a farmer is notified about it once. */
+function alertKey(alert: NearbyAlert): string {
+  return `${alert.diseaseId}:${alert.lastSeen}`;
+}
+
+function read<T>(key: string, fallback: T): T {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : fallback;
+  } catch (e) {
+    return fallback;
+  }
+}
+
+function write(key: string, value: unknown): void {
+  try {
+    if (value === null) localStorage.removeItem(key);
+    else localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    console.error("Alert state save failed", e);
+  }
+}
+
+// --- Service ---
+
+/**
+ * Outbreak alerts for a farmer's crops and location. The server compares the
+ * subscription with synced diagnoses and wakes the phone with a Web Push
+ * message when it can; otherwise the app checks for alerts whenever it is
+ * online and shows them as in-app notifications. Alerts seen last are kept
+ * for offline viewing.
+ */
+export class AlertService {
+  static subscription(): AlertSubscription | null {
+    return read<AlertSubscription | null>(SUBSCRIPTION_KEY, null);
+  }
+
+  /** Alerts from the last successful check. */
+  static cached(): NearbyAlert[] {
+    return read<NearbyAlert[]>(ALERTS_KEY, []);
+  }
+
+  /**
+   * Saves the subscription on the server. Asks for notification permission
+   * and registers for Web Push when the browser and server support it.
+   * Resolves how alerts will be delivered.
+   */
+  static async subscribe(subscription: AlertSubscription): Promise<AlertDelivery> {
+    const push = await this.pushSubscription().catch(error => {
+      console.error('Web Push registration failed:', error);
+      return null;
+    });
+    const response = await fetch(`${this.baseUrl()}/alerts/subscriptions/${encodeURIComponent(subscription.id)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...subscription, push: push?.toJSON() })
+    });
+    if (!response.ok) throw new Error(`Alert subscription failed: ${response.status}`);
+    write(SUBSCRIPTION_KEY, subscription);
+    await this.saveServerUrl(push ? new URL(this.baseUrl(), location.href).href : null);
+    return push ? 'push' : 'in-app';
+  }
+
+  static async unsubscribe(): Promise<void> {
+    const subscription = this.subscription();
+    if (!subscription) return;
+    const response = await fetch(`${this.baseUrl()}/alerts/subscriptions/${encodeURIComponent(subscription.id)}`, { method: 'DELETE' });
+    if (!response.ok && response.status !== 404) throw new Error(`Alert unsubscribe failed: ${response.status}`);
+    write(SUBSCRIPTION_KEY, null);
+    write(ALERTS_KEY, null);
+    await this.saveServerUrl(null);
+  }
+
+  /**
+   * Fetches the current alerts and shows a notification for each one not
+   * notified before. Resolves the cached alerts when offline.
+   */
+  static async refresh(): Promise<NearbyAlert[]> {
+    const subscription = this.subscription();
+    if (!subscription) return [];
+    if (!navigator.onLine) return this.cached();
+
+    const response = await fetch(`${this.baseUrl()}/alerts/subscriptions/${encodeURIComponent(subscription.id)}/alerts`);
+    if (!response.ok) throw new Error(`Alert check failed: ${response.status}`);
+    const { alerts } = await response.json() as { alerts: NearbyAlert[] };
+    write(ALERTS_KEY, alerts);
+    await this.notify(alerts);
+    return alerts;
+  }
+
+  private static baseUrl(): string {
+    return SyncService.settings().serverUrl;
+  }
+
+  /** Where the service worker asks for alerts when a push arrives; null when pushes are off. */
+  private static async saveServerUrl(serverUrl: string | null): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.settings, 'readwrite');
+    if (serverUrl) tx.objectStore(STORES.settings).put(serverUrl, ALERT_SERVER_SETTING);
+    else tx.objectStore(STORES.settings).delete(ALERT_SERVER_SETTING);
+    await transactionDone(tx);
+  }
+
+  private static async notify(alerts: NearbyAlert[]): Promise<void> {
+    const notified = new Set(read<string[]>(NOTIFIED_KEY, []));
+    const fresh = alerts.filter(a => !notified.has(alertKey(a)));
+    if (fresh.length === 0) return;
+    if (typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+      const registration = await navigator.serviceWorker?.getRegistration();
+      for (const alert of fresh) {
+        const options = { body: alert.body, tag: `outbreak-${alert.diseaseId}`, data: { diseaseId: alert.diseaseId } };
+        if (registration) await registration.showNotification(alert.title, options);
+        else new Notification(alert.title, options);
+      }
+    }
+    write(NOTIFIED_KEY, [...notified, ...fresh.map(alertKey)].slice(-100));
+  }
+
+  /** A Web Push subscription, or null when push is unsupported, refused or not configured on the server. */
+  private static async pushSubscription(): Promise<PushSubscription | null> {
+    // The service worker, which receives pushes, only runs in production builds
+    if (!('PushManager' in window) || typeof Notification === 'undefined') return null;
+    const registration = await navigator.serviceWorker.getRegistration();
+    if (!registration) return null;
+
+    const keyResponse = await fetch(`${this.baseUrl()}/alerts/vapid-key`);
+    if (!keyResponse.ok) return null;
+    const { publicKey } = await keyResponse.json() as { publicKey: string };
+
+    if (await Notification.requestPermission() !== 'granted') return null;
+    return (await registration.pushManager.getSubscription())
+      ?? registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: base64UrlToBytes(publicKey) });
+  }
+}
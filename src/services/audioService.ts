@@ -0,0 +1,295 @@
+import { Disease, Language, LocalizedText, Translation } from '../constants';
+import { localeInfo, localize } from './i18n';
+
+// --- Types ---
+
+export type DiseaseAudioField = 'name' | 'symptoms' | 'treatment' | 'prevention';
+
+export const DISEASE_AUDIO_FIELDS: DiseaseAudioField[] = ['name', 'symptoms', 'treatment', 'prevention'];
+
+/** One part of a track: a recorded clip, or text for the system voice when there is none. */
+export interface AudioSegment {
+  /** What is being read, e.g. a section title; shown while it plays. */
+  label: string;
+  clipUrl?: string;
+  text?: string;
+  speechLang?: string;
+}
+
+export interface PlayerState {
+  /** Track playing or paused; null when stopped. */
+  trackId: string | null;
+  playing: boolean;
+  /** Index into the track's segments. */
+  segment: number;
+  /** 0 to 1 over the whole track. */
+  progress: number;
+}
+
+/**
+ * Generated by the offline plugin in vite.config.ts from the files under
+ * public/audio/: for each language, the clip paths that exist, e.g.
+ * "disease/coffee_rust/symptoms.mp3" or "ui/takePhoto.mp3".
+ */
+interface AudioManifest {
+  clips: Partial<Record<Language, string[]>>;
+}
+
+export const AUDIO_MANIFEST_URL = '/audio/manifest.json';
+const READ_ALOUD_KEY = 'agrigasha_read_aloud';
+/** Used to estimate progress when the browser reports no word boundaries. */
+const SPEECH_CHARS_PER_SECOND = 12;
+/** How long to wait for the system voices to load before reading without them. */
+const VOICES_TIMEOUT_MS = 1500;
+
+const STOPPED: PlayerState = { trackId: null, playing: false, segment: 0, progress: 0 };
+
+// --- Service ---
+
+/**
+ * Spoken output for farmers who cannot read or prefer to listen. Most
+ * Android WebViews have no Amharic voice, so recorded clips come first: per
+ * knowledge base field and per `Translation` key, bundled with the app and
+ * precached for offline use. The system voice only reads what has no clip.
+ * Languages fall back to their `fallbacks` clips (Oromo to Amharic), never
+ * to English.
+ */
+export class AudioService {
+  private static manifest: AudioManifest = { clips: {} };
+  private static loaded: Promise<void> | null = null;
+  private static voicesLoaded: Promise<SpeechSynthesisVoice[]> | null = null;
+  private static state: PlayerState = STOPPED;
+  private static listeners = new Set<(state: PlayerState) => void>();
+  private static segments: AudioSegment[] = [];
+  private static audio: HTMLAudioElement | null = null;
+  private static speechTimer: ReturnType<typeof setInterval> | undefined;
+  private static speaking: { index: number, length: number, elapsed: number } | null = null;
+  /** Bumped on stop, so events of a cancelled utterance do not move a newer track on. */
+  private static generation = 0;
+
+  /** Fetches the clip list once; without it only the system voice is used. */
+  static load(): Promise<void> {
+    this.loaded ??= fetch(AUDIO_MANIFEST_URL)
+      .then(response => (response.ok ? response.json() : { clips: {} }))
+      .then((manifest: AudioManifest) => { this.manifest = manifest; })
+      .catch(error => console.error('Audio manifest load failed:', error));
+    return this.loaded;
+  }
+
+  static readAloud(): boolean {
+    try {
+      return localStorage.getItem(READ_ALOUD_KEY) === 'on';
+    } catch (e) {
+      return false;
+    }
+  }
+
+  static setReadAloud(enabled: boolean): void {
+    try {
+      localStorage.setItem(READ_ALOUD_KEY, enabled ? 'on' : 'off');
+    } catch (e) {
+      console.error("Read-aloud setting save failed", e);
+    }
+    if (!enabled) this.stop();
+  }
+
+  /** Symptoms, treatment and prevention of a disease, after its name. */
+  static async diseaseTrack(disease: Disease, lang: Language, t: Translation, fields: DiseaseAudioField[] = DISEASE_AUDIO_FIELDS): Promise<AudioSegment[]> {
+    await Promise.all([this.load(), this.voices()]);
+    const labels: Record<DiseaseAudioField, string> = {
+      name: localize(disease.name, lang),
+      symptoms: t.symptoms,
+      treatment: t.recommendation,
+      prevention: t.prevention
+    };
+    return fields.flatMap(field => this.segment(lang, `disease/${disease.id}/${field}.mp3`, localize(disease[field], lang), labels[field]));
+  }
+
+  /** Interface texts, e.g. a screen's title and main actions. */
+  static async textTrack(keys: (keyof Translation)[], lang: Language, t: Translation): Promise<AudioSegment[]> {
+    await Promise.all([this.load(), this.voices()]);
+    return keys.flatMap(key => this.segment(lang, `ui/${key}.mp3`, t[key], t[key]));
+  }
+
+  /** Knowledge base texts outside a disease, e.g. symptom questions; `path` names the clip without language. */
+  static async phraseTrack(phrases: { path: string, text: LocalizedText }[], lang: Language): Promise<AudioSegment[]> {
+    await Promise.all([this.load(), this.voices()]);
+    return phrases.flatMap(({ path, text }) => {
+      const localized = localize(text, lang);
+      return this.segment(lang, path, localized, localized);
+    });
+  }
+
+  static watch(onChange: (state: PlayerState) => void): () => void {
+    this.listeners.add(onChange);
+    onChange(this.state);
+    return () => { this.listeners.delete(onChange); };
+  }
+
+  /** Plays a track from the start, stopping whatever was playing. Returns false when the track is empty. */
+  static play(trackId: string, segments: AudioSegment[]): boolean {
+    this.stop();
+    if (segments.length === 0) return false;
+    this.segments = segments;
+    this.setState({ trackId, playing: true, segment: 0, progress: 0 });
+    this.playSegment(0);
+    return true;
+  }
+
+  /** Plays a track and resolves once it has ended or was stopped, e.g. to listen for an answer after a question. */
+  static playThrough(trackId: string, segments: AudioSegment[]): Promise<void> {
+    if (!this.play(trackId, segments)) return Promise.resolve();
+    return new Promise(resolve => {
+      const done = (state: PlayerState) => {
+        if (state.trackId === trackId) return;
+        this.listeners.delete(done);
+        resolve();
+      };
+      this.listeners.add(done);
+    });
+  }
+
+  static pause(): void {
+    if (!this.state.playing) return;
+    this.audio?.pause();
+    if (typeof speechSynthesis !== 'undefined') speechSynthesis.pause();
+    clearInterval(this.speechTimer);
+    this.setState({ ...this.state, playing: false });
+  }
+
+  static resume(): void {
+    if (!this.state.trackId || this.state.playing) return;
+    this.setState({ ...this.state, playing: true });
+    if (this.audio) {
+      this.audio.play().catch(error => this.fail(error));
+    } else if (typeof speechSynthesis !== 'undefined') {
+      speechSynthesis.resume();
+      this.startSpeechTimer();
+    }
+  }
+
+  static stop(): void {
+    if (this.audio) {
+      this.audio.onended = null;
+      this.audio.pause();
+      this.audio = null;
+    }
+    if (typeof speechSynthesis !== 'undefined') speechSynthesis.cancel();
+    clearInterval(this.speechTimer);
+    this.speaking = null;
+    this.generation++;
+    if (this.state.trackId) this.setState(STOPPED);
+  }
+
+  /** A clip in the language or one of its fallbacks, else the system voice if it speaks the language. */
+  private static segment(lang: Language, path: string, text: string, label: string): AudioSegment[] {
+    for (const l of [lang, ...localeInfo(lang).fallbacks]) {
+      if (this.manifest.clips[l]?.includes(path)) return [{ label, clipUrl: `/audio/${l}/${path}` }];
+    }
+    const speechLang = localeInfo(lang).speechLang;
+    return this.hasVoice(speechLang) ? [{ label, text, speechLang }] : [];
+  }
+
+  /**
+   * The system voices. Chrome and Android list none until `voiceschanged`
+   * fires, so an empty list is only trusted after that or a short timeout;
+   * a later change still updates what `hasVoice` sees.
+   */
+  private static voices(): Promise<SpeechSynthesisVoice[]> {
+    if (typeof speechSynthesis === 'undefined') return Promise.resolve([]);
+    this.voicesLoaded ??= new Promise(resolve => {
+      const voices = speechSynthesis.getVoices();
+      if (voices.length > 0) {
+        resolve(voices);
+        return;
+      }
+      const done = () => {
+        clearTimeout(timer);
+        speechSynthesis.removeEventListener('voiceschanged', done);
+        resolve(speechSynthesis.getVoices());
+      };
+      const timer = setTimeout(done, VOICES_TIMEOUT_MS);
+      speechSynthesis.addEventListener('voiceschanged', done);
+    });
+    return this.voicesLoaded;
+  }
+
+  /** Call after `voices()` has resolved. */
+  private static hasVoice(speechLang: string): boolean {
+    if (typeof speechSynthesis === 'undefined') return false;
+    const wanted = speechLang.split('-')[0].toLowerCase();
+    return speechSynthesis.getVoices().some(voice => voice.lang.toLowerCase().split(/[-_]/)[0] === wanted);
+  }
+
+  private static playSegment(index: number): void {
+    const segment = this.segments[index];
+    if (!segment) {
+      this.setState(STOPPED);
+      return;
+    }
+    this.setState({ ...this.state, segment: index, progress: index / this.segments.length });
+    if (segment.clipUrl) {
+      const audio = new Audio(segment.clipUrl);
+      this.audio = audio;
+      audio.ontimeupdate = () => {
+        if (audio.duration > 0) this.setProgress(index, audio.currentTime / audio.duration);
+      };
+      audio.onended = () => {
+        this.audio = null;
+        this.playSegment(index + 1);
+      };
+      audio.play().catch(error => this.fail(error));
+    } else {
+      this.speak(segment, index);
+    }
+  }
+
+  private static speak(segment: AudioSegment, index: number): void {
+    const text = segment.text ?? '';
+    const generation = this.generation;
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = segment.speechLang ?? '';
+    utterance.onboundary = event => {
+      if (generation === this.generation) this.setProgress(index, event.charIndex / Math.max(1, text.length));
+    };
+    utterance.onend = () => {
+      if (generation !== this.generation) return;
+      clearInterval(this.speechTimer);
+      this.speaking = null;
+      this.playSegment(index + 1);
+    };
+    utterance.onerror = event => {
+      if (generation !== this.generation) return;
+      if (event.error !== 'interrupted' && event.error !== 'canceled') this.fail(new Error(event.error));
+    };
+    this.speaking = { index, length: Math.max(1, text.length), elapsed: 0 };
+    this.startSpeechTimer();
+    speechSynthesis.speak(utterance);
+  }
+
+  // Many Android voices send no boundary events, so progress is estimated from time as well
+  private static startSpeechTimer(): void {
+    clearInterval(this.speechTimer);
+    this.speechTimer = setInterval(() => {
+      const speaking = this.speaking;
+      if (!speaking) return;
+      speaking.elapsed += 0.5;
+      const estimate = Math.min(0.95, (speaking.elapsed * SPEECH_CHARS_PER_SECOND) / speaking.length);
+      if (estimate > this.state.progress * this.segments.length - speaking.index) this.setProgress(speaking.index, estimate);
+    }, 500);
+  }
+
+  private static setProgress(index: number, fraction: number): void {
+    this.setState({ ...this.state, progress: (index + Math.min(1, fraction)) / this.segments.length });
+  }
+
+  private static fail(error: unknown): void {
+    console.error('Audio playback failed:', error);
+    this.stop();
+  }
+
+  private static setState(state: PlayerState): void {
+    this.state = state;
+    this.listeners.forEach(listener => listener(state));
+  }
+}
@@ -0,0 +1,120 @@
+import { Language } from '../constants';
+import { toCsv } from './csv';
+import { idTime } from './database';
+import { HistoryItem } from './historyStore';
+import { localize } from './i18n';
+import { KnowledgeBase } from './knowledgeBase';
+
+// --- Types ---
+
+export type OutcomeResult = 'cured' | 'improved' | 'unchanged' | 'worse';
+
+export const OUTCOME_RESULTS: OutcomeResult[] = ['cured', 'improved', 'unchanged', 'worse'];
+
+/** The farmer's answer to "did the treatment work?" for a case. */
+export interface CaseOutcome {
+  result: OutcomeResult;
+  /** ISO 8601 */
+  recordedAt: string;
+}
+
+/** Repeated scans of one plant or plot, followed over time. */
+export interface ScanCase {
+  /** Id of the case's first scan, which also holds its outcome. */
+  id: string;
+  /** Oldest first. */
+  scans: HistoryItem[];
+  plotId?: string;
+  crop?: string;
+  /** `Disease.id` of the latest scan that named one. */
+  diseaseId?: string;
+  outcome?: CaseOutcome;
+}
+
+/** A new scan of a plot continues its latest open case if that was scanned within this many days. */
+export const CASE_WINDOW_DAYS = 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// --- Helpers ---
+
+/** Milliseconds since the epoch of a scan; dates of early versions were locale strings, so those fall back to the id. */
+export function scanTime(item: Pick<HistoryItem, 'id' | 'date'>): number {
+  if (/^\d{4}-\d{2}-\d{2}T/.test(item.date)) return Date.parse(item.date);
+  return idTime(item.id) ?? (Date.parse(item.date) || 0);
+}
+
+/** The scan's date in the phone's locale. */
+export function scanDate(item: HistoryItem): string {
+  return new Date(scanTime(item)).toLocaleDateString();
+}
+
+/** Case id of a scan; scans from before cases each stand alone. */
+export function caseIdOf(item: HistoryItem): string {
+  return item.caseId ?? item.id;
+}
+
+// --- Grouping ---
+
+/** Groups history into cases, the most recently scanned first. */
+export function groupCases(history: HistoryItem[]): ScanCase[] {
+  const byCase = new Map<string, HistoryItem[]>();
+  for (const item of history) {
+    const id = caseIdOf(item);
+    byCase.set(id, [...(byCase.get(id) ?? []), item]);
+  }
+  return [...byCase.entries()]
+    .map(([id, items]) => {
+      const scans = items.sort((a, b) => scanTime(a) - scanTime(b));
+      const latest = scans[scans.length - 1];
+      return {
+        id,
+        scans,
+        plotId: latest.plotId,
+        crop: latest.crop,
+        diseaseId: [...scans].reverse().find(s => s.diseaseId)?.diseaseId,
+        outcome: scans.find(s => s.id === id)?.outcome
+      };
+    })
+    .sort((a, b) => scanTime(b.scans[b.scans.length - 1]) - scanTime(a.scans[a.scans.length - 1]));
+}
+
+/**
+ * The case a new scan of `plotId` belongs to: the plot's latest case when it
+ * has no outcome yet and was scanned in the last `CASE_WINDOW_DAYS`.
+ * Undefined starts a new case, as does a scan without a plot.
+ */
+export function openCaseFor(history: HistoryItem[], plotId: string | undefined, now: number = Date.now()): string | undefined {
+  if (!plotId) return undefined;
+  const latest = groupCases(history).find(c => c.plotId === plotId);
+  if (!latest || latest.outcome) return undefined;
+  const lastScan = scanTime(latest.scans[latest.scans.length - 1]);
+  return now - lastScan <= CASE_WINDOW_DAYS * DAY_MS ? latest.id : undefined;
+}
+
+// --- Export ---
+
+/**
+ * One row per scan, grouped by case, for agronomists to check which
+ * treatments work. Disease names are given in `lang` next to their ids.
+ */
+export function casesToCsv(cases: ScanCase[], plotName: (plotId: string | undefined) => string, lang: Language): string {
+  const header = ['case_id', 'plot', 'crop', 'scan_id', 'scanned_at', 'status', 'disease_id', 'disease', 'confidence', 'severity', 'outcome', 'outcome_at'];
+  const rows = cases.flatMap(c => c.scans.map(scan => {
+    const disease = KnowledgeBase.find(scan.diseaseId);
+    return [
+      c.id,
+      plotName(scan.plotId),
+      scan.crop,
+      scan.id,
+      new Date(scanTime(scan)).toISOString(),
+      scan.status,
+      scan.diseaseId,
+      disease && localize(disease.name, lang),
+      scan.confidence,
+      scan.severity,
+      c.outcome?.result,
+      c.outcome?.recordedAt
+    ];
+  }));
+  return toCsv(header, rows);
+}
@@ -0,0 +1,96 @@
+import { Language } from '../constants';
+import { AdviceError, deviceId } from './adviceService';
+import { ChatMessage, HistoryItem, HistoryStore } from './historyStore';
+import { newId } from './database';
+import { encodeJpegBase64 } from './imagePreprocessor';
+import { DEFAULT_LANGUAGE } from './i18n';
+
+export const CHAT_URL = '/api/chat';
+/** Long edge of the photo sent with a conversation; enough to see lesions. */
+const CHAT_IMAGE_EDGE = 768;
+
+// --- Helpers ---
+
+async function encodeImage(image: Blob | undefined): Promise<string | undefined> {
+  if (!image) return undefined;
+  try {
+    return await encodeJpegBase64(image, CHAT_IMAGE_EDGE);
+  } catch (error) {
+    console.error('Chat image encoding failed:', error);
+    return undefined;
+  }
+}
+
+// --- Service ---
+
+/**
+ * Follow-up questions about a saved diagnosis, answered by Gemini through the
+ * API server with the diagnosed photo as context. Questions are stored on the
+ * history item as `queued` first, so nothing is lost when the phone is
+ * offline; `sendQueued` answers them once a connection is available.
+ */
+export class ChatService {
+  private static sending = new Set<string>();
+
+  /** Appends a question to the item's chat, queued until it is answered. */
+  static async enqueue(item: HistoryItem, text: string, lang: Language): Promise<HistoryItem> {
+    const question: ChatMessage = { id: newId(), role: 'user', text, createdAt: new Date().toISOString(), lang, queued: true };
+    const updated = await HistoryStore.patch(item.id, current => ({ chat: [...(current.chat ?? []), question] }));
+    if (!updated) throw new Error(`History item ${item.id} no longer exists`);
+    return updated;
+  }
+
+  static hasQueued(item: HistoryItem): boolean {
+    return !!item.chat?.some(m => m.queued);
+  }
+
+  /**
+   * Answers the item's queued questions in order, saving and reporting the
+   * item after each answer. Throws `AdviceError` when a request fails; the
+   * remaining questions stay queued for the next attempt.
+   */
+  static async sendQueued(item: HistoryItem, onChange: (item: HistoryItem) => void): Promise<void> {
+    if (!item.diseaseId || this.sending.has(item.id) || !this.hasQueued(item)) return;
+    this.sending.add(item.id);
+    try {
+      const image = await encodeImage(await HistoryStore.getImage(item.id));
+      let current = item;
+      for (;;) {
+        const chat = current.chat ?? [];
+        const index = chat.findIndex(m => m.queued);
+        if (index < 0) break;
+
+        const { queued, ...question } = chat[index];
+        const reply = await this.ask(current.diseaseId!, question.lang ?? DEFAULT_LANGUAGE, image, chat.slice(0, index + 1));
+        const answer: ChatMessage = { id: newId(), role: 'model', text: reply, createdAt: new Date().toISOString(), lang: question.lang };
+        // Questions may have been added meanwhile, so insert into the stored chat
+        const updated = await HistoryStore.patch(current.id, latest => ({
+          chat: (latest.chat ?? []).flatMap(m => (m.id === question.id ? [question, answer] : [m]))
+        }));
+        if (!updated) break;
+        current = updated;
+        onChange(current);
+      }
+    } finally {
+      this.sending.delete(item.id);
+    }
+  }
+
+  private static async ask(diseaseId: string, lang: Language, image: string | undefined, messages: ChatMessage[]): Promise<string> {
+    let response: Response;
+    try {
+      response = await fetch(CHAT_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Device-Id': deviceId() },
+        body: JSON.stringify({ diseaseId, lang, image, messages: messages.map(({ role, text }) => ({ role, text })) })
+      });
+    } catch (error) {
+      throw new AdviceError(error instanceof Error ? error.message : String(error), 'unavailable');
+    }
+
+    const body = await response.json().catch(() => ({}));
+    if (response.status === 429) throw new AdviceError('Chat rate limit reached', 'rate-limited', body.retryAfter);
+    if (!response.ok || typeof body.reply !== 'string') throw new AdviceError(`Chat request failed: ${body.error ?? response.statusText}`, 'unavailable');
+    return body.reply;
+  }
+}
@@ -0,0 +1,13 @@
+// CSV for spreadsheets agronomists and woreda offices already use.
+
+export type CsvValue = string | number | undefined;
+
+function csvField(value: CsvValue): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** RFC 4180 CSV with a header row; a byte order mark lets Excel read Amharic as UTF-8. */
+export function toCsv(header: string[], rows: CsvValue[][]): string {
+  return '\uFEFF' + [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
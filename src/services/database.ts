@@ -0,0 +1,116 @@
+// The app's IndexedDB database, shared by every local store.
+
+import { SyncKind } from './syncProtocol';
+
+const DB_NAME = 'agrigasha';
+const DB_VERSION = 6;
+
+/** Object store names. */
+export const STORES = {
+  history: 'history',
+  images: 'images',
+  farmers: 'farmers',
+  farms: 'farms',
+  plots: 'plots',
+  plans: 'plans',
+  tombstones: 'tombstones',
+  /** Values the service worker needs, which cannot read localStorage (public/sw.js). */
+  settings: 'settings'
+} as const;
+
+/** Sync bookkeeping kept on synced items and tombstones, see src/services/syncService.ts. */
+export interface SyncMeta {
+  /** Set by a change made on this phone until the server has acknowledged it. */
+  pending?: boolean;
+  /** Device that made the last change, for changes that arrived by sync. */
+  deviceId?: string;
+}
+
+/** Left behind by a deleted item so sync can pass the deletion on. */
+export interface Tombstone extends SyncMeta {
+  kind: SyncKind;
+  id: string;
+  /** ISO 8601 time of the deletion. */
+  updatedAt: string;
+}
+
+let db: Promise<IDBDatabase> | null = null;
+
+/** Opens the database once, creating any object store that is missing. */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!db) {
+    db = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = event => {
+        const upgrade = req.result;
+        const keyed = [STORES.history, STORES.farmers, STORES.farms, STORES.plots, STORES.plans];
+        for (const name of keyed) {
+          if (!upgrade.objectStoreNames.contains(name)) upgrade.createObjectStore(name, { keyPath: 'id' });
+        }
+        // Photos are keyed by their history item's id
+        if (!upgrade.objectStoreNames.contains(STORES.images)) upgrade.createObjectStore(STORES.images);
+        if (!upgrade.objectStoreNames.contains(STORES.tombstones)) upgrade.createObjectStore(STORES.tombstones, { keyPath: ['kind', 'id'] });
+        if (!upgrade.objectStoreNames.contains(STORES.settings)) upgrade.createObjectStore(STORES.settings);
+
+        // Before version 5 scan dates were the phone's locale date string, e.g. "19/10/2026"
+        if (event.oldVersion > 0 && event.oldVersion < 5) {
+          req.transaction!.objectStore(STORES.history).openCursor().onsuccess = e => {
+            const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+            if (!cursor) return;
+            const time = idTime(cursor.value.id);
+            if (time !== undefined) cursor.update({ ...cursor.value, date: new Date(time).toISOString() });
+            cursor.continue();
+          };
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    // Ask the browser not to evict scans under storage pressure
+    navigator.storage?.persist?.().catch(() => false);
+  }
+  return db;
+}
+
+export function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/** Unique across devices; starts with the time so ids sort by creation. */
+export function newId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/** When an id from `newId`, or a plain `Date.now()` id of early versions, was made. */
+export function idTime(id: string): number | undefined {
+  const match = /^(\d{13})(?:-|$)/.exec(id);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * ISO 8601 time for a change, later than `previous` even if this phone's
+ * clock is behind the device that made the previous change.
+ */
+export function changeTime(previous?: string): string {
+  const after = previous ? Date.parse(previous) + 1 : 0;
+  return new Date(Math.max(Date.now(), after)).toISOString();
+}
+
+/**
+ * Fields to stamp on an item or tombstone changed on this phone: its change
+ * time, and a mark that it waits for upload until the server has it.
+ */
+export function localChange(previous?: string): { updatedAt: string } & SyncMeta {
+  return { updatedAt: changeTime(previous), pending: true, deviceId: undefined };
+}
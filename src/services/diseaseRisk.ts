@@ -0,0 +1,87 @@
+import { KnowledgeBase } from './knowledgeBase';
+import { DailyWeather, Forecast } from './weatherService';
+
+// --- Types ---
+export type RiskLevel = 'low' | 'moderate' | 'high';
+
+export interface DiseaseRisk {
+  diseaseId: string;
+  /** `Crop.id` the rule was made for. */
+  crop: string;
+  level: RiskLevel;
+  /** Days in the window whose weather favours the disease. */
+  favourableDays: number;
+  /** Days of weather the assessment looked at. */
+  days: number;
+}
+
+/**
+ * When the weather favours one disease. A day counts as favourable when
+ * `favourable` holds; the level follows from how many of the window's days
+ * do.
+ */
+interface RiskRule {
+  diseaseId: string;
+  crop: string;
+  favourable: (day: DailyWeather) => boolean;
+  moderateDays: number;
+  highDays: number;
+}
+
+/** Infections of the last week show up now; the next days decide the coming ones. */
+const PAST_DAYS = 7;
+const AHEAD_DAYS = 3;
+
+const LEVELS: RiskLevel[] = ['low', 'moderate', 'high'];
+
+/**
+ * Rules of thumb from extension guidance, deliberately simple so an agent can
+ * explain them to a farmer.
+ */
+const RULES: RiskRule[] = [
+  {
+    // Rust spores need liquid water on the leaf and mild temperatures to germinate
+    diseaseId: 'coffee_rust',
+    crop: 'coffee',
+    favourable: day => day.tempMean >= 18 && day.tempMean <= 28 && (day.wetHours >= 6 || day.rainMm >= 1),
+    moderateDays: 3,
+    highDays: 6
+  },
+  {
+    diseaseId: 'wheat_rust',
+    crop: 'wheat',
+    favourable: day => day.tempMean >= 10 && day.tempMean <= 25 && day.wetHours >= 6,
+    moderateDays: 3,
+    highDays: 6
+  },
+  {
+    // The leafhoppers that carry the virus fly most in warm, dry spells
+    diseaseId: 'maize_streak',
+    crop: 'maize',
+    favourable: day => day.tempMean >= 24 && day.rainMm < 1,
+    moderateDays: 5,
+    highDays: 8
+  }
+];
+
+// --- Model ---
+
+/**
+ * Risk of each disease with a rule, for the given crops or all of them,
+ * highest first. Diseases missing from the knowledge base are left out.
+ */
+export function assessRisks(forecast: Forecast, crops?: string[]): DiseaseRisk[] {
+  const today = forecast.days.findIndex(day => day.date === forecast.today);
+  const window = today < 0
+    ? forecast.days
+    : forecast.days.slice(Math.max(0, today - PAST_DAYS + 1), today + AHEAD_DAYS + 1);
+
+  return RULES
+    .filter(rule => KnowledgeBase.find(rule.diseaseId) && (!crops || crops.includes(rule.crop)))
+    .map(rule => {
+      const favourableDays = window.filter(rule.favourable).length;
+      const level: RiskLevel = favourableDays >= rule.highDays ? 'high' : favourableDays >= rule.moderateDays ? 'moderate' : 'low';
+      return { diseaseId: rule.diseaseId, crop: rule.crop, level, favourableDays, days: window.length };
+    })
+    .sort((a, b) => LEVELS.indexOf(b.level) - LEVELS.indexOf(a.level) || b.favourableDays - a.favourableDays);
+}
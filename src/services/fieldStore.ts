@@ -0,0 +1,88 @@
+import { STORES, localChange, openDatabase, request, transactionDone } from './database';
+
+// --- Types ---
+export interface Farmer {
+  id: string;
+  name: string;
+  village?: string;
+  /** ISO 8601 time of the last change, for sync. */
+  updatedAt?: string;
+}
+
+export interface Farm {
+  id: string;
+  farmerId: string;
+  name: string;
+  updatedAt?: string;
+}
+
+export interface Plot {
+  id: string;
+  farmId: string;
+  name: string;
+  /** `Crop.id` grown on the plot. */
+  crop?: string;
+  /** Local or improved variety name, e.g. "74110" for coffee. */
+  variety?: string;
+  updatedAt?: string;
+}
+
+export type GrowthStage = 'seedling' | 'vegetative' | 'flowering' | 'fruiting' | 'mature';
+
+export const GROWTH_STAGES: GrowthStage[] = ['seedling', 'vegetative', 'flowering', 'fruiting', 'mature'];
+
+export interface Fields {
+  farmers: Farmer[];
+  farms: Farm[];
+  plots: Plot[];
+}
+
+// --- Helpers ---
+
+/** "Farmer › Farm › Plot" for a plot, skipping parts that no longer exist. */
+export function plotPath(fields: Fields, plotId: string | undefined): string {
+  const plot = fields.plots.find(p => p.id === plotId);
+  if (!plot) return '';
+  const farm = fields.farms.find(f => f.id === plot.farmId);
+  const farmer = farm && fields.farmers.find(f => f.id === farm.farmerId);
+  return [farmer?.name, farm?.name, plot.name].filter(Boolean).join(' › ');
+}
+
+// --- Store ---
+
+/**
+ * Farmers, their farms and the plots on each farm, kept on the phone so a
+ * cooperative agent can tag scans while visiting farms without a signal.
+ */
+export class FieldStore {
+  static async getAll(): Promise<Fields> {
+    const db = await openDatabase();
+    const tx = db.transaction([STORES.farmers, STORES.farms, STORES.plots]);
+    const byName = <T extends { name: string }>(a: T, b: T) => a.name.localeCompare(b.name);
+    const [farmers, farms, plots] = await Promise.all([
+      request<Farmer[]>(tx.objectStore(STORES.farmers).getAll()),
+      request<Farm[]>(tx.objectStore(STORES.farms).getAll()),
+      request<Plot[]>(tx.objectStore(STORES.plots).getAll())
+    ]);
+    return { farmers: farmers.sort(byName), farms: farms.sort(byName), plots: plots.sort(byName) };
+  }
+
+  static saveFarmer(farmer: Farmer): Promise<void> {
+    return this.put(STORES.farmers, farmer);
+  }
+
+  static saveFarm(farm: Farm): Promise<void> {
+    return this.put(STORES.farms, farm);
+  }
+
+  static savePlot(plot: Plot): Promise<void> {
+    return this.put(STORES.plots, plot);
+  }
+
+  private static async put(store: string, value: Farmer | Farm | Plot): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(store, 'readwrite');
+    tx.objectStore(store).put({ ...value, ...localChange(value.updatedAt) });
+    await transactionDone(tx);
+  }
+}
@@ -0,0 +1,106 @@
+import bundledBoundaries from '../data/boundaries.json';
+import { LocalizedText } from '../constants';
+
+// --- Types ---
+export type AreaLevel = 'woreda' | 'kebele';
+
+export interface AreaProperties {
+  id: string;
+  name: LocalizedText;
+  level: AreaLevel;
+  /** Woreda id of a kebele. */
+  parent?: string;
+  /** `Region.id` from the knowledge base. */
+  region: string;
+}
+
+type Ring = [number, number][];
+
+export type AreaGeometry =
+  | { type: 'Polygon', coordinates: Ring[] }
+  | { type: 'MultiPolygon', coordinates: Ring[][] };
+
+export interface AreaFeature {
+  type: 'Feature';
+  properties: AreaProperties;
+  geometry: AreaGeometry;
+}
+
+export interface AreaCollection {
+  type: 'FeatureCollection';
+  version: string;
+  features: AreaFeature[];
+}
+
+/** [west, south, east, north] in degrees. */
+export type BoundingBox = [number, number, number, number];
+
+/**
+ * Administrative boundaries bundled with the app and the server, so the
+ * outbreak map needs no tile service and works offline. Coordinates are
+ * [longitude, latitude] as in any GeoJSON.
+ */
+export const BOUNDARIES = bundledBoundaries as AreaCollection;
+
+// --- Helpers ---
+
+function polygons(geometry: AreaGeometry): Ring[][] {
+  return geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+}
+
+// Even-odd ray casting
+function inRing(ring: Ring, lon: number, lat: number): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > lat) !== (yj > lat) && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+export function containsPoint(feature: AreaFeature, latitude: number, longitude: number): boolean {
+  return polygons(feature.geometry).some(([outer, ...holes]) =>
+    inRing(outer, longitude, latitude) && !holes.some(hole => inRing(hole, longitude, latitude)));
+}
+
+/** Every area, at any level, that contains the point. */
+export function areasAt(latitude: number, longitude: number, boundaries: AreaCollection = BOUNDARIES): AreaFeature[] {
+  return boundaries.features.filter(f => containsPoint(f, latitude, longitude));
+}
+
+export function boundingBox(features: AreaFeature[]): BoundingBox {
+  const box: BoundingBox = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const feature of features) {
+    for (const polygon of polygons(feature.geometry)) {
+      for (const [lon, lat] of polygon[0]) {
+        box[0] = Math.min(box[0], lon);
+        box[1] = Math.min(box[1], lat);
+        box[2] = Math.max(box[2], lon);
+        box[3] = Math.max(box[3], lat);
+      }
+    }
+  }
+  return box;
+}
+
+/**
+ * SVG path data for an area in a `width` wide view of `box`. Uses an
+ * equirectangular projection scaled by the cosine of the middle latitude,
+ * which is accurate enough at Ethiopia's latitudes.
+ */
+export function areaPath(feature: AreaFeature, box: BoundingBox, width: number): string {
+  const [west, , east, north] = box;
+  const kx = width / (east - west);
+  const ky = viewHeight(box, width) / (north - box[1]);
+  const point = ([lon, lat]: [number, number]) => `${((lon - west) * kx).toFixed(1)},${((north - lat) * ky).toFixed(1)}`;
+  return polygons(feature.geometry)
+    .flatMap(polygon => polygon.map(ring => `M${ring.map(point).join('L')}Z`))
+    .join('');
+}
+
+/** Height of the view `areaPath` draws into for the same box and width. */
+export function viewHeight(box: BoundingBox, width: number): number {
+  const [west, south, east, north] = box;
+  return (width * (north - south)) / ((east - west) * Math.cos(((south + north) / 2) * Math.PI / 180));
+}
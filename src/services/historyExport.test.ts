@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createZip } from './zip';
+import { EXPORT_FORMAT, EXPORT_VERSION, HistoryImportError, historyToJson, readHistoryFile } from './historyExport';
+import { HistoryItem } from './historyStore';
+
+const scan = { id: '1760860800000-abcd1234', date: '2025-10-19T08:00:00.000Z', status: 'success', diseaseId: 'coffee_rust' };
+
+function backup(items: unknown[]): Blob {
+  return new Blob([JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, exportedAt: scan.date, lang: 'en', items })]);
+}
+
+test('imports a malformed backup without the fields the app would crash on', async () => {
+  const { items, invalid } = await readHistoryFile(backup([
+    {
+      ...scan,
+      heatmap: {},
+      location: { latitude: '9.0', longitude: 38.7 },
+      predictions: [{ label: 'coffee_rust' }],
+      chat: [{ id: 'm1', role: 'user', text: 'hi' }],
+      symptoms: { spot_colour: 3 },
+      outcome: { result: 'gone' },
+      confidence: 'high',
+      growthStage: 'ripe',
+      diseaseName: 'Coffee Leaf Rust',
+      pending: true
+    },
+    { id: 'no-date', status: 'success' },
+    { ...scan, id: '1760860800001-efgh5678', status: 'done' },
+    'not a scan',
+    null
+  ]));
+
+  assert.equal(invalid, 4);
+  assert.deepEqual(items, [scan]);
+});
+
+test('keeps well-formed nested fields', async () => {
+  const full = {
+    ...scan,
+    confidence: 87,
+    heatmap: { rows: 1, cols: 2, cells: [0.8, null] },
+    location: { latitude: 9, longitude: 38.7, accuracy: 12, capturedAt: scan.date },
+    predictions: [{ label: 'coffee_rust', confidence: 87 }],
+    chat: [{ id: 'm1', role: 'user', text: 'hi', createdAt: scan.date, lang: 'am' }],
+    symptoms: { spot_colour: 'orange', leaf_side: null },
+    outcome: { result: 'improved', recordedAt: scan.date }
+  };
+  const { items, invalid } = await readHistoryFile(await createZip([{ name: 'history.json', data: backup([full]) }]));
+
+  assert.equal(invalid, 0);
+  assert.deepEqual(items, [full]);
+});
+
+test('keeps the last changed copy of a duplicated id', async () => {
+  const older = { ...scan, updatedAt: '2025-10-19T09:00:00.000Z', crop: 'coffee' };
+  const newer = { ...scan, updatedAt: '2025-10-20T09:00:00.000Z', crop: 'maize' };
+  const { items } = await readHistoryFile(backup([newer, older]));
+
+  assert.deepEqual(items, [newer]);
+});
+
+test('restores scans with a locale date from early versions', async () => {
+  const old: HistoryItem = { ...scan, status: 'success', date: '19/10/2025' };
+  const { items, invalid } = await readHistoryFile(new Blob([historyToJson([old], 'en')]));
+
+  assert.equal(invalid, 0);
+  assert.deepEqual(items, [scan]);
+
+  // Files exported before dates were normalized hold the locale date itself
+  const earlier = await readHistoryFile(backup([old]));
+  assert.deepEqual(earlier.items, [scan]);
+});
+
+test('refuses files that are not history backups', async () => {
+  await assert.rejects(readHistoryFile(new Blob(['{"items": []}'])), HistoryImportError);
+  await assert.rejects(readHistoryFile(new Blob(['not json'])), HistoryImportError);
+});
@@ -0,0 +1,278 @@
+import { Language } from '../constants';
+import { CaseOutcome, OUTCOME_RESULTS, OutcomeResult, scanTime } from './cases';
+import { toCsv } from './csv';
+import { SyncMeta } from './database';
+import { GROWTH_STAGES, GrowthStage } from './fieldStore';
+import { ChatMessage, HistoryItem, HistoryStore } from './historyStore';
+import { isLanguage, localize } from './i18n';
+import { KnowledgeBase } from './knowledgeBase';
+import { GeoFix } from './locationService';
+import { DiagnosisStatus, LesionHeatmap, Prediction } from './mlService';
+import { SymptomAnswers } from './questionnaire';
+import { SecondOpinion } from './secondOpinionService';
+import { ZipEntry, createZip, isZip, readZip } from './zip';
+
+// --- Types ---
+
+/** A scan as written to a backup, without its thumbnail, which is rebuilt from the photo on import. */
+export type ExportedItem = Omit<HistoryItem, 'thumbnail'> & {
+  /** The disease's name in the export's language, for reading the file without the app; ignored on import. */
+  diseaseName?: string;
+};
+
+/** history.json, on its own or inside a backup zip. */
+export interface HistoryExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  /** ISO 8601 */
+  exportedAt: string;
+  lang: Language;
+  items: ExportedItem[];
+}
+
+/** Scans read from a backup file, valid and each id once. */
+export interface HistoryImport {
+  items: Omit<HistoryItem, 'thumbnail'>[];
+  /** Photos by history item id; only zip backups have them. */
+  images: Map<string, Blob>;
+  /** Entries left out because they were not valid scans. */
+  invalid: number;
+}
+
+export class HistoryImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HistoryImportError';
+  }
+}
+
+export const EXPORT_FORMAT = 'agrigasha-history';
+/** Raised when the file layout changes; files from a newer version are refused. */
+export const EXPORT_VERSION = 1;
+
+const JSON_FILE = 'history.json';
+const CSV_FILE = 'history.csv';
+const IMAGE_DIR = 'images/';
+const STATUSES: DiagnosisStatus[] = ['success', 'unknown', 'model-unavailable', 'image-invalid'];
+const MAX_ID_LENGTH = 100;
+const IMAGE_TYPES: Record<string, string> = { jpg: 'image/jpeg', png: 'image/png', webp: 'image/webp' };
+
+// --- Helpers ---
+
+function diseaseName(item: HistoryItem, lang: Language): string | undefined {
+  const disease = KnowledgeBase.find(item.diseaseId);
+  return disease && localize(disease.name, lang);
+}
+
+/**
+ * Sync bookkeeping stays on the phone; an imported scan is a new change
+ * there. Locale dates of early versions are written as ISO 8601, so the file
+ * reads the same on a phone in another locale.
+ */
+function exportedItem(item: HistoryItem, lang: Language): ExportedItem {
+  const { thumbnail, pending, deviceId, ...data } = item as HistoryItem & SyncMeta;
+  return { ...data, date: new Date(scanTime(item)).toISOString(), diseaseName: diseaseName(item, lang) };
+}
+
+function imageName(id: string, image: Blob): string {
+  const extension = Object.keys(IMAGE_TYPES).find(ext => IMAGE_TYPES[ext] === image.type) ?? 'jpg';
+  return `${IMAGE_DIR}${encodeURIComponent(id)}.${extension}`;
+}
+
+type Entry = Record<string, unknown>;
+
+function isObject(value: unknown): value is Entry {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isPercent = (value: unknown): value is number => isNumber(value) && value >= 0 && value <= 100;
+const isTime = (value: unknown): value is string => typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+// Shapes of the nested fields the result screen reads; a file can hold anything
+
+function isHeatmap(value: unknown): value is LesionHeatmap {
+  return isObject(value) && Number.isInteger(value.rows) && Number.isInteger(value.cols)
+    && (value.rows as number) > 0 && (value.cols as number) > 0
+    && Array.isArray(value.cells) && value.cells.length === (value.rows as number) * (value.cols as number)
+    && value.cells.every(cell => cell === null || isNumber(cell));
+}
+
+function isGeoFix(value: unknown): value is GeoFix {
+  return isObject(value) && isNumber(value.latitude) && Math.abs(value.latitude) <= 90
+    && isNumber(value.longitude) && Math.abs(value.longitude) <= 180
+    && isNumber(value.accuracy) && isTime(value.capturedAt);
+}
+
+function isPrediction(value: unknown): value is Prediction {
+  return isObject(value) && typeof value.label === 'string' && isPercent(value.confidence);
+}
+
+function isSecondOpinion(value: unknown): value is SecondOpinion {
+  return isObject(value) && typeof value.label === 'string' && isPercent(value.confidence) && typeof value.reasoning === 'string';
+}
+
+function isChatMessage(value: unknown): value is ChatMessage {
+  return isObject(value) && typeof value.id === 'string' && (value.role === 'user' || value.role === 'model')
+    && typeof value.text === 'string' && isTime(value.createdAt)
+    && (value.lang === undefined || isLanguage(value.lang))
+    && (value.queued === undefined || typeof value.queued === 'boolean');
+}
+
+function isSymptoms(value: unknown): value is SymptomAnswers {
+  return isObject(value) && Object.values(value).every(answer => answer === null || typeof answer === 'string');
+}
+
+function isOutcome(value: unknown): value is CaseOutcome {
+  return isObject(value) && OUTCOME_RESULTS.includes(value.result as OutcomeResult) && isTime(value.recordedAt);
+}
+
+/**
+ * The scan in a backup entry, or undefined when it lacks a valid id, date
+ * or status. A locale date, as in files exported before dates were
+ * normalized, is read like `scanTime` does, from the id's time if it has
+ * one. Optional fields of the wrong shape are dropped rather than failing
+ * the whole scan, and fields the app does not know are left out.
+ */
+function toHistoryItem(value: unknown): Omit<HistoryItem, 'thumbnail'> | undefined {
+  if (!isObject(value)) return undefined;
+  const { id, date, status } = value;
+  if (typeof id !== 'string' || id.length === 0 || id.length > MAX_ID_LENGTH || typeof date !== 'string' || !STATUSES.includes(status as DiagnosisStatus)) {
+    return undefined;
+  }
+  const time = scanTime({ id, date });
+  if (!(time > 0)) return undefined;
+  const optional = <T>(key: string, valid: (v: unknown) => v is T): T | undefined => (valid(value[key]) ? value[key] as T : undefined);
+  const isString = (v: unknown): v is string => typeof v === 'string';
+  const item: Omit<HistoryItem, 'thumbnail'> = {
+    id,
+    date: new Date(time).toISOString(),
+    status: status as DiagnosisStatus,
+    updatedAt: optional('updatedAt', isTime),
+    diseaseId: optional('diseaseId', isString),
+    crop: optional('crop', isString),
+    plotId: optional('plotId', isString),
+    variety: optional('variety', isString),
+    growthStage: optional('growthStage', (v): v is GrowthStage => GROWTH_STAGES.includes(v as GrowthStage)),
+    location: optional('location', isGeoFix),
+    confidence: optional('confidence', isPercent),
+    severity: optional('severity', isPercent),
+    heatmap: optional('heatmap', isHeatmap),
+    predictions: optional('predictions', (v): v is Prediction[] => Array.isArray(v) && v.every(isPrediction)),
+    secondOpinion: optional('secondOpinion', isSecondOpinion),
+    symptoms: optional('symptoms', isSymptoms),
+    caseId: optional('caseId', isString),
+    outcome: optional('outcome', isOutcome),
+    chat: optional('chat', (v): v is ChatMessage[] => Array.isArray(v) && v.every(isChatMessage))
+  };
+  // Absent fields stay absent, as in a scan saved by the app
+  for (const key of Object.keys(item) as (keyof typeof item)[]) {
+    if (item[key] === undefined) delete item[key];
+  }
+  return item;
+}
+
+// --- Export ---
+
+/**
+ * One row per scan for spreadsheets. Disease names are given in `lang` next
+ * to their ids; the plot is written out as farmer, farm and plot.
+ */
+export function historyToCsv(items: HistoryItem[], plotName: (plotId: string | undefined) => string, lang: Language): string {
+  const header = ['scan_id', 'scanned_at', 'plot', 'crop', 'variety', 'growth_stage', 'status', 'disease_id', 'disease', 'confidence', 'severity', 'latitude', 'longitude', 'case_id'];
+  const rows = items.map(item => [
+    item.id,
+    new Date(scanTime(item)).toISOString(),
+    plotName(item.plotId),
+    item.crop,
+    item.variety,
+    item.growthStage,
+    item.status,
+    item.diseaseId,
+    diseaseName(item, lang),
+    item.confidence,
+    item.severity,
+    item.location?.latitude,
+    item.location?.longitude,
+    item.caseId
+  ]);
+  return toCsv(header, rows);
+}
+
+/** Every field of each scan except its thumbnail, readable back by `readHistoryFile`. */
+export function historyToJson(items: HistoryItem[], lang: Language): string {
+  const data: HistoryExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    lang,
+    items: items.map(item => exportedItem(item, lang))
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+/** A full backup: history.json, history.csv and each scan's original photo under images/. */
+export async function historyToZip(items: HistoryItem[], plotName: (plotId: string | undefined) => string, lang: Language): Promise<Blob> {
+  const entries: ZipEntry[] = [
+    { name: JSON_FILE, data: new Blob([historyToJson(items, lang)]) },
+    { name: CSV_FILE, data: new Blob([historyToCsv(items, plotName, lang)]) }
+  ];
+  for (const item of items) {
+    const image = await HistoryStore.getImage(item.id);
+    if (image) entries.push({ name: imageName(item.id, image), data: image });
+  }
+  return createZip(entries);
+}
+
+// --- Import ---
+
+/**
+ * Reads a backup made by `historyToJson` or `historyToZip`. Entries that
+ * are not valid scans are counted and left out, as are malformed fields of
+ * valid ones (see `toHistoryItem`); of several entries with the
+ * same id the last changed is kept. Throws `HistoryImportError` when the
+ * file is not a history backup at all.
+ */
+export async function readHistoryFile(file: Blob): Promise<HistoryImport> {
+  const images = new Map<string, Blob>();
+  let text: string;
+  if (isZip(new Uint8Array(await file.slice(0, 4).arrayBuffer()))) {
+    let files: Map<string, Blob>;
+    try {
+      files = await readZip(file);
+    } catch (error) {
+      throw new HistoryImportError(error instanceof Error ? error.message : String(error));
+    }
+    const json = files.get(JSON_FILE);
+    if (!json) throw new HistoryImportError(`The zip file has no ${JSON_FILE}`);
+    text = await json.text();
+    for (const [name, data] of files) {
+      const match = /^images\/([^/]+)\.(\w+)$/.exec(name);
+      if (match) images.set(decodeURIComponent(match[1]), new Blob([data], { type: IMAGE_TYPES[match[2].toLowerCase()] ?? 'image/jpeg' }));
+    }
+  } else {
+    text = await file.text();
+  }
+
+  let data: Partial<HistoryExport>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new HistoryImportError('The file is not JSON');
+  }
+  if (data?.format !== EXPORT_FORMAT || !Array.isArray(data.items)) throw new HistoryImportError('The file is not an AgriGasha history export');
+  if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) throw new HistoryImportError('The file was made by a newer version of the app');
+
+  const byId = new Map<string, Omit<HistoryItem, 'thumbnail'>>();
+  let invalid = 0;
+  for (const entry of data.items as unknown[]) {
+    const item = toHistoryItem(entry);
+    if (!item) {
+      invalid++;
+      continue;
+    }
+    const current = byId.get(item.id);
+    if (!current || (item.updatedAt ?? '') > (current.updatedAt ?? '')) byId.set(item.id, item);
+  }
+  return { items: [...byId.values()], images, invalid };
+}
@@ -0,0 +1,278 @@
+import { Language } from '../constants';
+import { DiagnosisStatus, LesionHeatmap, Prediction } from './mlService';
+import { resizeImage } from './imagePreprocessor';
+import { STORES, Tombstone, localChange, openDatabase, request, transactionDone } from './database';
+import { GrowthStage } from './fieldStore';
+import { GeoFix } from './locationService';
+import { SymptomAnswers } from './questionnaire';
+import { CaseOutcome } from './cases';
+import { SecondOpinion } from './secondOpinionService';
+
+// --- Types ---
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'model';
+  text: string;
+  /** ISO 8601 timestamp. */
+  createdAt: string;
+  /** Language a question was asked in; the answer uses the same one. */
+  lang?: Language;
+  /** Set on questions asked offline until they are answered. */
+  queued?: boolean;
+}
+
+export interface HistoryItem {
+  id: string;
+  /** ISO 8601 time of the scan; older scans may hold a locale date string, see `scanTime`. */
+  date: string;
+  /** ISO 8601 time of the last change, for sync. */
+  updatedAt?: string;
+  status: DiagnosisStatus;
+  /** `Disease.id` or `healthy`; absent when no diagnosis was made. */
+  diseaseId?: string;
+  crop?: string;
+  /** `Plot.id` the scan was taken on; farm and farmer follow from the plot. */
+  plotId?: string;
+  variety?: string;
+  growthStage?: GrowthStage;
+  /** Where the photo was taken, when GPS tagging is on. */
+  location?: GeoFix;
+  confidence?: number;
+  /** Estimated percentage of leaf area affected, from lesion mapping. */
+  severity?: number;
+  heatmap?: LesionHeatmap;
+  /** On-device top-K predictions, including uncertain ones. */
+  predictions?: Prediction[];
+  /** Gemini's diagnosis of the same photo, requested when the on-device one was uncertain. */
+  secondOpinion?: SecondOpinion;
+  /**
+   * Answers to the symptom questionnaire. With `predictions` they give the
+   * ranking shown (see `rankCandidates`); on their own, a diagnosis made
+   * without a photo.
+   */
+  symptoms?: SymptomAnswers;
+  /** Id of the first scan of the same plant or plot, when this one follows it up; see src/services/cases.ts. */
+  caseId?: string;
+  /** Whether the treatment worked; kept on a case's first scan. */
+  outcome?: CaseOutcome;
+  /** Small JPEG for the history list; absent if the photo could not be decoded. */
+  thumbnail?: Blob;
+  /**
+   * False when the scan was saved without a photo, e.g. from the
+   * questionnaire alone, so sync does not wait for one. Absent on scans
+   * saved before it was recorded, which all have a photo.
+   */
+  hasPhoto?: boolean;
+  /** Follow-up conversation with the assistant about this diagnosis. */
+  chat?: ChatMessage[];
+}
+
+/** Shape of entries written to localStorage before history moved to IndexedDB. */
+interface LegacyHistoryItem extends Omit<HistoryItem, 'thumbnail' | 'status'> {
+  status?: DiagnosisStatus;
+  image: string;
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+export class HistorySaveError extends Error {
+  constructor(message: string, readonly quotaExceeded: boolean) {
+    super(message);
+    this.name = 'HistorySaveError';
+  }
+}
+
+const ITEMS = STORES.history;
+const IMAGES = STORES.images;
+const LEGACY_KEY = 'agrigasha_history';
+const THUMBNAIL_SIZE = 160;
+
+// --- Helpers ---
+
+export async function dataUrlToBlob(dataUrl: string): Promise<Blob> {
+  const response = await fetch(dataUrl);
+  return response.blob();
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+async function makeThumbnail(image: Blob): Promise<Blob | undefined> {
+  try {
+    return await resizeImage(image, THUMBNAIL_SIZE);
+  } catch (error) {
+    console.error('Thumbnail generation failed:', error);
+    return undefined;
+  }
+}
+
+// --- Store ---
+
+/**
+ * Scan history in IndexedDB. Item metadata and thumbnails live in one object
+ * store and the full-resolution photos in another, so listing history never
+ * reads the originals.
+ */
+export class HistoryStore {
+  private static open(): Promise<IDBDatabase> {
+    return openDatabase();
+  }
+
+  /** All history items, newest first. */
+  static async getAll(): Promise<HistoryItem[]> {
+    const db = await this.open();
+    const items = await request<HistoryItem[]>(db.transaction(ITEMS).objectStore(ITEMS).getAll());
+    return items.sort((a, b) => b.id.localeCompare(a.id, undefined, { numeric: true }));
+  }
+
+  /** The original photo for a history item. */
+  static async getImage(id: string): Promise<Blob | undefined> {
+    const db = await this.open();
+    return request<Blob | undefined>(db.transaction(IMAGES).objectStore(IMAGES).get(id));
+  }
+
+  /**
+   * Saves a scan with its original photo and a generated thumbnail; a
+   * diagnosis from the questionnaire alone has no photo.
+   * Throws `HistorySaveError` when the write fails, e.g. because storage is full.
+   */
+  static async add(item: Omit<HistoryItem, 'thumbnail'>, image?: Blob): Promise<HistoryItem> {
+    const saved: HistoryItem = { ...item, ...localChange(), hasPhoto: !!image, thumbnail: image && await makeThumbnail(image) };
+    const db = await this.open();
+    try {
+      const tx = db.transaction([ITEMS, IMAGES], 'readwrite');
+      tx.objectStore(ITEMS).put(saved);
+      if (image) tx.objectStore(IMAGES).put(image, item.id);
+      await transactionDone(tx);
+    } catch (error) {
+      const quotaExceeded = error instanceof DOMException && error.name === 'QuotaExceededError';
+      throw new HistorySaveError(error instanceof Error ? error.message : String(error), quotaExceeded);
+    }
+    return saved;
+  }
+
+  /**
+   * Changes some fields of a saved item, e.g. its chat, and returns the
+   * updated item. `changes` may be computed from the stored item; reading and
+   * writing in one transaction keeps concurrent patches from overwriting each
+   * other. The photo is untouched. Resolves undefined if the item is gone.
+   */
+  static async patch(
+    id: string,
+    changes: Partial<Omit<HistoryItem, 'id'>> | ((current: HistoryItem) => Partial<Omit<HistoryItem, 'id'>>)
+  ): Promise<HistoryItem | undefined> {
+    const db = await this.open();
+    try {
+      const tx = db.transaction(ITEMS, 'readwrite');
+      const store = tx.objectStore(ITEMS);
+      const current = await request<HistoryItem | undefined>(store.get(id));
+      const updated = current && {
+        ...current,
+        ...(typeof changes === 'function' ? changes(current) : changes),
+        ...localChange(current.updatedAt)
+      };
+      if (updated) store.put(updated);
+      await transactionDone(tx);
+      return updated;
+    } catch (error) {
+      const quotaExceeded = error instanceof DOMException && error.name === 'QuotaExceededError';
+      throw new HistorySaveError(error instanceof Error ? error.message : String(error), quotaExceeded);
+    }
+  }
+
+  /**
+   * Deletes every scan, leaving tombstones so synced devices delete them too.
+   */
+  static async clear(): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([ITEMS, IMAGES, STORES.tombstones], 'readwrite');
+    const items = await request<HistoryItem[]>(tx.objectStore(ITEMS).getAll());
+    for (const item of items) {
+      const tombstone: Tombstone = { kind: 'history', id: item.id, ...localChange(item.updatedAt) };
+      tx.objectStore(STORES.tombstones).put(tombstone);
+    }
+    tx.objectStore(ITEMS).clear();
+    tx.objectStore(IMAGES).clear();
+    await transactionDone(tx);
+  }
+
+  /**
+   * Adds scans from a backup with their photos, skipping any whose id is
+   * already stored: the copy on the phone may have changed since the backup.
+   * A restored scan that was deleted here loses its tombstone, so sync passes
+   * it on again. Resolves how many scans were added.
+   */
+  static async importItems(items: Omit<HistoryItem, 'thumbnail'>[], images: Map<string, Blob>): Promise<number> {
+    const db = await this.open();
+    const stored = new Set(await request<IDBValidKey[]>(db.transaction(ITEMS).objectStore(ITEMS).getAllKeys()));
+    let added = 0;
+    for (const item of items) {
+      if (stored.has(item.id)) continue;
+      const image = images.get(item.id);
+      const saved: HistoryItem = { ...item, ...localChange(item.updatedAt), hasPhoto: !!image, thumbnail: image && await makeThumbnail(image) };
+      try {
+        const tx = db.transaction([ITEMS, IMAGES, STORES.tombstones], 'readwrite');
+        tx.objectStore(ITEMS).put(saved);
+        if (image) tx.objectStore(IMAGES).put(image, item.id);
+        tx.objectStore(STORES.tombstones).delete(['history', item.id]);
+        await transactionDone(tx);
+      } catch (error) {
+        const quotaExceeded = error instanceof DOMException && error.name === 'QuotaExceededError';
+        throw new HistorySaveError(error instanceof Error ? error.message : String(error), quotaExceeded);
+      }
+      added++;
+    }
+    return added;
+  }
+
+  /** Stores the photo of an item that arrived without one, e.g. by sync, and its thumbnail. */
+  static async saveImage(id: string, image: Blob): Promise<void> {
+    const thumbnail = await makeThumbnail(image);
+    const db = await this.open();
+    const tx = db.transaction([ITEMS, IMAGES], 'readwrite');
+    const item = await request<HistoryItem | undefined>(tx.objectStore(ITEMS).get(id));
+    if (item) {
+      tx.objectStore(ITEMS).put({ ...item, thumbnail });
+      tx.objectStore(IMAGES).put(image, id);
+    }
+    await transactionDone(tx);
+  }
+
+  /**
+   * Moves entries from the old localStorage history into IndexedDB.
+   * The localStorage key is removed only after every entry is stored, so an
+   * interrupted migration is retried on the next start.
+   */
+  static async migrateFromLocalStorage(): Promise<void> {
+    let legacy: LegacyHistoryItem[];
+    try {
+      const saved = localStorage.getItem(LEGACY_KEY);
+      if (!saved) return;
+      legacy = JSON.parse(saved);
+    } catch (e) {
+      console.error("Legacy history read failed", e);
+      return;
+    }
+
+    for (const { image, ...item } of legacy) {
+      // Entries saved before statuses were recorded were all diagnoses
+      await this.add({ ...item, status: item.status ?? 'success' }, await dataUrlToBlob(image));
+    }
+    localStorage.removeItem(LEGACY_KEY);
+  }
+
+  static async estimateUsage(): Promise<StorageUsage | null> {
+    if (!navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+  }
+}
@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { Language, Translation, translations } from '../constants';
+import { I18n, LOCALES } from './i18n';
+
+const reference = translations.en;
+const placeholders = (text: string) => [...text.matchAll(/\{(\w+)\}/g)].map(m => m[1]);
+
+/** Keys added after the partial locales were translated; they show in the fallback language. */
+const NEWER_KEYS: (keyof Translation)[] = [
+  'retakeHint', 'modelUnavailable', 'modelUnavailableHint', 'imageInvalid', 'imageInvalidHint', 'storageFull',
+  'saveFailed', 'storageUsage', 'tooSmallHint', 'tooDarkHint', 'overexposedHint', 'blurryHint', 'preHarvestInterval',
+  'adviceUnavailable', 'adviceRateLimited', 'adviceLoading', 'chemicalOptions', 'whenToCallAgent', 'askAssistant',
+  'chatPlaceholder', 'chatQueued', 'chatFailed', 'secondOpinion', 'onDeviceOpinion', 'geminiOpinion', 'opinionsAgree',
+  'opinionsDisagree', 'opinionInconclusive', 'fields', 'scanningFor', 'noPlotSelected', 'farmerName', 'village',
+  'farmName', 'plotName', 'crop', 'variety', 'growthStage', 'addFarmer', 'addFarm', 'addPlot', 'noFarmers',
+  'stageSeedling', 'stageVegetative', 'stageFlowering', 'stageFruiting', 'stageMature', 'allFarmers', 'allFarms',
+  'allPlots', 'allStages', 'noMatchingScans', 'gpsTagging', 'gpsTaggingHint', 'sync', 'syncHint', 'syncServer',
+  'syncToken', 'syncNow', 'syncNever', 'syncLast', 'syncInProgress', 'syncOffline', 'syncFailed', 'syncPendingImages',
+  'dashboard', 'dashboardHint', 'woreda', 'kebele', 'allDiseases', 'casesInPeriod', 'lastWeeks', 'weeklyTrend',
+  'outbreaks', 'noOutbreaks', 'outbreakDetail', 'dashboardStale', 'noSurveillanceData', 'unmappedCases', 'allAreas',
+  'alertTitle', 'alertBody', 'alerts', 'alertsHint', 'alertCrops', 'alertRadius', 'useMyLocation',
+  'locationUnavailable', 'subscribeAlerts', 'unsubscribeAlerts', 'alertsPush', 'alertsInApp', 'alertsFailed',
+  'nearbyOutbreaks', 'openInLibrary', 'weather', 'weatherTap', 'weatherClear', 'weatherPartlyCloudy', 'weatherCloudy',
+  'weatherFog', 'weatherRain', 'weatherStorm', 'humidity', 'diseaseRisk', 'riskLow', 'riskModerate', 'riskHigh',
+  'riskReason', 'noDiseaseRisk', 'forecastFrom', 'marketPrices', 'marketPricesHint', 'pricesUpdated', 'pricesStale',
+  'noPrices', 'priceHistory', 'pricePerUnit', 'listen', 'pause', 'noAudio', 'readAloud', 'readAloudHint',
+  'symptomQuestionnaire', 'symptomQuestionnaireHint', 'cameraUnavailable', 'answerQuestions', 'refineWithQuestions',
+  'whichCrop', 'answerByVoice', 'listening', 'yes', 'no', 'notSure', 'yesWords', 'noWords', 'basedOnAnswers',
+  'seeResult', 'treatmentPlan', 'treatmentPlanHint', 'startTreatmentPlan', 'noSpray', 'taskSpray', 'taskSprayRepeat',
+  'taskRescan', 'markDone', 'overdue', 'scanNow', 'harvestAfter', 'stopPlan', 'treatmentTasks', 'remindersOff',
+  'cases', 'scans', 'progress', 'scanCount', 'addScan', 'outcomeQuestion', 'outcomeCured', 'outcomeImproved',
+  'outcomeUnchanged', 'outcomeWorse', 'exportCases', 'exportImport', 'exportImportHint', 'exportCsv', 'exportJson',
+  'exportZip', 'importHistory', 'importResult', 'importFailed', 'printReport', 'scanReport', 'reportDate'
+];
+
+/**
+ * Keys each locale is known not to translate yet. A key added to
+ * `Translation` must be translated or listed here, and a key translated
+ * later must be removed, so the list stays the translators' to-do list.
+ */
+const UNTRANSLATED: Partial<Record<Language, (keyof Translation)[]>> = {
+  om: NEWER_KEYS,
+  ti: [
+    ...NEWER_KEYS,
+    'aboutContent', 'gashaMeaning', 'uncertain', 'healthyHint', 'retakeNeeded', 'affectedAreas', 'severity',
+    'organicOptions', 'approvedChemicals', 'severityStages'
+  ],
+  so: [
+    ...NEWER_KEYS,
+    'aboutContent', 'gashaMeaning', 'retakeNeeded', 'affectedAreas', 'severity', 'organicOptions',
+    'approvedChemicals', 'foundIn'
+  ]
+};
+
+test('locales translate every key but the ones listed as untranslated', async () => {
+  for (const { lang, missing } of await I18n.report()) {
+    assert.deepEqual([...missing].sort(), [...(UNTRANSLATED[lang] ?? [])].sort(), `${lang}: missing keys`);
+  }
+});
+
+test('translations only use the placeholders the app fills in', async () => {
+  for (const { code } of LOCALES) {
+    await I18n.load(code);
+    const translated = I18n.resolve(code);
+    for (const key of Object.keys(translated) as (keyof Translation)[]) {
+      // A translation may leave a value out, but one the app does not fill in would show as "{name}"
+      const unknown = placeholders(translated[key]).filter(p => !placeholders(reference[key]).includes(p));
+      assert.deepEqual(unknown, [], `${code}: placeholders of ${key}`);
+    }
+  }
+});
@@ -0,0 +1,129 @@
+import { translations, Language, BaseLanguage, Translation, TranslationBundle, LocalizedText } from '../constants';
+
+// --- Types ---
+export interface LocaleInfo {
+  code: Language;
+  /** Name in the language itself, shown in the picker. */
+  nativeName: string;
+  englishName: string;
+  /** Label for the compact header button. */
+  shortName: string;
+  /** BCP 47 tag for speech synthesis. */
+  speechLang: string;
+  /** Tried in order for each key the locale lacks, before English. */
+  fallbacks: Language[];
+}
+
+export interface MissingKeyReport {
+  lang: Language;
+  missing: (keyof Translation)[];
+}
+
+/**
+ * Supported locales in picker order. Farmers who read Afaan Oromo or
+ * Tigrinya usually also read Amharic, so it is their first fallback; English
+ * is always the last resort because it is the complete reference locale.
+ */
+export const LOCALES: LocaleInfo[] = [
+  { code: 'am', nativeName: 'አማርኛ', englishName: 'Amharic', shortName: 'አማ', speechLang: 'am-ET', fallbacks: [] },
+  { code: 'om', nativeName: 'Afaan Oromoo', englishName: 'Afaan Oromo', shortName: 'OM', speechLang: 'om-ET', fallbacks: ['am'] },
+  { code: 'ti', nativeName: 'ትግርኛ', englishName: 'Tigrinya', shortName: 'ትግ', speechLang: 'ti-ET', fallbacks: ['am'] },
+  { code: 'so', nativeName: 'Soomaali', englishName: 'Somali', shortName: 'SO', speechLang: 'so-ET', fallbacks: [] },
+  { code: 'en', nativeName: 'English', englishName: 'English', shortName: 'EN', speechLang: 'en-US', fallbacks: [] }
+];
+
+export const DEFAULT_LANGUAGE: Language = 'am';
+const REFERENCE_LANGUAGE: BaseLanguage = 'en';
+
+/** Locale bundles that are code-split and only downloaded when selected. */
+const LAZY_BUNDLES: Record<Exclude<Language, BaseLanguage>, () => Promise<{ default: TranslationBundle }>> = {
+  om: () => import('../locales/om'),
+  ti: () => import('../locales/ti'),
+  so: () => import('../locales/so')
+};
+
+// --- Helpers ---
+
+export function isLanguage(value: unknown): value is Language {
+  return LOCALES.some(l => l.code === value);
+}
+
+export function localeInfo(lang: Language): LocaleInfo {
+  return LOCALES.find(l => l.code === lang) ?? LOCALES.find(l => l.code === REFERENCE_LANGUAGE)!;
+}
+
+/** The languages tried for `lang`, most preferred first, always ending in English. */
+export function fallbackChain(lang: Language): Language[] {
+  const chain = [lang, ...localeInfo(lang).fallbacks, REFERENCE_LANGUAGE];
+  return chain.filter((l, i) => chain.indexOf(l) === i);
+}
+
+/** Picks the best available translation of knowledge base text. */
+export function localize(text: LocalizedText, lang: Language): string {
+  for (const l of fallbackChain(lang)) {
+    const value = text[l];
+    if (value) return value;
+  }
+  return text[REFERENCE_LANGUAGE];
+}
+
+/** Replaces `{name}` placeholders in a translated string. */
+export function format(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key) => (key in values ? String(values[key]) : match));
+}
+
+// --- Store ---
+
+/**
+ * UI translations. Amharic and English ship with the app; other locales are
+ * fetched on first use and merged key by key over their fallback chain, so a
+ * partly translated locale is still fully usable.
+ */
+export class I18n {
+  private static bundles: Partial<Record<Language, TranslationBundle>> = { ...translations };
+
+  static isLoaded(lang: Language): boolean {
+    return lang in this.bundles;
+  }
+
+  /** Downloads the bundle for `lang` if needed and returns the merged translation. */
+  static async load(lang: Language): Promise<Translation> {
+    if (!this.isLoaded(lang)) {
+      const loader = LAZY_BUNDLES[lang as Exclude<Language, BaseLanguage>];
+      this.bundles[lang] = (await loader()).default;
+    }
+    return this.resolve(lang);
+  }
+
+  /**
+   * Merges the loaded bundles along the fallback chain of `lang`. Usable
+   * before `load` finishes: keys come from the fallbacks until then.
+   */
+  static resolve(lang: Language): Translation {
+    const chain = fallbackChain(lang);
+    const reference = translations[REFERENCE_LANGUAGE];
+    const merged = {} as Translation;
+    for (const key of Object.keys(reference) as (keyof Translation)[]) {
+      const source = chain.find(l => this.bundles[l]?.[key]);
+      merged[key] = source ? this.bundles[source]![key]! : reference[key];
+    }
+    return merged;
+  }
+
+  /** Keys the bundle for `lang` does not translate; empty until it is loaded. */
+  static missingKeys(lang: Language): (keyof Translation)[] {
+    const bundle = this.bundles[lang];
+    if (!bundle) return [];
+    return (Object.keys(translations[REFERENCE_LANGUAGE]) as (keyof Translation)[]).filter(key => !bundle[key]);
+  }
+
+  /** Loads every locale and lists its untranslated keys, for translators. */
+  static async report(): Promise<MissingKeyReport[]> {
+    const reports: MissingKeyReport[] = [];
+    for (const { code } of LOCALES) {
+      await this.load(code);
+      reports.push({ lang: code, missing: this.missingKeys(code) });
+    }
+    return reports;
+  }
+}
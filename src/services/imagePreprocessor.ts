@@ -0,0 +1,280 @@
+// --- Types ---
+export type QualityIssue = 'too-small' | 'too-dark' | 'overexposed' | 'blurry';
+
+/** Rectangle in source image pixels. */
+export interface CropRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Limits for `checkQuality`. Brightness values are 0-255 luma; sharpness is
+ * the variance of the Laplacian measured on a copy scaled to `ANALYSIS_SIZE`.
+ */
+export const QUALITY_THRESHOLDS = {
+  minEdge: 224,
+  minBrightness: 45,
+  maxBrightness: 215,
+  maxClippedFraction: 0.4,
+  minSharpness: 40
+};
+
+/** Width in CSS pixels of the dark border around the camera framing guide. */
+export const GUIDE_INSET = 60;
+
+const ANALYSIS_SIZE = 256;
+/** Uploaded photos are scaled down to this edge length before storing. */
+const MAX_EDGE = 2048;
+
+// --- Helpers ---
+
+function createCanvas(width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  return canvas;
+}
+
+function context(canvas: HTMLCanvasElement): CanvasRenderingContext2D {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  return ctx;
+}
+
+/**
+ * Reads the EXIF orientation tag (1-8) from a JPEG; 1 when absent.
+ */
+export function readExifOrientation(buffer: ArrayBuffer): number {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xFFD8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    // APP1 segment holding "Exif\0\0"
+    if (marker === 0xFFE1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      if (tiff + 8 > view.byteLength) return 1;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      if (ifd + 2 > view.byteLength) return 1;
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 10 > view.byteLength) return 1;
+        if (view.getUint16(entry, little) === 0x0112) return view.getUint16(entry + 8, little);
+      }
+      return 1;
+    }
+    // Stop at start of scan or on anything that is not a marker
+    if ((marker & 0xFF00) !== 0xFF00 || marker === 0xFFDA) return 1;
+    offset += 2 + length;
+  }
+  return 1;
+}
+
+/**
+ * Browsers that support `image-orientation` already rotate images by their
+ * EXIF tag when decoding, so the tag must not be applied a second time.
+ */
+function browserAppliesOrientation(): boolean {
+  return typeof CSS !== 'undefined' && CSS.supports?.('image-orientation', 'from-image');
+}
+
+function decode(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to decode image'));
+    img.src = src;
+  });
+}
+
+// --- Pipeline ---
+
+/**
+ * Decodes an uploaded file upright, applying its EXIF orientation, and scales
+ * it down to at most `MAX_EDGE` pixels on the long side.
+ */
+export async function loadOrientedImage(file: Blob): Promise<HTMLCanvasElement> {
+  const orientation = browserAppliesOrientation() ? 1 : readExifOrientation(await file.slice(0, 128 * 1024).arrayBuffer());
+  const url = URL.createObjectURL(file);
+  try {
+    const img = await decode(url);
+    const scale = Math.min(1, MAX_EDGE / Math.max(img.naturalWidth, img.naturalHeight));
+    const w = img.naturalWidth * scale;
+    const h = img.naturalHeight * scale;
+    const swap = orientation >= 5;
+    const canvas = createCanvas(swap ? h : w, swap ? w : h);
+    const ctx = context(canvas);
+
+    switch (orientation) {
+      case 2: ctx.transform(-1, 0, 0, 1, w, 0); break;
+      case 3: ctx.transform(-1, 0, 0, -1, w, h); break;
+      case 4: ctx.transform(1, 0, 0, -1, 0, h); break;
+      case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+      case 6: ctx.transform(0, 1, -1, 0, h, 0); break;
+      case 7: ctx.transform(0, -1, -1, 0, h, w); break;
+      case 8: ctx.transform(0, -1, 1, 0, 0, w); break;
+    }
+    ctx.drawImage(img, 0, 0, w, h);
+    return canvas;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/** Draws a photo scaled down to at most `maxEdge` pixels on the long side. */
+async function scaledCanvas(image: Blob, maxEdge: number): Promise<HTMLCanvasElement> {
+  const bitmap = await createImageBitmap(image);
+  const scale = Math.min(1, maxEdge / Math.max(bitmap.width, bitmap.height));
+  const canvas = createCanvas(bitmap.width * scale, bitmap.height * scale);
+  context(canvas).drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvas;
+}
+
+/** Scaled-down JPEG copy of a photo, e.g. for thumbnails. */
+export async function resizeImage(image: Blob, maxEdge: number, quality = 0.7): Promise<Blob | undefined> {
+  const canvas = await scaledCanvas(image, maxEdge);
+  return new Promise<Blob | undefined>(resolve => canvas.toBlob(b => resolve(b ?? undefined), 'image/jpeg', quality));
+}
+
+/** Scaled-down JPEG copy of a photo as bare base64, for sending to the API server. */
+export async function encodeJpegBase64(image: Blob, maxEdge: number, quality = 0.8): Promise<string> {
+  const canvas = await scaledCanvas(image, maxEdge);
+  return canvas.toDataURL('image/jpeg', quality).split(',')[1];
+}
+
+/** Decodes an image source (data or object URL) onto a canvas. */
+export async function readImage(src: string): Promise<HTMLCanvasElement> {
+  const img = await decode(src);
+  const canvas = createCanvas(img.naturalWidth, img.naturalHeight);
+  context(canvas).drawImage(img, 0, 0);
+  return canvas;
+}
+
+/**
+ * Maps the on-screen framing guide of a full-bleed `object-cover` video onto
+ * video frame pixels, so the capture matches what the farmer framed.
+ */
+export function guideRegion(video: HTMLVideoElement, inset: number = GUIDE_INSET): CropRegion {
+  const frameW = video.videoWidth;
+  const frameH = video.videoHeight;
+  const viewW = video.clientWidth;
+  const viewH = video.clientHeight;
+  if (!viewW || !viewH) return { x: 0, y: 0, width: frameW, height: frameH };
+
+  const scale = Math.max(viewW / frameW, viewH / frameH);
+  const offsetX = (viewW - frameW * scale) / 2;
+  const offsetY = (viewH - frameH * scale) / 2;
+  const x = Math.max(0, (inset - offsetX) / scale);
+  const y = Math.max(0, (inset - offsetY) / scale);
+  return {
+    x,
+    y,
+    width: Math.min(frameW - x, (viewW - 2 * inset) / scale),
+    height: Math.min(frameH - y, (viewH - 2 * inset) / scale)
+  };
+}
+
+/** Copies a region of any drawable source onto a new canvas. */
+export function crop(source: CanvasImageSource, region: CropRegion): HTMLCanvasElement {
+  const canvas = createCanvas(region.width, region.height);
+  context(canvas).drawImage(source, region.x, region.y, region.width, region.height, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+/** Largest centered square, so resizing for the model keeps the aspect ratio. */
+export function centerSquare(canvas: HTMLCanvasElement): HTMLCanvasElement {
+  const edge = Math.min(canvas.width, canvas.height);
+  return crop(canvas, { x: (canvas.width - edge) / 2, y: (canvas.height - edge) / 2, width: edge, height: edge });
+}
+
+/**
+ * Rejects photos that are too small, too dark, overexposed or blurry.
+ * Returns the first problem found, or null when the photo is usable.
+ */
+export function checkQuality(canvas: HTMLCanvasElement, minEdge: number = QUALITY_THRESHOLDS.minEdge): QualityIssue | null {
+  if (Math.min(canvas.width, canvas.height) < minEdge) return 'too-small';
+
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(canvas.width, canvas.height));
+  const w = Math.max(3, Math.round(canvas.width * scale));
+  const h = Math.max(3, Math.round(canvas.height * scale));
+  const small = createCanvas(w, h);
+  const ctx = context(small);
+  ctx.drawImage(canvas, 0, 0, w, h);
+  const { data } = ctx.getImageData(0, 0, w, h);
+
+  const luma = new Float32Array(w * h);
+  let sum = 0;
+  let clipped = 0;
+  for (let i = 0; i < luma.length; i++) {
+    const v = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    luma[i] = v;
+    sum += v;
+    if (v >= 250) clipped++;
+  }
+  const mean = sum / luma.length;
+  if (mean < QUALITY_THRESHOLDS.minBrightness) return 'too-dark';
+  if (mean > QUALITY_THRESHOLDS.maxBrightness || clipped / luma.length > QUALITY_THRESHOLDS.maxClippedFraction) {
+    return 'overexposed';
+  }
+
+  // Variance of the 4-neighbour Laplacian: low values mean few sharp edges
+  let lapSum = 0;
+  let lapSq = 0;
+  let n = 0;
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const i = y * w + x;
+      const lap = luma[i - w] + luma[i + w] + luma[i - 1] + luma[i + 1] - 4 * luma[i];
+      lapSum += lap;
+      lapSq += lap * lap;
+      n++;
+    }
+  }
+  const variance = lapSq / n - (lapSum / n) ** 2;
+  if (variance < QUALITY_THRESHOLDS.minSharpness) return 'blurry';
+
+  return null;
+}
+
+/**
+ * Share (0-1) of pixels that look like plant tissue: green, yellow or brown
+ * hues with enough saturation and light. Rough, but good enough to tell a
+ * leaf from sky, soil shadows and hands for lesion mapping.
+ */
+export function leafFraction(canvas: HTMLCanvasElement): number {
+  const scale = Math.min(1, 64 / Math.max(canvas.width, canvas.height));
+  const w = Math.max(1, Math.round(canvas.width * scale));
+  const h = Math.max(1, Math.round(canvas.height * scale));
+  const small = createCanvas(w, h);
+  const ctx = context(small);
+  ctx.drawImage(canvas, 0, 0, w, h);
+  const { data } = ctx.getImageData(0, 0, w, h);
+
+  let plant = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i] / 255;
+    const g = data[i + 1] / 255;
+    const b = data[i + 2] / 255;
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const saturation = max === 0 ? 0 : (max - min) / max;
+    if (max < 0.15 || saturation < 0.15) continue;
+
+    let hue: number;
+    if (max === r) hue = 60 * (((g - b) / (max - min)) % 6);
+    else if (max === g) hue = 60 * ((b - r) / (max - min) + 2);
+    else hue = 60 * ((r - g) / (max - min) + 4);
+    if (hue < 0) hue += 360;
+
+    // Brown/orange lesions through yellow to green leaf tissue
+    if (hue >= 15 && hue <= 170) plant++;
+  }
+  return plant / (w * h);
+}
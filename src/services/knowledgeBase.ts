@@ -0,0 +1,227 @@
+import bundledData from '../data/knowledge-base.json';
+import { Language, Disease, Crop, KnowledgeBaseData, PathogenType, SymptomQuestion } from '../constants';
+import { isLanguage, localize } from './i18n';
+
+// --- Types ---
+export class KnowledgeBaseError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid knowledge base:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+    this.name = 'KnowledgeBaseError';
+  }
+}
+
+/**
+ * Served next to the app by the offline plugin in vite.config.ts. Replacing
+ * this file on the server updates the catalogue without a rebuild.
+ */
+export const KNOWLEDGE_BASE_URL = '/knowledge-base.json';
+
+/**
+ * Every localized field must have a non-empty value in each of these. Other
+ * supported languages are optional and fall back per field.
+ */
+export const REQUIRED_LANGUAGES: Language[] = ['am', 'en'];
+
+const PATHOGEN_TYPES: PathogenType[] = ['fungus', 'virus', 'bacterium', 'oomycete', 'nematode', 'insect', 'abiotic'];
+
+// --- Validation ---
+
+/**
+ * Checks an untrusted knowledge base package against the schema and returns
+ * it typed. Collects every problem, including each missing translation, and
+ * throws them together as a `KnowledgeBaseError`.
+ */
+export function validateKnowledgeBase(input: unknown): KnowledgeBaseData {
+  const problems: string[] = [];
+  const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+  const isString = (v: unknown): v is string => typeof v === 'string' && v.trim().length > 0;
+
+  const text = (value: unknown, path: string, optional = false) => {
+    if (value === undefined && optional) return;
+    if (!isObject(value)) {
+      problems.push(`${path} must be an object of translations`);
+      return;
+    }
+    for (const lang of REQUIRED_LANGUAGES) {
+      if (!isString(value[lang])) problems.push(`${path}.${lang} translation is missing`);
+    }
+    for (const [lang, translation] of Object.entries(value)) {
+      if (!isLanguage(lang)) problems.push(`${path}.${lang} is not a supported language`);
+      else if (!isString(translation)) problems.push(`${path}.${lang} translation is empty`);
+    }
+  };
+  const list = (value: unknown, path: string): any[] => {
+    if (!Array.isArray(value)) {
+      problems.push(`${path} must be an array`);
+      return [];
+    }
+    return value;
+  };
+  const ids = (value: unknown, path: string): Set<string> => {
+    const seen = new Set<string>();
+    list(value, path).forEach((entry, i) => {
+      if (!isObject(entry) || !isString(entry.id)) {
+        problems.push(`${path}[${i}].id is required`);
+        return;
+      }
+      if (seen.has(entry.id)) problems.push(`${path}[${i}].id "${entry.id}" is a duplicate`);
+      seen.add(entry.id);
+      text(entry.name, `${path}[${i}].name`);
+    });
+    return seen;
+  };
+
+  if (!isObject(input)) throw new KnowledgeBaseError(['package must be a JSON object']);
+  if (!isString(input.version)) problems.push('version is required');
+
+  const regionIds = ids(input.regions, 'regions');
+  const cropIds = ids(input.crops, 'crops');
+  ids(input.diseases, 'diseases');
+
+  // Option ids by question id
+  const questionOptions = new Map<string, Set<string>>();
+  if (input.questions !== undefined) {
+    list(input.questions, 'questions').forEach((q, i) => {
+      const at = `questions[${i}]`;
+      if (!isObject(q) || !isString(q.id)) {
+        problems.push(`${at}.id is required`);
+        return;
+      }
+      if (questionOptions.has(q.id)) problems.push(`${at}.id "${q.id}" is a duplicate`);
+      text(q.text, `${at}.text`);
+      const options = new Set<string>();
+      list(q.options, `${at}.options`).forEach((o, j) => {
+        if (!isString(o?.id)) problems.push(`${at}.options[${j}].id is required`);
+        else if (options.has(o.id)) problems.push(`${at}.options[${j}].id "${o.id}" is a duplicate`);
+        else options.add(o.id);
+        text(o?.label, `${at}.options[${j}].label`);
+        text(o?.question, `${at}.options[${j}].question`);
+      });
+      if (options.size < 2) problems.push(`${at}.options must list at least two options`);
+      questionOptions.set(q.id, options);
+    });
+  }
+
+  list(input.diseases, 'diseases').forEach((d, i) => {
+    if (!isObject(d)) return;
+    const at = `diseases[${i}]`;
+    for (const field of ['symptoms', 'treatment', 'prevention']) text(d[field], `${at}.${field}`);
+    if (!PATHOGEN_TYPES.includes(d.pathogenType)) problems.push(`${at}.pathogenType "${d.pathogenType}" is not one of ${PATHOGEN_TYPES.join(', ')}`);
+
+    const crops = list(d.crops, `${at}.crops`);
+    if (crops.length === 0) problems.push(`${at}.crops must list at least one crop`);
+    crops.forEach(c => { if (!cropIds.has(c)) problems.push(`${at}.crops "${c}" is not a known crop`); });
+    list(d.regions, `${at}.regions`).forEach(r => { if (!regionIds.has(r)) problems.push(`${at}.regions "${r}" is not a known region`); });
+
+    list(d.severityStages, `${at}.severityStages`).forEach((s, j) => {
+      if (!Number.isInteger(s?.level) || s.level < 1) problems.push(`${at}.severityStages[${j}].level must be a positive integer`);
+      text(s?.name, `${at}.severityStages[${j}].name`);
+      text(s?.description, `${at}.severityStages[${j}].description`);
+    });
+    list(d.referenceImages, `${at}.referenceImages`).forEach((img, j) => {
+      if (!isString(img?.url)) problems.push(`${at}.referenceImages[${j}].url is required`);
+      text(img?.caption, `${at}.referenceImages[${j}].caption`);
+    });
+    list(d.chemicals, `${at}.chemicals`).forEach((c, j) => {
+      if (!isString(c?.activeIngredient)) problems.push(`${at}.chemicals[${j}].activeIngredient is required`);
+      if (!Number.isInteger(c?.preHarvestIntervalDays) || c.preHarvestIntervalDays < 0) {
+        problems.push(`${at}.chemicals[${j}].preHarvestIntervalDays must be a whole number of days`);
+      }
+      if (c?.applications !== undefined && (!Number.isInteger(c.applications) || c.applications < 1)) {
+        problems.push(`${at}.chemicals[${j}].applications must be a positive whole number`);
+      }
+      if ((c?.applications ?? 1) > 1 && (!Number.isInteger(c?.repeatAfterDays) || c.repeatAfterDays < 1)) {
+        problems.push(`${at}.chemicals[${j}].repeatAfterDays must be a positive whole number of days when there are several applications`);
+      }
+      text(c?.dosage, `${at}.chemicals[${j}].dosage`);
+      text(c?.safety, `${at}.chemicals[${j}].safety`, true);
+    });
+    list(d.organicOptions, `${at}.organicOptions`).forEach((o, j) => {
+      text(o?.name, `${at}.organicOptions[${j}].name`);
+      text(o?.instructions, `${at}.organicOptions[${j}].instructions`);
+    });
+    if (d.followUpDays !== undefined && (!Number.isInteger(d.followUpDays) || d.followUpDays < 1)) {
+      problems.push(`${at}.followUpDays must be a positive whole number of days`);
+    }
+    if (d.signs !== undefined) {
+      if (!isObject(d.signs)) problems.push(`${at}.signs must be an object of option ids by question id`);
+      else for (const [questionId, answers] of Object.entries(d.signs)) {
+        const options = questionOptions.get(questionId);
+        if (!options) problems.push(`${at}.signs "${questionId}" is not a known question`);
+        else list(answers, `${at}.signs.${questionId}`).forEach(a => {
+          if (!options.has(a)) problems.push(`${at}.signs.${questionId} "${a}" is not an option of the question`);
+        });
+      }
+    }
+  });
+
+  if (problems.length > 0) throw new KnowledgeBaseError(problems);
+  return input as KnowledgeBaseData;
+}
+
+/** Compares dotted numeric versions; positive when `a` is newer. */
+function compareVersions(a: string, b: string): number {
+  const pa = a.split('.').map(Number);
+  const pb = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] || 0) - (pb[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+// --- Store ---
+
+/**
+ * The disease catalogue. Starts from the package bundled with the app and
+ * switches to a newer package fetched from `KNOWLEDGE_BASE_URL` at runtime.
+ */
+export class KnowledgeBase {
+  // The bundled package is part of the build, so a broken one fails on load
+  private static data: KnowledgeBaseData = validateKnowledgeBase(bundledData);
+
+  static get version(): string {
+    return this.data.version;
+  }
+
+  static all(): Disease[] {
+    return this.data.diseases;
+  }
+
+  static find(id: string | undefined): Disease | undefined {
+    return this.data.diseases.find(d => d.id === id);
+  }
+
+  static crops(): Crop[] {
+    return this.data.crops;
+  }
+
+  static questions(): SymptomQuestion[] {
+    return this.data.questions ?? [];
+  }
+
+  /** Localized crop name; falls back to the raw value for crops saved as plain text. */
+  static cropName(id: string, lang: Language): string {
+    const crop = this.data.crops.find(c => c.id === id);
+    return crop ? localize(crop.name, lang) : id;
+  }
+
+  static regionName(id: string, lang: Language): string {
+    const region = this.data.regions.find(r => r.id === id);
+    return region ? localize(region.name, lang) : id;
+  }
+
+  /**
+   * Fetches the published package and adopts it if it is valid and newer.
+   * Returns true when the catalogue changed. An invalid package is rejected
+   * with a `KnowledgeBaseError` and the current catalogue stays in use.
+   */
+  static async refresh(url: string = KNOWLEDGE_BASE_URL): Promise<boolean> {
+    const response = await fetch(url, { cache: 'no-cache' });
+    if (!response.ok) throw new Error(`Failed to fetch knowledge base: ${response.statusText}`);
+    const data = validateKnowledgeBase(await response.json());
+    if (compareVersions(data.version, this.data.version) <= 0) return false;
+    this.data = data;
+    return true;
+  }
+}
@@ -0,0 +1,88 @@
+// --- Types ---
+
+/** A GPS fix taken when a photo was captured. */
+export interface GeoFix {
+  latitude: number;
+  longitude: number;
+  /** Radius of uncertainty in meters. */
+  accuracy: number;
+  /** ISO 8601 time of the fix. */
+  capturedAt: string;
+}
+
+const SETTING_KEY = 'agrigasha_gps';
+/** Fixes older than this are not attached to a photo. */
+const MAX_FIX_AGE_MS = 2 * 60 * 1000;
+
+function toFix(position: GeolocationPosition): GeoFix {
+  return {
+    latitude: position.coords.latitude,
+    longitude: position.coords.longitude,
+    accuracy: Math.round(position.coords.accuracy),
+    capturedAt: new Date(position.timestamp).toISOString()
+  };
+}
+
+// --- Service ---
+
+/**
+ * GPS tagging for scans. Satellite positioning needs no data connection, so
+ * this works in the field offline. Farmers opt in from settings.
+ */
+export class LocationService {
+  static isEnabled(): boolean {
+    try {
+      return localStorage.getItem(SETTING_KEY) === 'on';
+    } catch (e) {
+      return false;
+    }
+  }
+
+  static setEnabled(enabled: boolean): void {
+    try {
+      localStorage.setItem(SETTING_KEY, enabled ? 'on' : 'off');
+    } catch (e) {
+      console.error("GPS setting save failed", e);
+    }
+  }
+
+  /**
+   * Keeps a fresh fix while the camera is open so one is ready the moment a
+   * photo is taken. Returns a function that stops watching and a getter for
+   * the latest fix, which is undefined when tagging is off or no fix is recent.
+   */
+  static watch(): { latest: () => GeoFix | undefined, stop: () => void } {
+    let fix: GeoFix | undefined;
+    if (!this.isEnabled() || !navigator.geolocation) return { latest: () => undefined, stop: () => {} };
+
+    const id = navigator.geolocation.watchPosition(
+      position => { fix = toFix(position); },
+      error => console.error("GPS fix failed:", error.message),
+      { enableHighAccuracy: true, maximumAge: 30000, timeout: 60000 }
+    );
+    return {
+      latest: () => (fix && Date.now() - Date.parse(fix.capturedAt) < MAX_FIX_AGE_MS ? fix : undefined),
+      stop: () => navigator.geolocation.clearWatch(id)
+    };
+  }
+
+  /**
+   * One fix, regardless of the tagging setting; used where the farmer asks for
+   * their position explicitly, e.g. for outbreak alerts.
+   */
+  static current(): Promise<GeoFix> {
+    return new Promise((resolve, reject) => {
+      if (!navigator.geolocation) return reject(new Error('Geolocation is not supported'));
+      navigator.geolocation.getCurrentPosition(
+        position => resolve(toFix(position)),
+        error => reject(new Error(error.message)),
+        { enableHighAccuracy: false, maximumAge: 10 * 60 * 1000, timeout: 30000 }
+      );
+    });
+  }
+}
+
+/** "9.03012, 38.74021 (±12 m)" */
+export function formatFix(fix: GeoFix): string {
+  return `${fix.latitude.toFixed(5)}, ${fix.longitude.toFixed(5)} (±${fix.accuracy} m)`;
+}
@@ -0,0 +1,174 @@
+// Shared by the app and the server (server/prices.ts): the price feed format
+// a cooperative publishes, and how prices are read from it.
+import { KnowledgeBase } from './knowledgeBase';
+import { normalizeText } from './search';
+import { LOCALES } from './i18n';
+
+// --- Types ---
+
+/** One observed price of a crop at a market on a day. */
+export interface PricePoint {
+  /** `Crop.id` from the knowledge base. */
+  crop: string;
+  /** Market name as the cooperative writes it, e.g. "Jimma". */
+  market: string;
+  /** YYYY-MM-DD */
+  date: string;
+  /** Birr per `unit`. */
+  price: number;
+  /** e.g. "kg" or "quintal" */
+  unit: string;
+}
+
+/** GET /api/prices */
+export interface PriceFeed {
+  /** ISO 8601 time of the last import on the server; null before the first. */
+  updatedAt: string | null;
+  prices: PricePoint[];
+}
+
+/** The latest price of a crop at one market, with the one before it for the trend. */
+export interface MarketPrice extends PricePoint {
+  previous?: number;
+}
+
+export class PriceFeedError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid price feed:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+    this.name = 'PriceFeedError';
+  }
+}
+
+export const DEFAULT_UNIT = 'kg';
+const CSV_COLUMNS = ['crop', 'market', 'date', 'price'];
+const MAX_PROBLEMS = 20;
+
+// --- Parsing ---
+
+/**
+ * `Crop.id` for a crop written as its id or its name in any supported
+ * language, so a feed can say "Coffee", "coffee" or "ቡና".
+ */
+export function cropId(value: string): string | undefined {
+  const wanted = normalizeText(value);
+  return KnowledgeBase.crops().find(crop => crop.id === value.trim()
+    || LOCALES.some(l => crop.name[l.code] && normalizeText(crop.name[l.code]!) === wanted))?.id;
+}
+
+/** Splits CSV text into rows of fields; handles quoted fields with commas, quotes and line breaks. */
+function csvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(f => f.trim())) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field);
+  if (row.some(f => f.trim())) rows.push(row);
+  return rows;
+}
+
+/**
+ * Checks untrusted price entries and returns them with crops resolved to
+ * `Crop.id`. Collects every problem and throws them together as a
+ * `PriceFeedError`; `at` names an entry in the messages.
+ */
+function checkPrices(entries: Record<string, unknown>[], at: (i: number) => string): PricePoint[] {
+  const problems: string[] = [];
+  const prices: PricePoint[] = [];
+  entries.forEach((entry, i) => {
+    const crop = typeof entry.crop === 'string' ? cropId(entry.crop) : undefined;
+    const market = typeof entry.market === 'string' ? entry.market.trim() : '';
+    const date = typeof entry.date === 'string' ? entry.date.trim() : '';
+    const price = typeof entry.price === 'number' ? entry.price : Number(String(entry.price ?? '').trim() || NaN);
+    const unit = typeof entry.unit === 'string' && entry.unit.trim() ? entry.unit.trim() : DEFAULT_UNIT;
+
+    const before = problems.length;
+    if (!crop) problems.push(`${at(i)}: crop "${entry.crop ?? ''}" is not a known crop`);
+    if (!market) problems.push(`${at(i)}: market is required`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(Date.parse(date))) problems.push(`${at(i)}: date "${date}" must be YYYY-MM-DD`);
+    if (!Number.isFinite(price) || price <= 0) problems.push(`${at(i)}: price must be a positive number`);
+    if (problems.length === before) prices.push({ crop: crop!, market, date, price, unit });
+  });
+  if (problems.length > 0) {
+    const shown = problems.slice(0, MAX_PROBLEMS);
+    if (problems.length > MAX_PROBLEMS) shown.push(`... and ${problems.length - MAX_PROBLEMS} more`);
+    throw new PriceFeedError(shown);
+  }
+  return prices;
+}
+
+/**
+ * Reads a CSV feed with a header row naming at least `crop`, `market`,
+ * `date` and `price`, and optionally `unit`. Columns may be in any order.
+ */
+export function parsePriceCsv(text: string): PricePoint[] {
+  const [header, ...rows] = csvRows(text.replace(/^\uFEFF/, ''));
+  const columns = (header ?? []).map(c => c.trim().toLowerCase());
+  const missing = CSV_COLUMNS.filter(c => !columns.includes(c));
+  if (missing.length > 0) throw new PriceFeedError([`header is missing the column(s) ${missing.join(', ')}`]);
+
+  const entries = rows.map(row => Object.fromEntries(columns.map((c, i) => [c, row[i] ?? ''])));
+  // Line numbers count the header as line 1
+  return checkPrices(entries, i => `line ${i + 2}`);
+}
+
+/** Reads a JSON feed: an array of `PricePoint`s, or an object with a `prices` array. */
+export function parsePriceJson(value: unknown): PricePoint[] {
+  const list = Array.isArray(value) ? value : (value as { prices?: unknown })?.prices;
+  if (!Array.isArray(list)) throw new PriceFeedError(['feed must be an array of prices or an object with a "prices" array']);
+  if (!list.every(entry => typeof entry === 'object' && entry !== null)) throw new PriceFeedError(['every price must be an object']);
+  return checkPrices(list, i => `prices[${i}]`);
+}
+
+// --- Queries ---
+
+function compareByDate(a: PricePoint, b: PricePoint): number {
+  return a.date.localeCompare(b.date);
+}
+
+/** Latest price of `crop` at each market, most recently reported first. */
+export function latestPrices(prices: PricePoint[], crop: string): MarketPrice[] {
+  const byMarket = new Map<string, PricePoint[]>();
+  for (const point of prices) {
+    if (point.crop !== crop) continue;
+    const key = `${point.market}\u0000${point.unit}`;
+    byMarket.set(key, [...(byMarket.get(key) ?? []), point]);
+  }
+  return [...byMarket.values()]
+    .map(points => {
+      const sorted = points.sort(compareByDate);
+      const latest = sorted[sorted.length - 1];
+      return { ...latest, previous: sorted[sorted.length - 2]?.price };
+    })
+    .sort((a, b) => b.date.localeCompare(a.date) || a.market.localeCompare(b.market));
+}
+
+/** Prices of `crop` at one market, oldest first. */
+export function priceHistory(prices: PricePoint[], crop: string, market: string, unit: string): PricePoint[] {
+  return prices.filter(p => p.crop === crop && p.market === market && p.unit === unit).sort(compareByDate);
+}
@@ -0,0 +1,52 @@
+import { PriceFeed } from './marketFeed';
+import { SyncService } from './syncService';
+
+// --- Types ---
+
+export interface CachedPrices {
+  feed: PriceFeed;
+  /** ISO 8601 time the app last reached the server. */
+  fetchedAt: string;
+  /** True when the server could not be reached and these are the last saved prices. */
+  stale: boolean;
+}
+
+const CACHE_KEY = 'agrigasha_prices';
+
+// --- Service ---
+
+/**
+ * Market prices published by the cooperative, from the same server the app
+ * syncs with. The last prices are kept with the time they were fetched, so
+ * farmers can still compare markets offline and see how old the numbers are.
+ */
+export class MarketService {
+  static cached(): CachedPrices | null {
+    try {
+      const saved = localStorage.getItem(CACHE_KEY);
+      return saved ? { ...JSON.parse(saved), stale: true } : null;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  static async fetch(): Promise<CachedPrices> {
+    try {
+      const response = await fetch(`${SyncService.settings().serverUrl}/prices`);
+      if (!response.ok) throw new Error(`Price request failed: ${response.status}`);
+      const feed: PriceFeed = await response.json();
+      const fetchedAt = new Date().toISOString();
+      try {
+        localStorage.setItem(CACHE_KEY, JSON.stringify({ feed, fetchedAt }));
+      } catch (e) {
+        console.error("Price cache save failed", e);
+      }
+      return { feed, fetchedAt, stale: false };
+    } catch (error) {
+      const cached = this.cached();
+      if (!cached) throw error;
+      console.error('Price fetch failed, showing saved prices:', error);
+      return cached;
+    }
+  }
+}
@@ -1,43 +1,113 @@
+import * as tf from '@tensorflow/tfjs';
+import * as tflite from '@tensorflow/tfjs-tflite';
+import { readImage, checkQuality, centerSquare, crop, leafFraction, QualityIssue } from './imagePreprocessor';
+import { MODEL_MANIFEST, HEALTHY_LABEL, ModelManifest, ModelManifestError, validateManifest, assertOutputMatchesLabels } from './modelManifest';
+
 // --- Types ---
-declare global {
-  interface Window {
-    tflite: any;
-    tf: any;
-  }
+export interface Prediction {
+  /** `Disease.id` or `healthy`, taken from the manifest. */
+  label: string;
+  /** Calibrated probability as a percentage (0-100). */
+  confidence: number;
+}
+
+export type DiagnosisStatus = 'success' | 'unknown' | 'model-unavailable' | 'image-invalid';
+
+/**
+ * Outcome of a diagnosis attempt. Only `success` carries a trusted top label;
+ * `unknown` keeps its low-confidence candidates for comparison.
+ */
+export type DiagnosisResult =
+  | { status: 'success'; predictions: Prediction[] }
+  | { status: 'unknown'; predictions: Prediction[] }
+  | { status: 'model-unavailable'; error: string }
+  | { status: 'image-invalid'; error: string; issue?: QualityIssue };
+
+export interface LesionHeatmap {
+  rows: number;
+  cols: number;
+  /** Row-major disease score (0-1) per tile; null where the tile is mostly background. */
+  cells: (number | null)[];
+}
+
+export interface LesionAnalysis {
+  heatmap: LesionHeatmap;
+  /** Rough percentage (0-100) of the visible leaf area that looks affected. */
+  severity: number;
+}
+
+export interface ClassifyOptions {
+  topK?: number;
+  /** Overrides the manifest's `confidenceThreshold`. */
+  threshold?: number;
+}
+
+/**
+ * Converts raw model scores into temperature-scaled softmax probabilities.
+ * Probability outputs are mapped back to log space first so the same
+ * temperature calibration applies to both kinds of model.
+ */
+export function calibrate(scores: ArrayLike<number>, manifest: ModelManifest): number[] {
+  const scale = manifest.quantization === 'uint8' ? 255 : 1;
+  const logits = Array.from(scores, v => {
+    const value = v / scale;
+    return manifest.outputType === 'logits' ? value : Math.log(Math.max(value, 1e-7));
+  }).map(v => v / manifest.temperature);
+
+  const max = Math.max(...logits);
+  const exps = logits.map(v => Math.exp(v - max));
+  const sum = exps.reduce((a, b) => a + b, 0);
+  return exps.map(v => v / sum);
 }
 
-// Configure WASM path for TFLite
-// Using alpha.10 for better stability
-const TFLITE_VERSION = '0.0.1-alpha.10';
+// TFLite WASM runtime files are copied from the tfjs-tflite package to
+// /tflite/ by the offline plugin in vite.config.ts, so no CDN is needed.
+export const TFLITE_WASM_PATH = '/tflite/';
+
+/** Tiles with less plant material than this are treated as background. */
+const MIN_LEAF_FRACTION = 0.25;
+/** Tile score at or above which a tile counts as affected. */
+const PATCH_THRESHOLD = 0.5;
 
 export class MLService {
-  private static model: any = null;
-  private static labels: string[] = ['Coffee Rust', 'Maize Streak', 'Wheat Rust', 'Healthy'];
+  private static model: tflite.TFLiteModel | null = null;
+  private static manifest: ModelManifest = MODEL_MANIFEST;
 
   /**
-   * Loads the TFLite model.
+   * Loads the TFLite model described by the manifest.
+   * The manifest is validated first, and the loaded model's input and output
+   * shapes are checked against it.
    */
-  static async loadModel(modelUrl: string = 'https://storage.googleapis.com/tfjs-models/tflite/mobilenet_v1_1.0_224_quant.tflite') {
-    if (this.model) return this.model;
+  static async loadModel(manifest: ModelManifest = MODEL_MANIFEST) {
+    if (this.model && this.manifest.version === manifest.version) return this.model;
     
     try {
-      // Ensure tflite is available on window
-      if (!window.tflite) {
-        // Wait a bit in case it's still loading from CDN
-        await new Promise(resolve => setTimeout(resolve, 500));
-        if (!window.tflite) throw new Error('TFLite library not loaded from CDN');
-      }
+      validateManifest(manifest);
 
-      window.tflite.setWasmPath(`https://cdn.jsdelivr.net/npm/@tensorflow/tfjs-tflite@${TFLITE_VERSION}/dist/`);
+      tflite.setWasmPath(TFLITE_WASM_PATH);
       
-      console.log('Fetching TFLite model data...');
-      const response = await fetch(modelUrl);
+      console.log(`Fetching TFLite model data (manifest ${manifest.version})...`);
+      const response = await fetch(manifest.modelUrl);
       if (!response.ok) throw new Error(`Failed to fetch model: ${response.statusText}`);
       
       const modelBuffer = await response.arrayBuffer();
       console.log('Model data fetched, initializing runner...');
       
-      this.model = await window.tflite.loadTFLiteModel(modelBuffer);
+      const model = await tflite.loadTFLiteModel(modelBuffer);
+
+      const inputShape = model.inputs[0]?.shape;
+      if (inputShape && (inputShape[1] !== manifest.inputSize || inputShape[2] !== manifest.inputSize)) {
+        throw new ModelManifestError(
+          `Model input shape [${inputShape.join(', ')}] does not match manifest inputSize ${manifest.inputSize}`
+        );
+      }
+      const outputShape = model.outputs[0]?.shape;
+      if (outputShape) {
+        assertOutputMatchesLabels(manifest, outputShape[outputShape.length - 1]);
+      }
+
+      this.model = model;
+      this.manifest = manifest;
       console.log('Model loaded successfully');
       return this.model;
     } catch (error) {
@@ -48,61 +118,123 @@ export class MLService {
   }
 
   /**
-   * Runs inference on an image.
+   * Runs inference on an image and returns the top-K candidates.
+   * Labels are `Disease.id` values or `healthy`, taken from the manifest.
+   * Never throws: every failure is reported through the result status.
    */
-  static async classifyImage(imageSrc: string): Promise<{ label: string; confidence: number }> {
+  static async classifyImage(imageSrc: string, options: ClassifyOptions = {}): Promise<DiagnosisResult> {
+    // Check the photo before touching the model so a bad shot is always
+    // reported as a retake, even when the model is unavailable
+    let canvas: HTMLCanvasElement;
     try {
-      if (!this.model) {
-        await this.loadModel();
-      }
+      canvas = await readImage(imageSrc);
+    } catch (error) {
+      return { status: 'image-invalid', error: errorMessage(error) };
+    }
+    const issue = checkQuality(canvas, this.manifest.inputSize);
+    if (issue) {
+      return { status: 'image-invalid', error: `Photo rejected by quality check: ${issue}`, issue };
+    }
 
-      const img = new Image();
-      img.src = imageSrc;
-      await new Promise((resolve, reject) => {
-        img.onload = resolve;
-        img.onerror = () => reject(new Error('Failed to load image for classification'));
-      });
-
-      // Use window.tf for processing
-      const tf = window.tf;
-      if (!tf) throw new Error('TFJS not loaded');
-
-      const tensor = tf.tidy(() => {
-        const tfImg = tf.browser.fromPixels(img);
-        // MobileNet expects 224x224
-        const resized = tf.image.resizeBilinear(tfImg, [224, 224]);
-        const expanded = resized.expandDims(0);
-        // Normalize to [-1, 1] as required by many quantized MobileNet models
-        return expanded.toFloat().div(127.5).sub(1);
-      });
-
-      try {
-        const outputTensor = this.model.predict(tensor);
-        const probabilities = await outputTensor.data();
-        
-        let maxProb = 0;
-        let maxIndex = 0;
-        for (let i = 0; i < probabilities.length; i++) {
-          if (probabilities[i] > maxProb) {
-            maxProb = probabilities[i];
-            maxIndex = i;
-          }
-        }
+    let model: tflite.TFLiteModel;
+    try {
+      model = this.model ?? await this.loadModel();
+    } catch (error) {
+      return { status: 'model-unavailable', error: errorMessage(error) };
+    }
+    const manifest = this.manifest;
+    const topK = options.topK ?? 3;
+    const threshold = options.threshold ?? manifest.confidenceThreshold;
 
-        // Map to our labels
-        const label = this.labels[maxIndex % this.labels.length];
-        
-        return {
-          label: label,
-          confidence: Math.round(maxProb * 100)
-        };
-      } finally {
-        tensor.dispose();
-      }
+    try {
+      const predictions: Prediction[] = (await this.predictProbabilities(model, manifest, centerSquare(canvas)))
+        .map((probability, i) => ({ label: manifest.labels[i], probability }))
+        .sort((a, b) => b.probability - a.probability)
+        .slice(0, topK)
+        .map(({ label, probability }) => ({ label, confidence: Math.round(probability * 100) }));
+
+      return {
+        status: predictions[0].confidence < threshold ? 'unknown' : 'success',
+        predictions
+      };
     } catch (error) {
       console.error('Inference error:', error);
-      // Return a safe fallback instead of crashing the UI
-      return { label: 'Healthy', confidence: 0 };
+      return { status: 'model-unavailable', error: errorMessage(error) };
     }
   }
+
+  /**
+   * Tiles the centre square of an image (the region the result screen shows)
+   * into a grid, classifies each tile and scores it for `label`. Tiles with
+   * little leaf in them are left out, and the severity is the leaf-weighted
+   * share of tiles whose score reaches `PATCH_THRESHOLD`.
+   * For `healthy` or unknown labels a tile's score is 1 - P(healthy).
+   */
+  static async mapLesions(imageSrc: string, label: string, gridSize: number = 4): Promise<LesionAnalysis> {
+    const model = this.model ?? await this.loadModel();
+    const manifest = this.manifest;
+    const square = centerSquare(await readImage(imageSrc));
+    const tileEdge = square.width / gridSize;
+    const labelIndex = label === HEALTHY_LABEL ? -1 : manifest.labels.indexOf(label);
+    const healthyIndex = manifest.labels.indexOf(HEALTHY_LABEL);
+
+    const cells: (number | null)[] = [];
+    let leafArea = 0;
+    let affectedArea = 0;
+    for (let row = 0; row < gridSize; row++) {
+      for (let col = 0; col < gridSize; col++) {
+        const tile = crop(square, { x: col * tileEdge, y: row * tileEdge, width: tileEdge, height: tileEdge });
+        const leaf = leafFraction(tile);
+        if (leaf < MIN_LEAF_FRACTION) {
+          cells.push(null);
+          continue;
+        }
+        const probabilities = await this.predictProbabilities(model, manifest, tile);
+        const score = labelIndex >= 0
+          ? probabilities[labelIndex]
+          : healthyIndex >= 0 ? 1 - probabilities[healthyIndex] : 0;
+        cells.push(score);
+        leafArea += leaf;
+        if (score >= PATCH_THRESHOLD) affectedArea += leaf;
+      }
+    }
+
+    return {
+      heatmap: { rows: gridSize, cols: gridSize, cells },
+      severity: leafArea > 0 ? Math.round((affectedArea / leafArea) * 100) : 0
+    };
+  }
+
+  /**
+   * Resizes and normalizes a canvas per the manifest, runs the model and
+   * returns calibrated probabilities in manifest label order.
+   */
+  private static async predictProbabilities(model: tflite.TFLiteModel, manifest: ModelManifest, source: HTMLCanvasElement): Promise<number[]> {
+    const tensor: tf.Tensor = tf.tidy(() => {
+      const tfImg = tf.browser.fromPixels(source);
+      const resized = tf.image.resizeBilinear(tfImg, [manifest.inputSize, manifest.inputSize]);
+      const expanded = resized.expandDims(0);
+      if (manifest.quantization === 'uint8') {
+        return tf.cast(expanded, 'int32');
+      }
+      const { mean, std } = manifest.normalization;
+      return tf.cast(expanded, 'float32').sub(mean).div(std);
+    });
+
+    try {
+      const outputTensor = model.predict(tensor) as tf.Tensor;
+      const scores = await outputTensor.data();
+      outputTensor.dispose();
+
+      // A model/manifest mismatch must never be folded onto our labels
+      assertOutputMatchesLabels(manifest, scores.length);
+      return calibrate(scores, manifest);
+    } finally {
+      tensor.dispose();
+    }
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
 }
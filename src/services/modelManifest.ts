@@ -0,0 +1,95 @@
+import { Disease } from '../constants';
+import { KnowledgeBase } from './knowledgeBase';
+
+// --- Types ---
+
+/**
+ * Label emitted by the model for a leaf with no visible disease.
+ * Every other label must be a `Disease.id` from the knowledge base.
+ */
+export const HEALTHY_LABEL = 'healthy';
+
+export interface ModelManifest {
+  /** Bumped whenever the model file or its label order changes. */
+  version: string;
+  modelUrl: string;
+  /** Square input edge length in pixels, e.g. 224 for MobileNet. */
+  inputSize: number;
+  /** Applied per pixel channel as `(value - mean) / std`. Ignored for uint8 models. */
+  normalization: { mean: number; std: number };
+  /** `uint8` models take raw 0-255 pixels and emit 0-255 scores. */
+  quantization: 'float32' | 'uint8';
+  /** Whether the model emits raw logits or already softmaxed probabilities. */
+  outputType: 'logits' | 'probabilities';
+  /** Softmax temperature fitted on a held-out set; 1 leaves scores uncalibrated. */
+  temperature: number;
+  /** Top-1 confidence (0-100) below which a result is reported as uncertain. */
+  confidenceThreshold: number;
+  /** Model output order: `labels[i]` is the `Disease.id` (or `healthy`) for output index `i`. */
+  labels: string[];
+}
+
+export class ModelManifestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModelManifestError';
+  }
+}
+
+// --- Manifest ---
+
+export const MODEL_MANIFEST: ModelManifest = {
+  version: '1.0.0',
+  modelUrl: '/models/crop_disease_v1.tflite',
+  inputSize: 224,
+  normalization: { mean: 127.5, std: 127.5 },
+  quantization: 'float32',
+  outputType: 'probabilities',
+  temperature: 1,
+  confidenceThreshold: 60,
+  labels: ['coffee_rust', 'maize_streak', 'wheat_rust', HEALTHY_LABEL]
+};
+
+/**
+ * Checks that a manifest is internally consistent and that every label
+ * resolves to a known disease. Throws `ModelManifestError` on the first problem.
+ */
+export function validateManifest(manifest: ModelManifest, diseases: Disease[] = KnowledgeBase.all()): void {
+  if (!manifest.version) throw new ModelManifestError('Manifest is missing a version');
+  if (!manifest.modelUrl) throw new ModelManifestError(`Manifest ${manifest.version} is missing a modelUrl`);
+  if (!Number.isInteger(manifest.inputSize) || manifest.inputSize <= 0) {
+    throw new ModelManifestError(`Invalid inputSize ${manifest.inputSize} in manifest ${manifest.version}`);
+  }
+  if (manifest.normalization.std === 0) {
+    throw new ModelManifestError(`Normalization std must be non-zero in manifest ${manifest.version}`);
+  }
+  if (!(manifest.temperature > 0)) {
+    throw new ModelManifestError(`Temperature must be positive in manifest ${manifest.version}`);
+  }
+  if (manifest.confidenceThreshold < 0 || manifest.confidenceThreshold > 100) {
+    throw new ModelManifestError(`confidenceThreshold must be between 0 and 100 in manifest ${manifest.version}`);
+  }
+  if (manifest.labels.length === 0) {
+    throw new ModelManifestError(`Manifest ${manifest.version} has no labels`);
+  }
+
+  const seen = new Set<string>();
+  for (const label of manifest.labels) {
+    if (seen.has(label)) throw new ModelManifestError(`Duplicate label "${label}" in manifest ${manifest.version}`);
+    seen.add(label);
+    if (label !== HEALTHY_LABEL && !diseases.some(d => d.id === label)) {
+      throw new ModelManifestError(`Label "${label}" in manifest ${manifest.version} does not match any Disease.id`);
+    }
+  }
+}
+
+/**
+ * Ensures the model output tensor has exactly one score per manifest label.
+ */
+export function assertOutputMatchesLabels(manifest: ModelManifest, outputLength: number): void {
+  if (outputLength !== manifest.labels.length) {
+    throw new ModelManifestError(
+      `Model output has ${outputLength} classes but manifest ${manifest.version} lists ${manifest.labels.length} labels`
+    );
+  }
+}
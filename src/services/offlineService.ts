@@ -0,0 +1,60 @@
+// --- Types ---
+export interface OfflineStatus {
+  /** True once every precached file, including the model, is stored on the device. */
+  ready: boolean;
+  /** Precache files that are still missing. */
+  missing: string[];
+}
+
+const STATUS_TIMEOUT_MS = 3000;
+
+export class OfflineService {
+  /**
+   * Registers the service worker built from public/sw.js.
+   * Skipped in development, where Vite serves unhashed modules.
+   */
+  static async register(): Promise<ServiceWorkerRegistration | null> {
+    if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return null;
+    try {
+      return await navigator.serviceWorker.register('/sw.js');
+    } catch (error) {
+      console.error('Service worker registration failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Asks the active service worker which precache files are still missing.
+   */
+  static async getStatus(): Promise<OfflineStatus> {
+    if (!('serviceWorker' in navigator)) return { ready: false, missing: [] };
+    const registration = await navigator.serviceWorker.getRegistration();
+    const worker = registration?.active;
+    if (!worker) return { ready: false, missing: [] };
+
+    return new Promise(resolve => {
+      const channel = new MessageChannel();
+      const timer = setTimeout(() => resolve({ ready: false, missing: [] }), STATUS_TIMEOUT_MS);
+      channel.port1.onmessage = (event) => {
+        clearTimeout(timer);
+        const missing: string[] = event.data?.missing ?? [];
+        resolve({ ready: missing.length === 0, missing });
+      };
+      worker.postMessage({ type: 'status' }, [channel.port2]);
+    });
+  }
+
+  /**
+   * Calls `onChange` with the offline status now and whenever a new
+   * service worker takes control. Returns an unsubscribe function.
+   */
+  static watch(onChange: (status: OfflineStatus) => void): () => void {
+    if (!('serviceWorker' in navigator)) return () => {};
+    const check = () => {
+      this.getStatus().then(onChange).catch(error => console.error('Offline status check failed:', error));
+    };
+    navigator.serviceWorker.ready.then(check);
+    navigator.serviceWorker.addEventListener('controllerchange', check);
+    return () => navigator.serviceWorker.removeEventListener('controllerchange', check);
+  }
+}
@@ -0,0 +1,120 @@
+import { Disease, SymptomOption, SymptomQuestion } from '../constants';
+import { KnowledgeBase } from './knowledgeBase';
+import { Prediction } from './mlService';
+import { HEALTHY_LABEL } from './modelManifest';
+
+// --- Types ---
+
+/** `SymptomOption.id` by `SymptomQuestion.id`; null when the farmer did not know. */
+export type SymptomAnswers = Record<string, string | null>;
+
+/** Top confidence (0-100) at which the questionnaire stops asking. */
+export const QUESTIONNAIRE_CONFIDENCE = 80;
+
+/**
+ * How likely an answer is for a disease: one of its signs, a sign it does
+ * not show, or a question its data says nothing about. Farmers misjudge
+ * colours and leaf sides, so a mismatch lowers a disease without ruling it out.
+ */
+const MATCH = 0.9;
+const MISMATCH = 0.1;
+const NEUTRAL = 0.5;
+
+/** Prior of a crop disease the classifier left out of its top-K. */
+const UNRANKED_PRIOR = 0.02;
+
+// --- Helpers ---
+
+function cropDiseases(crop?: string): Disease[] {
+  return KnowledgeBase.all().filter(d => !crop || d.crops.includes(crop));
+}
+
+/** Likelihood of answering `optionId` to `questionId` if the plant has `label`. */
+function likelihood(label: string, questionId: string, optionId: string): number {
+  // Every question is about a visible sign, which a healthy plant has none of
+  if (label === HEALTHY_LABEL) return MISMATCH;
+  const signs = KnowledgeBase.find(label)?.signs?.[questionId];
+  if (!signs) return NEUTRAL;
+  return signs.includes(optionId) ? MATCH : MISMATCH;
+}
+
+function normalize(weights: Map<string, number>): Prediction[] {
+  const total = [...weights.values()].reduce((sum, w) => sum + w, 0) || 1;
+  return [...weights.entries()]
+    .map(([label, w]) => ({ label, confidence: Math.round((w / total) * 100) }))
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+function entropy(ranking: Prediction[]): number {
+  return ranking.reduce((sum, { confidence }) => {
+    const p = confidence / 100;
+    return p > 0 ? sum - p * Math.log2(p) : sum;
+  }, 0);
+}
+
+// --- Engine ---
+
+/** Questions some disease of the crop has signs for; all crops when none is given. */
+export function questionsFor(crop?: string): SymptomQuestion[] {
+  const diseases = cropDiseases(crop);
+  return KnowledgeBase.questions().filter(q => diseases.some(d => d.signs?.[q.id]));
+}
+
+/**
+ * Ranks the crop's diseases by the answers given so far. `prior` is the
+ * image classifier's top-K for the same plant: its confidences are the
+ * starting point, so a photo and the answers together can settle what
+ * neither could alone. Without it every disease of the crop starts equal
+ * and `healthy` is left out, since the farmer is describing signs.
+ */
+export function rankCandidates(crop: string | undefined, answers: SymptomAnswers, prior: Prediction[] = []): Prediction[] {
+  const diseases = cropDiseases(crop);
+  const weights = new Map<string, number>();
+  for (const p of prior) {
+    // The plot's crop is known for sure; the classifier may still name another crop's disease
+    if (crop && p.label !== HEALTHY_LABEL && !diseases.some(d => d.id === p.label)) continue;
+    weights.set(p.label, p.confidence / 100);
+  }
+  for (const d of diseases) {
+    if (!weights.has(d.id)) weights.set(d.id, prior.length > 0 ? UNRANKED_PRIOR : 1);
+  }
+
+  for (const [questionId, optionId] of Object.entries(answers)) {
+    if (optionId === null) continue;
+    for (const [label, w] of weights) weights.set(label, w * likelihood(label, questionId, optionId));
+  }
+  return normalize(weights);
+}
+
+/**
+ * The unanswered question expected to narrow the ranking down most, or
+ * undefined once the top candidate reaches `QUESTIONNAIRE_CONFIDENCE` or
+ * every question has been asked.
+ */
+export function nextQuestion(crop: string | undefined, answers: SymptomAnswers, prior: Prediction[] = []): SymptomQuestion | undefined {
+  const ranking = rankCandidates(crop, answers, prior);
+  if ((ranking[0]?.confidence ?? 0) >= QUESTIONNAIRE_CONFIDENCE) return undefined;
+
+  let best: { question: SymptomQuestion, entropy: number } | undefined;
+  for (const question of questionsFor(crop).filter(q => !(q.id in answers))) {
+    // Expected entropy of the ranking after the answer, with answers weighted by how likely they are now
+    const outcomes = question.options.map(option => {
+      const weight = ranking.reduce((sum, c) => sum + c.confidence * likelihood(c.label, question.id, option.id), 0);
+      return { weight, entropy: entropy(rankCandidates(crop, { ...answers, [question.id]: option.id }, prior)) };
+    });
+    const total = outcomes.reduce((sum, o) => sum + o.weight, 0) || 1;
+    const expected = outcomes.reduce((sum, o) => sum + (o.weight / total) * o.entropy, 0);
+    if (!best || expected < best.entropy) best = { question, entropy: expected };
+  }
+  return best?.question;
+}
+
+/**
+ * A question's options, the likeliest first, for asking them one by one as
+ * yes/no questions when the farmer answers by voice.
+ */
+export function optionsByLikelihood(question: SymptomQuestion, ranking: Prediction[]): SymptomOption[] {
+  const weight = (option: SymptomOption) =>
+    ranking.reduce((sum, c) => sum + c.confidence * likelihood(c.label, question.id, option.id), 0);
+  return [...question.options].sort((a, b) => weight(b) - weight(a));
+}
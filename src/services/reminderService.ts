@@ -0,0 +1,53 @@
+import { PlanTask, TreatmentPlan, TreatmentPlanStore, dueTasks } from './treatmentPlan';
+
+/** Tag of the periodic background sync that public/sw.js answers with due reminders. */
+export const REMINDER_SYNC_TAG = 'treatment-reminders';
+const REMINDER_SYNC_INTERVAL_MS = 12 * 60 * 60 * 1000;
+
+// Periodic Background Sync is not in TypeScript's DOM library yet
+interface PeriodicSyncManager {
+  register(tag: string, options: { minInterval: number }): Promise<void>;
+}
+
+/** Due, unannounced tasks; tasks due when their plan was made were on screen already. */
+function unannounced(plans: TreatmentPlan[]): { plan: TreatmentPlan, task: PlanTask }[] {
+  return dueTasks(plans).filter(({ plan, task }) => !task.notifiedAt && task.dueAt > plan.createdAt);
+}
+
+/**
+ * Local notifications for treatment tasks, which need no server or network.
+ * An installed app is woken by Periodic Background Sync about twice a day
+ * where the browser supports it, and the service worker announces what is
+ * due; otherwise tasks are announced whenever the app is open.
+ */
+export class ReminderService {
+  /** Asks for permission to notify and registers the background check. Resolves whether reminders can be shown. */
+  static async enable(): Promise<boolean> {
+    if (typeof Notification === 'undefined') return false;
+    if (await Notification.requestPermission() !== 'granted') return false;
+    try {
+      const registration = await navigator.serviceWorker?.getRegistration();
+      const periodicSync = (registration as (ServiceWorkerRegistration & { periodicSync?: PeriodicSyncManager }) | undefined)?.periodicSync;
+      await periodicSync?.register(REMINDER_SYNC_TAG, { minInterval: REMINDER_SYNC_INTERVAL_MS });
+    } catch (error) {
+      // Refused for sites that are not installed; the in-app check still runs
+      console.error('Reminder background sync registration failed:', error);
+    }
+    return true;
+  }
+
+  /** Shows a notification for each task that fell due since the last check. Resolves whether any was shown. */
+  static async check(): Promise<boolean> {
+    if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return false;
+    const due = unannounced(await TreatmentPlanStore.getAll());
+    if (due.length === 0) return false;
+    const registration = await navigator.serviceWorker?.getRegistration();
+    for (const { plan, task } of due) {
+      const options = { tag: `task-${task.id}`, data: { url: `/?plan=${encodeURIComponent(plan.id)}` } };
+      if (registration) await registration.showNotification(task.title, options);
+      else new Notification(task.title, options);
+    }
+    await TreatmentPlanStore.markNotified(due);
+    return true;
+  }
+}
@@ -0,0 +1,63 @@
+import { Disease } from '../constants';
+import { KnowledgeBase } from './knowledgeBase';
+import { LOCALES } from './i18n';
+
+/**
+ * Ethiopic letters that are written differently but read the same in
+ * Amharic. Each entry maps the first code point of a 7-order family onto the
+ * family it is normalized to, e.g. ሐ/ኀ onto ሀ, ሠ onto ሰ, ዐ onto አ, ፀ onto ጸ.
+ */
+const ETHIOPIC_FAMILIES: [from: number, to: number][] = [
+  [0x1210, 0x1200], // ሐ -> ሀ
+  [0x1280, 0x1200], // ኀ -> ሀ
+  [0x1220, 0x1230], // ሠ -> ሰ
+  [0x12D0, 0x12A0], // ዐ -> አ
+  [0x1340, 0x1338]  // ፀ -> ጸ
+];
+
+/** First- and fourth-order ha and a are used interchangeably (ሀ/ሃ, አ/ኣ). */
+const ETHIOPIC_VOWELS: Record<string, string> = {
+  'ሃ': 'ሀ',
+  'ኣ': 'አ'
+};
+
+/**
+ * Lower-cases, folds Ethiopic spelling variants and replaces punctuation
+ * (Latin and Ethiopic) with spaces so text can be compared token by token.
+ */
+export function normalizeText(text: string): string {
+  let out = '';
+  for (const ch of text.normalize('NFC').toLowerCase()) {
+    const code = ch.codePointAt(0)!;
+    const family = ETHIOPIC_FAMILIES.find(([from]) => code >= from && code < from + 7);
+    const folded = family ? String.fromCodePoint(family[1] + (code - family[0])) : ch;
+    out += ETHIOPIC_VOWELS[folded] ?? folded;
+  }
+  return out.replace(/[\p{P}\p{S}]+/gu, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Full-text search over disease names, symptoms and crops in every language.
+ * All query words must match; diseases whose name matches come first.
+ */
+export function searchDiseases(query: string, diseases: Disease[] = KnowledgeBase.all()): Disease[] {
+  const tokens = normalizeText(query).split(' ').filter(Boolean);
+  if (tokens.length === 0) return diseases;
+
+  const scored = diseases.map(disease => {
+    const names = normalizeText(Object.values(disease.name).join(' '));
+    const body = normalizeText([
+      ...Object.values(disease.symptoms),
+      ...disease.crops.flatMap(c => LOCALES.map(l => KnowledgeBase.cropName(c, l.code))),
+      disease.pathogen ?? ''
+    ].join(' '));
+
+    if (!tokens.every(token => names.includes(token) || body.includes(token))) return null;
+    return { disease, score: tokens.filter(token => names.includes(token)).length };
+  });
+
+  return scored
+    .filter((entry): entry is { disease: Disease, score: number } => entry !== null)
+    .sort((a, b) => b.score - a.score)
+    .map(entry => entry.disease);
+}
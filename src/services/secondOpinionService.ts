@@ -0,0 +1,70 @@
+import { Language } from '../constants';
+import { AdviceError, deviceId } from './adviceService';
+import { encodeJpegBase64 } from './imagePreprocessor';
+import { DiagnosisResult, Prediction } from './mlService';
+
+// --- Types ---
+
+/** Gemini's independent diagnosis of the same photo. */
+export interface SecondOpinion {
+  /** `Disease.id`, `healthy` or `unknown`. */
+  label: string;
+  /** 0-100, as reported by the model. */
+  confidence: number;
+  /** Short explanation of what the model saw, in the language it was asked in. */
+  reasoning: string;
+}
+
+/** Label for a photo Gemini could not match to any known disease. */
+export const UNKNOWN_LABEL = 'unknown';
+
+export const SECOND_OPINION_URL = '/api/second-opinion';
+
+/** On-device top-1 confidence (0-100) below which a second opinion is requested. */
+export const SECOND_OPINION_THRESHOLD = 80;
+
+/** Long edge of the photo sent for a second opinion. */
+const IMAGE_EDGE = 768;
+
+// --- Helpers ---
+
+/**
+ * Whether a result is uncertain enough to ask Gemini. Photos rejected by the
+ * quality check are not, since the farmer is asked to retake them anyway.
+ */
+export function needsSecondOpinion(result: DiagnosisResult): boolean {
+  if (result.status === 'image-invalid') return false;
+  if (result.status === 'model-unavailable') return true;
+  return (result.predictions[0]?.confidence ?? 0) < SECOND_OPINION_THRESHOLD;
+}
+
+/**
+ * True when both sides named a diagnosis and they differ. An `unknown` from
+ * Gemini or no on-device prediction is no opinion, not a disagreement.
+ */
+export function opinionsDisagree(local: Prediction | undefined, second: SecondOpinion): boolean {
+  return !!local && second.label !== UNKNOWN_LABEL && local.label !== second.label;
+}
+
+// --- Service ---
+
+export class SecondOpinionService {
+  /** Sends the photo to Gemini through the API server. Throws `AdviceError` on failure. */
+  static async request(image: Blob, lang: Language): Promise<SecondOpinion> {
+    let response: Response;
+    try {
+      response = await fetch(SECOND_OPINION_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Device-Id': deviceId() },
+        body: JSON.stringify({ image: await encodeJpegBase64(image, IMAGE_EDGE), lang })
+      });
+    } catch (error) {
+      throw new AdviceError(error instanceof Error ? error.message : String(error), 'unavailable');
+    }
+
+    const body = await response.json().catch(() => ({}));
+    if (response.status === 429) throw new AdviceError('Second opinion rate limit reached', 'rate-limited', body.retryAfter);
+    if (!response.ok || !body.opinion) throw new AdviceError(`Second opinion failed: ${body.error ?? response.statusText}`, 'unavailable');
+    return body.opinion;
+  }
+}
@@ -0,0 +1,102 @@
+import { Language, Translation } from '../constants';
+import { localeInfo } from './i18n';
+import { normalizeText } from './search';
+
+// --- Types ---
+
+// The Web Speech API's recognition half is not in TypeScript's DOM library yet
+interface RecognitionAlternative {
+  transcript: string;
+}
+
+interface RecognitionEvent {
+  results: ArrayLike<ArrayLike<RecognitionAlternative>>;
+}
+
+interface Recognition {
+  lang: string;
+  interimResults: boolean;
+  maxAlternatives: number;
+  onresult: ((event: RecognitionEvent) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  abort(): void;
+}
+
+type RecognitionConstructor = new () => Recognition;
+
+/** Longest wait for an answer before giving up. */
+const LISTEN_TIMEOUT_MS = 8000;
+
+function recognitionConstructor(): RecognitionConstructor | undefined {
+  const w = window as unknown as { SpeechRecognition?: RecognitionConstructor, webkitSpeechRecognition?: RecognitionConstructor };
+  return w.SpeechRecognition ?? w.webkitSpeechRecognition;
+}
+
+/** The comma-separated words of a `Translation` key, normalized for matching. */
+function words(list: string): string[] {
+  return list.split(',').map(normalizeText).filter(Boolean);
+}
+
+// --- Service ---
+
+/**
+ * Spoken yes/no answers through the browser's speech recognition. Chrome on
+ * Android recognizes Amharic through its online service; everywhere else the
+ * farmer taps the Yes and No buttons instead.
+ */
+export class SpeechInput {
+  private static active: Recognition | null = null;
+
+  static supported(): boolean {
+    return typeof window !== 'undefined' && !!recognitionConstructor();
+  }
+
+  /**
+   * Listens for one answer and resolves true for yes, false for no and null
+   * when nothing was understood, recognition failed or `cancel` was called.
+   * The words that count as yes and no come from `t.yesWords` and `t.noWords`.
+   */
+  static listenYesNo(lang: Language, t: Translation): Promise<boolean | null> {
+    const Constructor = recognitionConstructor();
+    if (!Constructor) return Promise.resolve(null);
+    this.cancel();
+
+    const yes = words(t.yesWords);
+    const no = words(t.noWords);
+    return new Promise(resolve => {
+      const recognition = new Constructor();
+      this.active = recognition;
+      let answer: boolean | null = null;
+      const timer = setTimeout(() => recognition.abort(), LISTEN_TIMEOUT_MS);
+
+      recognition.lang = localeInfo(lang).speechLang;
+      recognition.interimResults = false;
+      recognition.maxAlternatives = 5;
+      recognition.onresult = event => {
+        for (const alternative of Array.from(event.results[0] ?? [])) {
+          const heard = normalizeText(alternative.transcript).split(/\s+/);
+          // "No" wins over "yes" in e.g. "yes, no": a farmer correcting themselves
+          if (heard.some(w => no.includes(w))) answer = false;
+          else if (heard.some(w => yes.includes(w))) answer = true;
+          if (answer !== null) break;
+        }
+      };
+      recognition.onerror = event => {
+        if (event.error !== 'aborted' && event.error !== 'no-speech') console.error('Speech recognition failed:', event.error);
+      };
+      recognition.onend = () => {
+        clearTimeout(timer);
+        if (this.active === recognition) this.active = null;
+        resolve(answer);
+      };
+      recognition.start();
+    });
+  }
+
+  static cancel(): void {
+    this.active?.abort();
+    this.active = null;
+  }
+}
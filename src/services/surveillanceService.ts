@@ -0,0 +1,95 @@
+import { SyncService } from './syncService';
+
+// --- Types ---
+
+/** Weekly diagnosis counts in one area, see server/surveillance.ts. */
+export interface AreaCases {
+  areaId: string;
+  /** Cases per `Disease.id`, one count per entry of `SurveillanceReport.weeks`. */
+  cases: Record<string, number[]>;
+}
+
+export interface Outbreak {
+  areaId: string;
+  diseaseId: string;
+  /** Monday of the flagged week, YYYY-MM-DD. */
+  week: string;
+  cases: number;
+  /** Average weekly cases in the weeks before. */
+  baseline: number;
+}
+
+export interface OutbreakThresholds {
+  /** Fewest cases in one week that can count as an outbreak. */
+  minCases: number;
+  /** How many times the baseline a week must reach. */
+  growth: number;
+  /** Weeks averaged for the baseline. */
+  baselineWeeks: number;
+}
+
+/**
+ * Anonymous counts of located diagnoses per area and week. Only counts are
+ * reported: no scan, device or farmer can be identified from it.
+ */
+export interface SurveillanceReport {
+  generatedAt: string;
+  /** Mondays of the reported weeks, oldest first, YYYY-MM-DD. */
+  weeks: string[];
+  /** Areas at every level with at least one case; a case counts in its kebele and its woreda. */
+  areas: AreaCases[];
+  outbreaks: Outbreak[];
+  thresholds: OutbreakThresholds;
+  /** Located cases outside every bundled boundary. */
+  unmapped: number;
+}
+
+export interface CachedReport {
+  report: SurveillanceReport;
+  /** True when the server could not be reached and this is the last saved report. */
+  stale: boolean;
+}
+
+const CACHE_KEY = 'agrigasha_surveillance';
+
+// --- Service ---
+
+/**
+ * Outbreak data for the surveillance dashboard, from the same server the app
+ * syncs with. The last report is kept so the dashboard still opens offline.
+ */
+export class SurveillanceService {
+  static cached(): SurveillanceReport | null {
+    try {
+      const saved = localStorage.getItem(CACHE_KEY);
+      return saved ? JSON.parse(saved) : null;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  static async fetch(weeks: number): Promise<CachedReport> {
+    try {
+      const response = await fetch(`${SyncService.settings().serverUrl}/surveillance?weeks=${weeks}`);
+      if (!response.ok) throw new Error(`Surveillance request failed: ${response.status}`);
+      const report: SurveillanceReport = await response.json();
+      try {
+        localStorage.setItem(CACHE_KEY, JSON.stringify(report));
+      } catch (e) {
+        console.error("Surveillance cache save failed", e);
+      }
+      return { report, stale: false };
+    } catch (error) {
+      const cached = this.cached();
+      if (!cached) throw error;
+      console.error('Surveillance fetch failed, showing saved report:', error);
+      return { report: cached, stale: true };
+    }
+  }
+}
+
+/** Outbreaks flagged in the latest reported week. */
+export function activeOutbreaks(report: SurveillanceReport): Outbreak[] {
+  const latest = report.weeks[report.weeks.length - 1];
+  return report.outbreaks.filter(o => o.week === latest);
+}
@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { SyncRecord, isSyncRecord, mergeRecords } from './syncProtocol';
+
+const scan: SyncRecord = {
+  kind: 'history',
+  id: '1760860800000-abcd1234',
+  updatedAt: '2025-10-19T08:00:00.000Z',
+  deviceId: 'phone-a',
+  data: { date: '2025-10-19T08:00:00.000Z', status: 'success', chat: [{ id: 'm1', role: 'user', text: 'hi', createdAt: '2025-10-19T08:01:00.000Z' }] }
+};
+
+test('accepts items of each kind and tombstones', () => {
+  assert.ok(isSyncRecord(scan));
+  assert.ok(isSyncRecord({ ...scan, kind: 'farmer', data: { name: 'Abebe' } }));
+  assert.ok(isSyncRecord({ ...scan, kind: 'plot', data: { farmId: 'f1', name: 'Lower field' } }));
+  assert.ok(isSyncRecord({
+    ...scan,
+    kind: 'plan',
+    data: { historyId: scan.id, diseaseId: 'coffee_rust', createdAt: scan.updatedAt, tasks: [{ id: 't1', kind: 'spray', dueAt: scan.updatedAt, title: 'Spray' }] }
+  }));
+  assert.ok(isSyncRecord({ kind: 'plan', id: 'p1', updatedAt: scan.updatedAt, deviceId: 'phone-a', deleted: true }));
+});
+
+test('rejects items whose data lacks the shape of their kind', () => {
+  assert.ok(!isSyncRecord({ ...scan, data: { ...scan.data, chat: [{ id: 'm1', createdAt: 5 }] } }));
+  assert.ok(!isSyncRecord({ ...scan, data: { ...scan.data, chat: 'hi' } }));
+  assert.ok(!isSyncRecord({ ...scan, data: { status: 'success' } }));
+  assert.ok(!isSyncRecord({ ...scan, kind: 'farm', data: { name: 'Hillside' } }));
+  assert.ok(!isSyncRecord({ ...scan, kind: 'plan', data: { historyId: scan.id, diseaseId: 'coffee_rust', createdAt: scan.updatedAt, tasks: [{}] } }));
+  assert.ok(!isSyncRecord({ ...scan, data: [] }));
+  assert.ok(!isSyncRecord({ ...scan, data: undefined }));
+});
+
+test('merges chats without failing on malformed stored messages', () => {
+  const stored: SyncRecord = { ...scan, data: { ...scan.data, chat: [null, { id: 'm0' }, 'text'] } };
+  const later: SyncRecord = { ...scan, updatedAt: '2025-10-19T09:00:00.000Z', deviceId: 'phone-b' };
+  const merged = mergeRecords(stored, later);
+  assert.deepEqual(merged.data?.chat, scan.data?.chat);
+  assert.deepEqual(mergeRecords(later, stored), merged);
+});
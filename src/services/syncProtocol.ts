@@ -0,0 +1,138 @@
+// Shared by the app and the sync server (server/sync.ts), so both sides merge
+// records the same way.
+
+// --- Types ---
+export type SyncKind = 'history' | 'farmer' | 'farm' | 'plot' | 'plan';
+
+export const SYNC_KINDS: SyncKind[] = ['history', 'farmer', 'farm', 'plot', 'plan'];
+
+/**
+ * One item as it travels between devices and the server. A deleted item
+ * stays as a tombstone without `data`, so a device that still has an old copy
+ * learns about the deletion instead of uploading the item again.
+ */
+export interface SyncRecord {
+  kind: SyncKind;
+  id: string;
+  /** ISO 8601 time of the last change; the newer record wins a conflict. */
+  updatedAt: string;
+  /** Device that made the change; breaks ties between equal timestamps. */
+  deviceId: string;
+  deleted?: boolean;
+  data?: Record<string, unknown>;
+}
+
+/** POST /api/sync body: local changes since the last sync, and the last server change seen. */
+export interface SyncRequest {
+  cursor: number;
+  changes: SyncRecord[];
+}
+
+export interface SyncResponse {
+  /** Send this back as `cursor` on the next request. */
+  cursor: number;
+  /** Server changes after the request's cursor, merged with the uploaded ones. */
+  changes: SyncRecord[];
+  /** True when there are more changes than fit in one response. */
+  more: boolean;
+  /** Uploaded history items whose photo the server does not have yet. */
+  missingImages: string[];
+}
+
+const MAX_ID_LENGTH = 100;
+
+// --- Helpers ---
+
+type Data = Record<string, unknown>;
+
+function isObject(value: unknown): value is Data {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const isText = (value: unknown): value is string => typeof value === 'string';
+const isTime = (value: unknown): value is string => isText(value) && !Number.isNaN(Date.parse(value));
+
+function isMergeableMessage(value: unknown): value is MergeableMessage {
+  return isObject(value) && isText(value.id) && isText(value.createdAt)
+    && (value.queued === undefined || typeof value.queued === 'boolean');
+}
+
+function isTask(value: unknown): boolean {
+  return isObject(value) && isText(value.id) && (value.kind === 'spray' || value.kind === 'rescan')
+    && isTime(value.dueAt) && isText(value.title);
+}
+
+/**
+ * Fields of each kind that the app reads without checking, or that merging
+ * relies on. Other fields travel as sent. History dates are not parsed, as
+ * old scans may hold a locale date string.
+ */
+const VALID_DATA: Record<SyncKind, (data: Data) => boolean> = {
+  history: d => isText(d.date) && isText(d.status)
+    && (d.chat === undefined || (Array.isArray(d.chat) && d.chat.every(isMergeableMessage))),
+  farmer: d => isText(d.name),
+  farm: d => isText(d.farmerId) && isText(d.name),
+  plot: d => isText(d.farmId) && isText(d.name),
+  plan: d => isText(d.historyId) && isText(d.diseaseId) && isTime(d.createdAt)
+    && Array.isArray(d.tasks) && d.tasks.every(isTask)
+};
+
+/**
+ * Whether `value` is a record either side can store: a tombstone, or an
+ * item whose `data` has the shape of its kind. Devices and the server skip
+ * records that are not, so one bad copy cannot break every later merge.
+ */
+export function isSyncRecord(value: unknown): value is SyncRecord {
+  if (typeof value !== 'object' || value === null) return false;
+  const r = value as Record<string, unknown>;
+  return SYNC_KINDS.includes(r.kind as SyncKind)
+    && typeof r.id === 'string' && r.id.length > 0 && r.id.length <= MAX_ID_LENGTH
+    && isTime(r.updatedAt)
+    && typeof r.deviceId === 'string'
+    && (r.deleted === undefined || typeof r.deleted === 'boolean')
+    && (r.deleted === true || (isObject(r.data) && VALID_DATA[r.kind as SyncKind](r.data)));
+}
+
+/** Positive when `a` is the later change. */
+function compareChanges(a: SyncRecord, b: SyncRecord): number {
+  const time = Date.parse(a.updatedAt) - Date.parse(b.updatedAt);
+  if (time !== 0) return time;
+  return a.deviceId < b.deviceId ? -1 : a.deviceId > b.deviceId ? 1 : 0;
+}
+
+interface MergeableMessage {
+  id: string;
+  createdAt: string;
+  queued?: boolean;
+}
+
+/**
+ * Union of two chat logs by message id. A question answered on one device
+ * and still queued on another keeps its answered copy. Entries that are not
+ * messages, e.g. in a record stored before records were checked, are dropped.
+ */
+function mergeChats(a: unknown[], b: unknown[]): MergeableMessage[] {
+  const byId = new Map<string, MergeableMessage>();
+  for (const message of [...a, ...b].filter(isMergeableMessage)) {
+    const current = byId.get(message.id);
+    if (!current || (current.queued && !message.queued)) byId.set(message.id, message);
+  }
+  return [...byId.values()].sort((x, y) => x.createdAt.localeCompare(y.createdAt) || x.id.localeCompare(y.id));
+}
+
+/**
+ * Merges two versions of the same item. The later change wins, except that
+ * follow-up chats are combined so questions asked on different devices are
+ * never lost. The result does not depend on argument order, so every device
+ * and the server converge on the same record.
+ */
+export function mergeRecords(a: SyncRecord, b: SyncRecord): SyncRecord {
+  const [winner, loser] = compareChanges(a, b) >= 0 ? [a, b] : [b, a];
+  if (winner.deleted || loser.deleted || winner.kind !== 'history') return winner;
+
+  const winnerChat = winner.data?.chat;
+  const loserChat = loser.data?.chat;
+  if (!Array.isArray(loserChat)) return winner;
+  const chat = mergeChats(Array.isArray(winnerChat) ? winnerChat : [], loserChat);
+  return { ...winner, data: { ...winner.data, chat } };
+}
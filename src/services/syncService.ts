@@ -0,0 +1,379 @@
+import { STORES, SyncMeta, Tombstone, openDatabase, request, transactionDone } from './database';
+import { deviceId } from './adviceService';
+import { HistoryItem, HistoryStore } from './historyStore';
+import { SyncKind, SyncRecord, SyncRequest, SyncResponse, isSyncRecord, mergeRecords } from './syncProtocol';
+
+// --- Types ---
+export interface SyncSettings {
+  enabled: boolean;
+  /** Base URL of the API, e.g. https://coop.example.org/api. */
+  serverUrl: string;
+  token: string;
+}
+
+export type SyncState = 'disabled' | 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  /** ISO 8601 time of the last successful sync. */
+  lastSyncedAt?: string;
+  /** Photos still waiting to be uploaded or downloaded. */
+  pendingImages: number;
+  error?: string;
+}
+
+export class SyncError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'SyncError';
+  }
+}
+
+/** Progress kept between syncs, per server. */
+interface SyncCheckpoint {
+  serverUrl: string;
+  /** Last server change applied on this device. */
+  cursor: number;
+  /**
+   * Latest `updatedAt` uploaded by versions that tracked uploads by time.
+   * Records changed after it are uploaded once more, then it is dropped in
+   * favour of each record's `pending` mark.
+   */
+  pushedUpTo?: string;
+  lastSyncedAt?: string;
+  uploads: string[];
+  downloads: string[];
+}
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = { enabled: false, serverUrl: '/api', token: '' };
+
+const SETTINGS_KEY = 'agrigasha_sync';
+const CHECKPOINT_KEY = 'agrigasha_sync_checkpoint';
+const BATCH_SIZE = 100;
+const DEBOUNCE_MS = 2000;
+const MIN_RETRY_MS = 5000;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+
+const KIND_STORES: Record<SyncKind, string> = {
+  history: STORES.history,
+  farmer: STORES.farmers,
+  farm: STORES.farms,
+  plot: STORES.plots,
+  plan: STORES.plans
+};
+
+// --- Helpers ---
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? { ...fallback, ...JSON.parse(saved) } : fallback;
+  } catch (e) {
+    return fallback;
+  }
+}
+
+function writeJson(key: string, value: unknown): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    console.error("Sync state save failed", e);
+  }
+}
+
+function emptyCheckpoint(serverUrl: string): SyncCheckpoint {
+  return { serverUrl, cursor: 0, uploads: [], downloads: [] };
+}
+
+type StoredItem = { id: string, updatedAt?: string, thumbnail?: Blob } & SyncMeta;
+
+/**
+ * Item as stored on the phone. It keeps the device that made its last
+ * change, so other devices' changes are never passed off as this one's.
+ * History thumbnails are rebuilt from the photo instead of synced.
+ */
+function toRecord(kind: SyncKind, value: StoredItem, device: string): SyncRecord {
+  const { thumbnail, pending, deviceId: changedBy, ...data } = value as HistoryItem & SyncMeta;
+  return { kind, id: value.id, updatedAt: value.updatedAt ?? new Date(0).toISOString(), deviceId: changedBy ?? device, data };
+}
+
+function tombstoneRecord(tombstone: Tombstone, device: string): SyncRecord {
+  return { kind: tombstone.kind, id: tombstone.id, updatedAt: tombstone.updatedAt, deviceId: tombstone.deviceId ?? device, deleted: true };
+}
+
+// --- Service ---
+
+/**
+ * Opt-in sync of scan history, photos and fields with a cooperative server
+ * (server/sync.ts). Every item carries its own id and change time, and
+ * deletions leave tombstones, so any number of phones can work offline and
+ * merge later without losing each other's scans. A failed sync is retried
+ * with backoff and again as soon as the phone comes back online.
+ */
+export class SyncService {
+  private static status: SyncStatus = { state: 'disabled', pendingImages: 0 };
+  private static listeners = new Set<(status: SyncStatus) => void>();
+  private static running: Promise<boolean> | null = null;
+  private static timer: ReturnType<typeof setTimeout> | undefined;
+  private static failures = 0;
+  private static onApplied: () => void = () => {};
+
+  static settings(): SyncSettings {
+    return readJson(SETTINGS_KEY, DEFAULT_SYNC_SETTINGS);
+  }
+
+  /** Saves the settings; a different server starts again from its first change. */
+  static configure(settings: SyncSettings): void {
+    writeJson(SETTINGS_KEY, settings);
+    if (this.checkpoint().serverUrl !== settings.serverUrl) writeJson(CHECKPOINT_KEY, emptyCheckpoint(settings.serverUrl));
+    this.failures = 0;
+    this.setStatus(this.idleStatus());
+    this.schedule(0);
+  }
+
+  /**
+   * Calls `onChange` with the sync status now and on every change. Returns
+   * an unsubscribe function.
+   */
+  static watch(onChange: (status: SyncStatus) => void): () => void {
+    this.listeners.add(onChange);
+    onChange(this.status);
+    return () => { this.listeners.delete(onChange); };
+  }
+
+  /**
+   * Starts syncing in the background. `onApplied` is called after changes
+   * from other devices were written locally. Returns a stop function.
+   */
+  static start(onApplied: () => void): () => void {
+    this.onApplied = onApplied;
+    const online = () => {
+      this.failures = 0;
+      this.schedule(0);
+    };
+    const offline = () => this.setStatus({ ...this.idleStatus(), state: this.settings().enabled ? 'offline' : 'disabled' });
+    window.addEventListener('online', online);
+    window.addEventListener('offline', offline);
+    this.setStatus(this.idleStatus());
+    this.schedule(0);
+    return () => {
+      window.removeEventListener('online', online);
+      window.removeEventListener('offline', offline);
+      clearTimeout(this.timer);
+      this.onApplied = () => {};
+    };
+  }
+
+  /** Syncs soon; repeated calls within a short time cause one sync. */
+  static schedule(delay: number = DEBOUNCE_MS): void {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => { this.syncNow().catch(() => {}); }, delay);
+  }
+
+  /** Syncs now. Resolves true when local data changed. */
+  static syncNow(): Promise<boolean> {
+    if (!this.running) {
+      this.running = this.run().finally(() => { this.running = null; });
+    }
+    return this.running;
+  }
+
+  private static async run(): Promise<boolean> {
+    const settings = this.settings();
+    if (!settings.enabled) {
+      this.setStatus(this.idleStatus());
+      return false;
+    }
+    if (!navigator.onLine) {
+      this.setStatus({ ...this.idleStatus(), state: 'offline' });
+      return false;
+    }
+
+    this.setStatus({ ...this.idleStatus(), state: 'syncing' });
+    try {
+      const checkpoint = this.checkpoint();
+      const device = deviceId();
+      const outgoing = (await this.localRecords(device, checkpoint.pushedUpTo)).sort((a, b) => a.updatedAt.localeCompare(b.updatedAt));
+      let changed = false;
+      let more = true;
+      while (outgoing.length > 0 || more) {
+        const batch = outgoing.splice(0, BATCH_SIZE);
+        const response = await this.post(settings, { cursor: checkpoint.cursor, changes: batch });
+        const applied = await this.applyRemote(response.changes, checkpoint);
+        changed = changed || applied;
+        await this.acknowledge(batch);
+        checkpoint.cursor = response.cursor;
+        checkpoint.uploads = [...new Set([...checkpoint.uploads, ...response.missingImages])];
+        more = response.more;
+        writeJson(CHECKPOINT_KEY, checkpoint);
+      }
+
+      delete checkpoint.pushedUpTo;
+      changed = (await this.transferImages(settings, checkpoint)) || changed;
+      checkpoint.lastSyncedAt = new Date().toISOString();
+      writeJson(CHECKPOINT_KEY, checkpoint);
+
+      this.failures = 0;
+      this.setStatus(this.idleStatus());
+      if (changed) this.onApplied();
+      return changed;
+    } catch (error) {
+      console.error('Sync failed:', error);
+      this.failures++;
+      this.setStatus({ ...this.idleStatus(), state: 'error', error: error instanceof Error ? error.message : String(error) });
+      this.schedule(Math.min(MIN_RETRY_MS * 2 ** (this.failures - 1), MAX_RETRY_MS));
+      throw error;
+    }
+  }
+
+  private static checkpoint(): SyncCheckpoint {
+    const serverUrl = this.settings().serverUrl;
+    const checkpoint = readJson(CHECKPOINT_KEY, emptyCheckpoint(serverUrl));
+    return checkpoint.serverUrl === serverUrl ? checkpoint : emptyCheckpoint(serverUrl);
+  }
+
+  private static idleStatus(): SyncStatus {
+    const checkpoint = this.checkpoint();
+    return {
+      state: this.settings().enabled ? 'idle' : 'disabled',
+      lastSyncedAt: checkpoint.lastSyncedAt,
+      pendingImages: checkpoint.uploads.length + checkpoint.downloads.length
+    };
+  }
+
+  private static setStatus(status: SyncStatus) {
+    this.status = status;
+    this.listeners.forEach(listener => listener(status));
+  }
+
+  /**
+   * Changes made on this phone that the server has not acknowledged yet,
+   * and with a legacy checkpoint, every record changed after `pushedUpTo`.
+   */
+  private static async localRecords(device: string, pushedUpTo?: string): Promise<SyncRecord[]> {
+    const outgoing = (item: { updatedAt?: string } & SyncMeta) =>
+      item.pending || (pushedUpTo !== undefined && (item.updatedAt ?? '') > pushedUpTo);
+    const db = await openDatabase();
+    const tx = db.transaction([...Object.values(KIND_STORES), STORES.tombstones]);
+    const records: SyncRecord[] = [];
+    for (const kind of Object.keys(KIND_STORES) as SyncKind[]) {
+      const items = await request<StoredItem[]>(tx.objectStore(KIND_STORES[kind]).getAll());
+      records.push(...items.filter(outgoing).map(item => toRecord(kind, item, device)));
+    }
+    const tombstones = await request<Tombstone[]>(tx.objectStore(STORES.tombstones).getAll());
+    records.push(...tombstones.filter(outgoing).map(t => tombstoneRecord(t, device)));
+    return records;
+  }
+
+  /** Clears the `pending` mark of uploaded records, unless they changed again meanwhile. */
+  private static async acknowledge(records: SyncRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    const db = await openDatabase();
+    const tx = db.transaction([...Object.values(KIND_STORES), STORES.tombstones], 'readwrite');
+    for (const record of records) {
+      const store = record.deleted ? tx.objectStore(STORES.tombstones) : tx.objectStore(KIND_STORES[record.kind]);
+      const stored = await request<({ updatedAt?: string } & SyncMeta) | undefined>(store.get(record.deleted ? [record.kind, record.id] : record.id));
+      if (stored?.pending && stored.updatedAt === record.updatedAt) store.put({ ...stored, pending: false });
+    }
+    await transactionDone(tx);
+  }
+
+  /**
+   * Merges server records into the local stores in one transaction, skipping
+   * any that are malformed. Returns true when anything was written.
+   */
+  private static async applyRemote(records: SyncRecord[], checkpoint: SyncCheckpoint): Promise<boolean> {
+    if (records.length === 0) return false;
+    const device = deviceId();
+    const db = await openDatabase();
+    const tx = db.transaction([...Object.values(KIND_STORES), STORES.images, STORES.tombstones], 'readwrite');
+    const tombstones = tx.objectStore(STORES.tombstones);
+    let changed = false;
+
+    for (const remote of records) {
+      if (!isSyncRecord(remote)) {
+        console.error('Malformed sync record skipped:', remote);
+        continue;
+      }
+      const store = tx.objectStore(KIND_STORES[remote.kind]);
+      const item = await request<StoredItem | undefined>(store.get(remote.id));
+      const tombstone = await request<Tombstone | undefined>(tombstones.get([remote.kind, remote.id]));
+      const local = item ? toRecord(remote.kind, item, device) : tombstone && tombstoneRecord(tombstone, device);
+      const merged = local ? mergeRecords(local, remote) : remote;
+      if (local && JSON.stringify(merged.data) === JSON.stringify(local.data) && !!merged.deleted === !!local.deleted) continue;
+      // A local change not uploaded yet that survives the merge, e.g. a chat message, still has to go up
+      const pending = !!(item ?? tombstone)?.pending && merged !== remote;
+
+      if (merged.deleted) {
+        store.delete(remote.id);
+        if (remote.kind === 'history') {
+          tx.objectStore(STORES.images).delete(remote.id);
+          checkpoint.downloads = checkpoint.downloads.filter(d => d !== remote.id);
+        }
+        tombstones.put({ kind: remote.kind, id: remote.id, updatedAt: merged.updatedAt, deviceId: merged.deviceId, pending } as Tombstone);
+      } else {
+        store.put({ ...merged.data, id: remote.id, updatedAt: merged.updatedAt, deviceId: merged.deviceId, pending, thumbnail: item?.thumbnail });
+        if (tombstone) tombstones.delete([remote.kind, remote.id]);
+        // Only scans with a photo wait for one; the server would answer 404 for the others forever
+        const photoMissing = remote.kind === 'history' && merged.data?.hasPhoto !== false
+          && (await request<IDBValidKey | undefined>(tx.objectStore(STORES.images).getKey(remote.id))) === undefined;
+        if (photoMissing && !checkpoint.downloads.includes(remote.id)) checkpoint.downloads.push(remote.id);
+      }
+      changed = true;
+    }
+    await transactionDone(tx);
+    return changed;
+  }
+
+  /** Uploads photos the server lacks and downloads photos this phone lacks. */
+  private static async transferImages(settings: SyncSettings, checkpoint: SyncCheckpoint): Promise<boolean> {
+    for (const id of [...checkpoint.uploads]) {
+      const image = await HistoryStore.getImage(id);
+      if (image) {
+        const response = await fetch(`${settings.serverUrl}/sync/images/${encodeURIComponent(id)}`, {
+          method: 'PUT',
+          headers: { ...this.headers(settings), 'Content-Type': image.type || 'image/jpeg' },
+          body: image
+        });
+        if (!response.ok) throw new SyncError(`Photo upload failed: ${response.status}`, response.status);
+      }
+      checkpoint.uploads = checkpoint.uploads.filter(u => u !== id);
+      writeJson(CHECKPOINT_KEY, checkpoint);
+    }
+
+    // Queues saved before scans recorded `hasPhoto` may hold scans that never had a photo
+    if (checkpoint.downloads.length > 0) {
+      const withoutPhoto = new Set((await HistoryStore.getAll()).filter(item => item.hasPhoto === false).map(item => item.id));
+      checkpoint.downloads = checkpoint.downloads.filter(id => !withoutPhoto.has(id));
+    }
+
+    let changed = false;
+    for (const id of [...checkpoint.downloads]) {
+      const response = await fetch(`${settings.serverUrl}/sync/images/${encodeURIComponent(id)}`, { headers: this.headers(settings) });
+      // 404: the other device has not uploaded it yet; keep it for next time
+      if (response.status === 404) continue;
+      if (!response.ok) throw new SyncError(`Photo download failed: ${response.status}`, response.status);
+      await HistoryStore.saveImage(id, await response.blob());
+      checkpoint.downloads = checkpoint.downloads.filter(d => d !== id);
+      writeJson(CHECKPOINT_KEY, checkpoint);
+      changed = true;
+    }
+    return changed;
+  }
+
+  private static headers(settings: SyncSettings): Record<string, string> {
+    const headers: Record<string, string> = { 'X-Device-Id': deviceId() };
+    if (settings.token) headers.Authorization = `Bearer ${settings.token}`;
+    return headers;
+  }
+
+  private static async post(settings: SyncSettings, body: SyncRequest): Promise<SyncResponse> {
+    const response = await fetch(`${settings.serverUrl}/sync`, {
+      method: 'POST',
+      headers: { ...this.headers(settings), 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    if (!response.ok) throw new SyncError(`Sync failed: ${response.status}`, response.status);
+    return response.json();
+  }
+}
@@ -0,0 +1,166 @@
+import { ChemicalOption, Disease, Language, Translation } from '../constants';
+import { STORES, localChange, newId, openDatabase, request, transactionDone } from './database';
+import { HistoryItem } from './historyStore';
+import { format, localize } from './i18n';
+
+// --- Types ---
+
+export type TaskKind = 'spray' | 'rescan';
+
+export interface PlanTask {
+  id: string;
+  kind: TaskKind;
+  /** ISO 8601 time the task is due; reminders go out then. */
+  dueAt: string;
+  /** What to do, in the language the plan was made in. */
+  title: string;
+  /** ISO 8601 time the farmer marked the task done. */
+  doneAt?: string;
+  /** ISO 8601 time a reminder was shown, so each task is announced once. */
+  notifiedAt?: string;
+}
+
+/** Dated steps for treating one diagnosis, e.g. three copper sprays and a re-scan. */
+export interface TreatmentPlan {
+  id: string;
+  /** The `HistoryItem` whose diagnosis the plan treats. */
+  historyId: string;
+  diseaseId: string;
+  /** `Plot.id` of the scan, so the re-scan can be taken on the same plot. */
+  plotId?: string;
+  /** `ChemicalOption.activeIngredient` sprayed; absent for a plan without sprays. */
+  product?: string;
+  /** ISO 8601 */
+  createdAt: string;
+  /** ISO 8601 time of the last change, for sync. */
+  updatedAt?: string;
+  /** Earliest safe harvest (YYYY-MM-DD) after the last spray's pre-harvest interval. */
+  harvestAfter?: string;
+  tasks: PlanTask[];
+}
+
+/** Re-scan after the last spray, or after the diagnosis, when the disease gives no `followUpDays`. */
+export const DEFAULT_FOLLOW_UP_DAYS = 14;
+/** Local hour reminders of later tasks are due at, before the day's field work. */
+const REMINDER_HOUR = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// --- Planning ---
+
+/** `days` after `start`, at the reminder hour. */
+function dayAt(start: Date, days: number): Date {
+  const date = new Date(start.getTime() + days * DAY_MS);
+  date.setHours(REMINDER_HOUR, 0, 0, 0);
+  return date;
+}
+
+/**
+ * Turns a diagnosis into dated tasks: each application of `chemical`, the
+ * first one now, then a re-scan to confirm the treatment worked. Without a
+ * chemical the farmer follows the organic advice and only the re-scan is
+ * scheduled. Task titles are written in `lang` so reminders can be shown
+ * without the app's translations.
+ */
+export function createPlan(disease: Disease, item: HistoryItem, chemical: ChemicalOption | undefined, lang: Language, t: Translation, now: Date = new Date()): TreatmentPlan {
+  const tasks: PlanTask[] = [];
+  const applications = chemical ? chemical.applications ?? 1 : 0;
+  for (let i = 0; i < applications; i++) {
+    const dueAt = i === 0 ? now : dayAt(now, i * (chemical!.repeatAfterDays ?? 0));
+    tasks.push({
+      id: newId(),
+      kind: 'spray',
+      dueAt: dueAt.toISOString(),
+      title: format(applications > 1 ? t.taskSprayRepeat : t.taskSpray, { product: chemical!.activeIngredient, n: i + 1, total: applications })
+    });
+  }
+  const lastSpray = tasks.length > 0 ? new Date(tasks[tasks.length - 1].dueAt) : now;
+  tasks.push({
+    id: newId(),
+    kind: 'rescan',
+    dueAt: dayAt(lastSpray, disease.followUpDays ?? DEFAULT_FOLLOW_UP_DAYS).toISOString(),
+    title: format(t.taskRescan, { disease: localize(disease.name, lang) })
+  });
+
+  return {
+    id: newId(),
+    historyId: item.id,
+    diseaseId: disease.id,
+    plotId: item.plotId,
+    product: chemical?.activeIngredient,
+    createdAt: now.toISOString(),
+    harvestAfter: chemical ? new Date(lastSpray.getTime() + chemical.preHarvestIntervalDays * DAY_MS).toISOString().slice(0, 10) : undefined,
+    tasks
+  };
+}
+
+/** Open tasks that are due by `now`, oldest first. */
+export function dueTasks(plans: TreatmentPlan[], now: Date = new Date()): { plan: TreatmentPlan, task: PlanTask }[] {
+  return plans
+    .flatMap(plan => plan.tasks.map(task => ({ plan, task })))
+    .filter(({ task }) => !task.doneAt && Date.parse(task.dueAt) <= now.getTime())
+    .sort((a, b) => a.task.dueAt.localeCompare(b.task.dueAt));
+}
+
+/** The next open task of a plan, if any is left. */
+export function nextTask(plan: TreatmentPlan): PlanTask | undefined {
+  return plan.tasks.find(task => !task.doneAt);
+}
+
+// --- Store ---
+
+/** Treatment plans in IndexedDB, synced like scans and fields. */
+export class TreatmentPlanStore {
+  /** All plans, newest first. */
+  static async getAll(): Promise<TreatmentPlan[]> {
+    const db = await openDatabase();
+    const plans = await request<TreatmentPlan[]>(db.transaction(STORES.plans).objectStore(STORES.plans).getAll());
+    return plans.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  static async save(plan: TreatmentPlan): Promise<TreatmentPlan> {
+    const saved = { ...plan, ...localChange(plan.updatedAt) };
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.plans, 'readwrite');
+    tx.objectStore(STORES.plans).put(saved);
+    await transactionDone(tx);
+    return saved;
+  }
+
+  /** Marks a task done, or open again when `done` is false. Resolves undefined if the plan is gone. */
+  static async setDone(planId: string, taskId: string, done: boolean): Promise<TreatmentPlan | undefined> {
+    return this.update(planId, task => task.id === taskId ? { ...task, doneAt: done ? new Date().toISOString() : undefined } : task);
+  }
+
+  /** Records that reminders were shown for these tasks. */
+  static async markNotified(tasks: { plan: TreatmentPlan, task: PlanTask }[]): Promise<void> {
+    const notifiedAt = new Date().toISOString();
+    const planIds = new Set(tasks.map(({ plan }) => plan.id));
+    const taskIds = new Set(tasks.map(({ task }) => task.id));
+    for (const planId of planIds) {
+      await this.update(planId, task => taskIds.has(task.id) ? { ...task, notifiedAt } : task);
+    }
+  }
+
+  static async remove(planId: string): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction([STORES.plans, STORES.tombstones], 'readwrite');
+    const plan = await request<TreatmentPlan | undefined>(tx.objectStore(STORES.plans).get(planId));
+    if (plan) {
+      tx.objectStore(STORES.tombstones).put({ kind: 'plan', id: planId, ...localChange(plan.updatedAt) });
+      tx.objectStore(STORES.plans).delete(planId);
+    }
+    await transactionDone(tx);
+  }
+
+  /** Reads and writes in one transaction, like `HistoryStore.patch`. */
+  private static async update(planId: string, change: (task: PlanTask) => PlanTask): Promise<TreatmentPlan | undefined> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.plans, 'readwrite');
+    const store = tx.objectStore(STORES.plans);
+    const current = await request<TreatmentPlan | undefined>(store.get(planId));
+    const updated = current && { ...current, tasks: current.tasks.map(change), ...localChange(current.updatedAt) };
+    if (updated) store.put(updated);
+    await transactionDone(tx);
+    return updated;
+  }
+}
@@ -0,0 +1,110 @@
+// --- Types ---
+export type WeatherCondition = 'clear' | 'partly-cloudy' | 'cloudy' | 'fog' | 'rain' | 'storm';
+
+/** One day of weather, aggregated from hourly values by server/weather.ts. */
+export interface DailyWeather {
+  /** Local date, YYYY-MM-DD. */
+  date: string;
+  tempMin: number;
+  tempMax: number;
+  tempMean: number;
+  /** Mean relative humidity in percent. */
+  humidityMean: number;
+  rainMm: number;
+  /**
+   * Hours with rain or humidity of 90% and more: a stand-in for leaf
+   * wetness, which fungal spores need to germinate.
+   */
+  wetHours: number;
+}
+
+export interface Forecast {
+  latitude: number;
+  longitude: number;
+  /** Weather backend that answered, e.g. "open-meteo". */
+  provider: string;
+  /** ISO 8601 time the server fetched the forecast. */
+  fetchedAt: string;
+  current: {
+    temperature: number;
+    humidity: number;
+    condition: WeatherCondition;
+  };
+  /** Local date at the location, YYYY-MM-DD; `days` has the week before it and the week after. */
+  today: string;
+  days: DailyWeather[];
+}
+
+export interface CachedForecast {
+  forecast: Forecast;
+  /** True when the server could not be reached and this is the last saved forecast. */
+  stale: boolean;
+}
+
+export interface WeatherLocation {
+  latitude: number;
+  longitude: number;
+}
+
+const WEATHER_URL = '/api/weather';
+const CACHE_KEY = 'agrigasha_weather';
+const LOCATION_KEY = 'agrigasha_weather_location';
+
+// --- Service ---
+
+/**
+ * Forecasts for the farmer's location from the app's server, which picks the
+ * weather backend. The last forecast is kept, so the home screen and the
+ * disease risk still show something with no signal.
+ */
+export class WeatherService {
+  /** Where forecasts are for; null until the farmer shares a position. */
+  static location(): WeatherLocation | null {
+    try {
+      const saved = localStorage.getItem(LOCATION_KEY);
+      return saved ? JSON.parse(saved) : null;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  static setLocation(location: WeatherLocation): void {
+    try {
+      // About a kilometer is plenty for a forecast
+      localStorage.setItem(LOCATION_KEY, JSON.stringify({
+        latitude: Number(location.latitude.toFixed(2)),
+        longitude: Number(location.longitude.toFixed(2))
+      }));
+    } catch (e) {
+      console.error("Weather location save failed", e);
+    }
+  }
+
+  static cached(): Forecast | null {
+    try {
+      const saved = localStorage.getItem(CACHE_KEY);
+      return saved ? JSON.parse(saved) : null;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  static async fetch(location: WeatherLocation): Promise<CachedForecast> {
+    try {
+      const response = await fetch(`${WEATHER_URL}?lat=${location.latitude}&lon=${location.longitude}`);
+      if (!response.ok) throw new Error(`Weather request failed: ${response.status}`);
+      const forecast: Forecast = await response.json();
+      try {
+        localStorage.setItem(CACHE_KEY, JSON.stringify(forecast));
+      } catch (e) {
+        console.error("Weather cache save failed", e);
+      }
+      return { forecast, stale: false };
+    } catch (error) {
+      const cached = this.cached();
+      if (!cached) throw error;
+      console.error('Weather fetch failed, showing saved forecast:', error);
+      return { forecast: cached, stale: true };
+    }
+  }
+}
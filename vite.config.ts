@@ -1,18 +1,102 @@
 import tailwindcss from '@tailwindcss/vite';
 import react from '@vitejs/plugin-react';
+import fs from 'fs';
 import path from 'path';
-import {defineConfig, loadEnv} from 'vite';
+import {defineConfig, Plugin} from 'vite';
+import {MODEL_MANIFEST} from './src/services/modelManifest';
 
-export default defineConfig(({mode}) => {
-  const env = loadEnv(mode, '.', '');
+const TFLITE_WASM_DIR = path.resolve(__dirname, 'node_modules/@tensorflow/tfjs-tflite/wasm');
+const KNOWLEDGE_BASE_FILE = path.resolve(__dirname, 'src/data/knowledge-base.json');
+const AUDIO_DIR = path.resolve(__dirname, 'public/audio');
+
+/** Every file below `dir`, as slash-separated paths relative to it. */
+function listFiles(dir: string): string[] {
+  const files: string[] = [];
+  const walk = (current: string) => {
+    for (const entry of fs.readdirSync(current, {withFileTypes: true})) {
+      const full = path.join(current, entry.name);
+      if (entry.isDirectory()) walk(full);
+      else files.push(path.relative(dir, full).split(path.sep).join('/'));
+    }
+  };
+  walk(dir);
+  return files;
+}
+
+/** The MP3 clips under public/audio/<lang>/, for AudioService in src/services/audioService.ts. */
+function audioManifest(): {clips: Record<string, string[]>} {
+  const clips: Record<string, string[]> = {};
+  if (!fs.existsSync(AUDIO_DIR)) return {clips};
+  for (const entry of fs.readdirSync(AUDIO_DIR, {withFileTypes: true})) {
+    if (!entry.isDirectory()) continue;
+    clips[entry.name] = listFiles(path.join(AUDIO_DIR, entry.name)).filter(f => f.endsWith('.mp3')).sort();
+  }
+  return {clips};
+}
+
+/**
+ * Serves the TFLite WASM runtime from /tflite/, the disease knowledge base
+ * from /knowledge-base.json and the list of audio clips from
+ * /audio/manifest.json, and after a build injects the list of every
+ * emitted file (plus the model) into dist/sw.js for precaching.
+ */
+function offlinePrecache(): Plugin {
+  let outDir = 'dist';
   return {
-    plugins: [react(), tailwindcss()],
-    define: {
-      'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+    name: 'agrigasha-offline-precache',
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir);
+    },
+    configureServer(server) {
+      server.middlewares.use('/tflite', (req, res, next) => {
+        const file = path.join(TFLITE_WASM_DIR, path.basename(req.url ?? ''));
+        if (!fs.existsSync(file)) return next();
+        res.setHeader('Content-Type', file.endsWith('.wasm') ? 'application/wasm' : 'text/javascript');
+        fs.createReadStream(file).pipe(res);
+      });
+      server.middlewares.use('/knowledge-base.json', (_req, res) => {
+        res.setHeader('Content-Type', 'application/json');
+        fs.createReadStream(KNOWLEDGE_BASE_FILE).pipe(res);
+      });
+      server.middlewares.use('/audio/manifest.json', (_req, res) => {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(audioManifest()));
+      });
+    },
+    generateBundle() {
+      for (const name of fs.readdirSync(TFLITE_WASM_DIR)) {
+        this.emitFile({type: 'asset', fileName: `tflite/${name}`, source: fs.readFileSync(path.join(TFLITE_WASM_DIR, name))});
+      }
+      this.emitFile({type: 'asset', fileName: 'knowledge-base.json', source: fs.readFileSync(KNOWLEDGE_BASE_FILE)});
+      this.emitFile({type: 'asset', fileName: 'audio/manifest.json', source: JSON.stringify(audioManifest())});
     },
+    closeBundle() {
+      const swFile = path.join(outDir, 'sw.js');
+      if (!fs.existsSync(swFile)) return;
+
+      const files = listFiles(outDir).map(f => '/' + f);
+      const urls = ['/', ...files.filter(f => f !== '/sw.js' && !f.endsWith('.map'))];
+      // The model must be listed even if missing so offline readiness reports it
+      if (!urls.includes(MODEL_MANIFEST.modelUrl)) urls.push(MODEL_MANIFEST.modelUrl);
+      const version = `${MODEL_MANIFEST.version}-${Date.now().toString(36)}`;
+
+      const source = fs.readFileSync(swFile, 'utf8').replace(
+        /const PRECACHE_MANIFEST = .*;/,
+        `const PRECACHE_MANIFEST = ${JSON.stringify({version, urls})};`
+      );
+      fs.writeFileSync(swFile, source);
+    },
+  };
+}
+
+export default defineConfig(() => {
+  return {
+    plugins: [react(), tailwindcss(), offlinePrecache()],
     resolve: {
       alias: {
         '@': path.resolve(__dirname, '.'),
+        // The package's ESM entry imports a file it does not ship; its flat bundle is complete
+        '@tensorflow/tfjs-tflite': path.resolve(__dirname, 'node_modules/@tensorflow/tfjs-tflite/dist/tf-tflite.fesm.js'),
       },
     },
     server: {